@@ -0,0 +1,185 @@
+/**
+ * Builds src/data/postcodes.ts from an Australian postcode/locality CSV
+ *
+ * Usage: node scripts/build-postcodes.mjs <localities.csv>
+ *
+ * Works with the common published locality lists (e.g. Australia Post's
+ * postcode file or the community australian_postcodes.csv). Columns are
+ * matched by header name:
+ *   postcode                 - required
+ *   locality / suburb        - required
+ *   state                    - required
+ *   lat / latitude           - required
+ *   long / lng / longitude   - required
+ *   type / category          - optional, "Post Office Boxes" rows are flagged as PO boxes
+ *
+ * Rows without coordinates are skipped. Localities keep the order they
+ * appear in the CSV, which the app uses to pick a postcode's main locality.
+ * The output is deflated and base64 encoded to keep the chunk small.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { deflateRawSync } from 'node:zlib';
+
+const STATES = new Set(['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA']);
+
+const COLUMNS = {
+  postcode: ['postcode'],
+  locality: ['locality', 'suburb', 'place_name'],
+  state: ['state', 'state_code'],
+  lat: ['lat', 'latitude'],
+  lng: ['long', 'lng', 'longitude'],
+  type: ['type', 'category'],
+};
+
+/**
+ * Splits CSV text into rows, handling quoted fields
+ */
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Title-cases names that are all capitals (e.g. "DARWIN CITY" -> "Darwin City")
+ */
+function formatName(name) {
+  const cleaned = name.replace(/[;,*]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (cleaned !== cleaned.toUpperCase()) return cleaned;
+
+  return cleaned.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, sep, letter) => sep + letter.toUpperCase());
+}
+
+function findColumn(header, names, required) {
+  const index = header.findIndex((column) => names.includes(column.trim().toLowerCase()));
+  if (index === -1 && required) {
+    throw new Error(`CSV is missing a ${names.join('/')} column`);
+  }
+  return index;
+}
+
+/**
+ * Turns the CSV into the app's postcode data, one postcode per line:
+ * "postcode state locality,lat,lng;locality,lat,lng"
+ */
+export function buildPostcodeData(csv) {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, names]) => [key, findColumn(header, names, key !== 'type')])
+  );
+
+  const postcodes = new Map();
+  let skipped = 0;
+
+  for (const row of rows) {
+    // Keep the leading zero on NT postcodes (0800) if a spreadsheet dropped it
+    const postcode = row[columns.postcode].trim().padStart(4, '0');
+    const state = row[columns.state].trim().toUpperCase();
+    const name = formatName(row[columns.locality]);
+    const lat = Number(row[columns.lat]);
+    const lng = Number(row[columns.lng]);
+
+    if (!/^\d{4}$/.test(postcode) || !STATES.has(state) || !name || !lat || !lng) {
+      skipped++;
+      continue;
+    }
+
+    const type = columns.type === -1 ? '' : row[columns.type];
+    const poBox = /post office box|po box/i.test(type);
+
+    const entry = postcodes.get(postcode) ?? { state, localities: new Map() };
+    if (!entry.localities.has(name)) {
+      entry.localities.set(name, `${poBox ? '*' : ''}${name},${lat.toFixed(4)},${lng.toFixed(4)}`);
+    }
+    postcodes.set(postcode, entry);
+  }
+
+  const data = [...postcodes.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([postcode, { state, localities }]) => `${postcode} ${state} ${[...localities.values()].join(';')}`)
+    .join('\n');
+
+  return { data, count: postcodes.size, skipped };
+}
+
+/**
+ * Deflates the postcode data for bundling - see inflatePostcodeData in
+ * src/utils/geolocation.ts
+ */
+export function compressPostcodeData(data) {
+  return deflateRawSync(data, { level: 9 }).toString('base64');
+}
+
+async function main() {
+  const input = process.argv[2];
+  if (!input) {
+    console.error('Usage: node scripts/build-postcodes.mjs <localities.csv>');
+    process.exit(1);
+  }
+
+  const output = fileURLToPath(new URL('../src/data/postcodes.ts', import.meta.url));
+  const { data, count, skipped } = buildPostcodeData(await readFile(input, 'utf8'));
+  const compressed = compressPostcodeData(data);
+
+  const source = `/**
+ * Australian postcodes and the localities they cover
+ * Generated by scripts/build-postcodes.mjs - don't edit by hand.
+ *
+ * One postcode per line: "postcode state locality,lat,lng;locality,lat,lng"
+ * Localities that only have PO boxes are marked with a leading "*".
+ * Stored deflated and base64 encoded, and only loaded, as its own chunk, the
+ * first time a postcode is looked up.
+ */
+export const POSTCODE_DATA =
+  '${compressed}';
+`;
+
+  await writeFile(output, source);
+  console.log(`Wrote ${count} postcodes to ${output} (${compressed.length} bytes, ${skipped} rows skipped)`);
+}
+
+// Only build when run directly, not when the tests import it
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error) => {
+    console.error('Failed to build postcode data:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+import { buildPostcodeData, compressPostcodeData } from './build-postcodes.mjs';
+
+const HEADER = 'postcode,locality,state,long,lat,type';
+
+describe('build-postcodes', () => {
+  describe('buildPostcodeData', () => {
+    it('should group localities by postcode in CSV order', () => {
+      const { data, count } = buildPostcodeData(
+        [
+          HEADER,
+          '4000,BRISBANE CITY,QLD,153.0251,-27.4698,Delivery Area',
+          '2000,SYDNEY,NSW,151.2093,-33.8688,Delivery Area',
+          '4000,PETRIE TERRACE,QLD,153.0130,-27.4600,Delivery Area',
+          '4000,BRISBANE CITY,QLD,153.0251,-27.4698,Delivery Area',
+        ].join('\n')
+      );
+
+      expect(count).toBe(2);
+      expect(data).toBe(
+        '2000 NSW Sydney,-33.8688,151.2093\n' +
+          '4000 QLD Brisbane City,-27.4698,153.0251;Petrie Terrace,-27.4600,153.0130'
+      );
+    });
+
+    it('should put back the leading zero on NT postcodes', () => {
+      const { data } = buildPostcodeData(`${HEADER}\n800,DARWIN CITY,NT,130.8456,-12.4634,Delivery Area`);
+
+      expect(data).toBe('0800 NT Darwin City,-12.4634,130.8456');
+    });
+
+    it('should mark PO box localities', () => {
+      const { data } = buildPostcodeData(
+        `${HEADER}\n4001,BRISBANE,QLD,153.0251,-27.4698,Post Office Boxes`
+      );
+
+      expect(data).toBe('4001 QLD *Brisbane,-27.4698,153.0251');
+    });
+
+    it('should read the column names other locality lists use', () => {
+      const { data } = buildPostcodeData(
+        'Postcode,Suburb,State_Code,Latitude,Longitude\n"0870","Alice Springs","NT","-23.6980","133.8807"'
+      );
+
+      expect(data).toBe('0870 NT Alice Springs,-23.6980,133.8807');
+    });
+
+    it('should skip rows without coordinates or with a bad postcode or state', () => {
+      const { data, skipped } = buildPostcodeData(
+        [
+          HEADER,
+          '3000,MELBOURNE,VIC,144.9631,-37.8136,Delivery Area',
+          '3001,MELBOURNE,VIC,,,Post Office Boxes',
+          '30000,MELBOURNE,VIC,144.9631,-37.8136,Delivery Area',
+          '3000,MELBOURNE,XX,144.9631,-37.8136,Delivery Area',
+        ].join('\n')
+      );
+
+      expect(data).toBe('3000 VIC Melbourne,-37.8136,144.9631');
+      expect(skipped).toBe(3);
+    });
+
+    it('should reject a CSV without the required columns', () => {
+      expect(() => buildPostcodeData('postcode,locality,state\n4000,BRISBANE,QLD')).toThrow(
+        'CSV is missing a lat/latitude column'
+      );
+    });
+  });
+
+  describe('compressPostcodeData', () => {
+    it('should deflate and base64 encode the data', () => {
+      const data = '0800 NT Darwin City,-12.4634,130.8456\n0801 NT *Darwin,-12.4634,130.8456';
+      const compressed = compressPostcodeData(data);
+
+      expect(compressed).toMatch(/^[A-Za-z0-9+/]+=*$/);
+      expect(inflateRawSync(Buffer.from(compressed, 'base64')).toString()).toBe(data);
+    });
+  });
+});
@@ -0,0 +1,882 @@
+import express from 'express';
+import cors from 'cors';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { upstreamFetch, getCircuitStates } from './upstream.js';
+import {
+  recordObservation,
+  getObservationHistory,
+  STATION_ID_PATTERN
+} from './observationHistory.js';
+import { decodeGeohash } from './geohash.js';
+import { RADAR_PRODUCT_IDS } from './radarProducts.js';
+
+/**
+ * The API's Express app - index.js starts it listening
+ */
+export const app = express();
+export const OBSERVATION_HISTORY_FILE = process.env.OBSERVATION_HISTORY_FILE; // Optional - keeps station history across restarts
+
+// Enable CORS for all origins (restrict in production if needed)
+app.use(cors());
+
+/**
+ * Single-flight deduplication for upstream BoM calls
+ * Concurrent identical calls (same type and key) share one in-flight promise,
+ * so a burst of clients asking for the same loop or location costs one fetch.
+ * Stats per call type -> { requests, upstream, saved }
+ */
+const inFlight = new Map();
+const coalescingStats = {};
+
+export function coalesce(type, key, fn) {
+  const stats = coalescingStats[type] ??= { requests: 0, upstream: 0, saved: 0 };
+  stats.requests++;
+
+  const flightKey = `${type}:${key}`;
+  const pending = inFlight.get(flightKey);
+  if (pending) {
+    stats.saved++;
+    return pending;
+  }
+
+  stats.upstream++;
+  const promise = fn().finally(() => inFlight.delete(flightKey));
+  inFlight.set(flightKey, promise);
+  return promise;
+}
+
+/**
+ * Radar loop cache, keyed by product ID -> { body, fetchedAt, ttl }
+ * A loop stays fresh until the radar's next scan is due, then is served stale
+ * for a while longer while a background refresh picks up the new frame.
+ */
+const radarCache = new Map();
+const radarRefreshes = new Set();
+const RADAR_SCAN_INTERVAL = 6 * 60; // seconds - most radars scan every 6 minutes
+const RADAR_MIN_TTL = 60; // seconds - re-check at most once a minute while a scan is overdue
+const RADAR_STALE_WINDOW = 10 * 60; // seconds
+const RADAR_FALLBACK_WINDOW = 2 * 60 * 60; // seconds - how old a loop can be to stand in while BoM is down
+
+/**
+ * API endpoint to fetch radar image URLs for a given product ID
+ * Example: GET /api/radar/IDR663
+ */
+app.get('/api/radar/:productId', async (req, res) => {
+  const { productId } = req.params;
+
+  const cached = radarCache.get(productId);
+  const age = cached ? Math.floor((Date.now() - cached.fetchedAt) / 1000) : 0;
+
+  if (cached && age < cached.ttl) {
+    return sendRadarLoop(res, cached, age, 'HIT');
+  }
+  if (cached && age < cached.ttl + RADAR_STALE_WINDOW) {
+    refreshRadarLoop(productId);
+    return sendRadarLoop(res, cached, age, 'STALE');
+  }
+
+  // Last good loop to serve, flagged as stale, if BoM is down
+  const fallback = cached && age < RADAR_FALLBACK_WINDOW ? cached : null;
+
+  try {
+    const result = await coalesce('radar', productId, () => fetchRadarLoop(productId));
+
+    if (result.status !== 200) {
+      if (fallback) {
+        return sendRadarLoop(res, fallback, age, 'STALE', true);
+      }
+      return res.status(result.status).json(result.body);
+    }
+
+    sendRadarLoop(res, cacheRadarLoop(productId, result.body), 0, 'MISS');
+
+  } catch (error) {
+    console.error('Error fetching radar images:', error);
+    if (fallback) {
+      return sendRadarLoop(res, fallback, age, 'STALE', true);
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Fetches and parses a BoM radar loop page
+ * Returns the status and JSON body to send back to the client
+ */
+async function fetchRadarLoop(productId) {
+  const loopUrl = `https://reg.bom.gov.au/products/${productId}.loop.shtml`;
+
+  // Fetch the HTML page
+  const response = await upstreamFetch(loopUrl);
+
+  if (!response.ok) {
+    return {
+      status: response.status,
+      body: { error: `Failed to fetch radar data: ${response.statusText}` }
+    };
+  }
+
+  const html = await response.text();
+
+  // Parse the theImageNames array from the JavaScript
+  const imageUrls = parseImageNames(html);
+
+  if (imageUrls.length === 0) {
+    return {
+      status: 404,
+      body: { error: 'No radar images found' }
+    };
+  }
+
+  // Convert to full URLs with timestamps
+  const images = imageUrls.map((path) => ({
+    url: `https://reg.bom.gov.au${path}`,
+    timestamp: extractTimestamp(path),
+  }));
+
+  return { status: 200, body: { images } };
+}
+
+/**
+ * Stores a radar loop in the cache until the radar's next scan is due
+ */
+function cacheRadarLoop(productId, body) {
+  const entry = {
+    body,
+    fetchedAt: Date.now(),
+    ttl: getRadarCacheTtl(body.images)
+  };
+  radarCache.set(productId, entry);
+  return entry;
+}
+
+/**
+ * Refreshes a stale radar loop in the background (once per product at a time)
+ */
+function refreshRadarLoop(productId) {
+  if (radarRefreshes.has(productId)) return;
+  radarRefreshes.add(productId);
+
+  coalesce('radar', productId, () => fetchRadarLoop(productId))
+    .then((result) => {
+      if (result.status === 200) {
+        cacheRadarLoop(productId, result.body);
+      }
+    })
+    .catch((error) => console.warn(`Failed to refresh radar loop ${productId}:`, error.message))
+    .finally(() => radarRefreshes.delete(productId));
+}
+
+/**
+ * Sends a cached radar loop with its fetch time
+ * `stale` marks a loop served in place of a failed BoM fetch
+ */
+function sendRadarLoop(res, entry, age, cacheStatus, stale = false) {
+  res.set({
+    'Cache-Control': `public, max-age=${Math.max(entry.ttl - age, 0)}, stale-while-revalidate=${RADAR_STALE_WINDOW}`,
+    'Age': String(age),
+    'X-Cache': cacheStatus
+  });
+  res.json({
+    ...entry.body,
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    stale
+  });
+}
+
+/**
+ * Works out how long (in seconds) a radar loop stays fresh: until the next
+ * scan is due, based on the spacing of the two newest frames
+ */
+export function getRadarCacheTtl(images, now = Date.now()) {
+  const times = images
+    .map((image) => parseTimestamp(image.timestamp))
+    .filter((time) => time !== null);
+
+  if (times.length === 0) {
+    return RADAR_MIN_TTL;
+  }
+
+  const latest = times[times.length - 1];
+  const interval = times.length > 1
+    ? latest - times[times.length - 2]
+    : RADAR_SCAN_INTERVAL * 1000;
+  const untilNextScan = Math.round((latest + interval - now) / 1000);
+
+  return Math.min(Math.max(untilNextScan, RADAR_MIN_TTL), RADAR_SCAN_INTERVAL);
+}
+
+/**
+ * Parses a BoM timestamp (YYYYMMDDHHmm, UTC) into milliseconds
+ */
+function parseTimestamp(timestamp) {
+  const match = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute);
+}
+
+/**
+ * Parses the theImageNames JavaScript array from the HTML
+ */
+export function parseImageNames(html) {
+  const imageNames = [];
+
+  // Match patterns like: theImageNames[0] = "/radar/IDR663.T.202510290319.png";
+  const regex = /theImageNames\[\d+\]\s*=\s*["']([^"']+)["']/g;
+
+  let match;
+  while ((match = regex.exec(html)) !== null) {
+    imageNames.push(match[1]);
+  }
+
+  return imageNames;
+}
+
+/**
+ * Extracts timestamp from radar image path
+ * Example: /radar/IDR663.T.202510290319.png -> 202510290319
+ */
+export function extractTimestamp(path) {
+  const match = path.match(/\.T\.(\d+)\.png/);
+  return match ? match[1] : '';
+}
+
+const TRANSPARENCY_LAYERS = ['background', 'topography', 'catchments', 'range', 'locations'];
+
+// Radar frames never change once published, map layers only rarely
+const RADAR_IMAGE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const TRANSPARENCY_CACHE_CONTROL = 'public, max-age=604800';
+
+/**
+ * API endpoint to proxy a single radar frame
+ * Example: GET /api/radar-image/IDR663.T.202510290319.png
+ */
+app.get('/api/radar-image/:file', async (req, res) => {
+  const { file } = req.params;
+  const match = file.match(/^(\w+)\.T\.\d{12}\.png$/);
+
+  if (!match || !RADAR_PRODUCT_IDS.has(match[1])) {
+    return res.status(400).json({
+      error: 'Invalid radar image'
+    });
+  }
+
+  await proxyImage(res, `https://reg.bom.gov.au/radar/${file}`, RADAR_IMAGE_CACHE_CONTROL);
+});
+
+/**
+ * API endpoint to proxy a radar map layer (background, range rings...)
+ * Example: GET /api/transparency/IDR663/background
+ */
+app.get('/api/transparency/:productId/:layer', async (req, res) => {
+  const { productId, layer } = req.params;
+
+  if (!RADAR_PRODUCT_IDS.has(productId) || !TRANSPARENCY_LAYERS.includes(layer)) {
+    return res.status(400).json({
+      error: 'Invalid radar product or layer'
+    });
+  }
+
+  await proxyImage(
+    res,
+    `https://reg.bom.gov.au/products/radar_transparencies/${productId}.${layer}.png`,
+    TRANSPARENCY_CACHE_CONTROL
+  );
+});
+
+/**
+ * Streams a BoM image back to the client
+ */
+async function proxyImage(res, url, cacheControl) {
+  try {
+    const response = await upstreamFetch(url);
+
+    if (!response.ok) {
+      return res.status(response.status).json({
+        error: `Failed to fetch radar image: ${response.statusText}`
+      });
+    }
+
+    res.set({
+      'Content-Type': 'image/png',
+      'Cache-Control': cacheControl
+    });
+    await pipeline(Readable.fromWeb(response.body), res);
+
+  } catch (error) {
+    console.error('Error fetching radar image:', error);
+    // Once streaming has started the connection is simply dropped
+    if (!res.headersSent) {
+      res.status(error.circuitOpen ? 503 : 500).json({
+        error: 'Internal server error',
+        message: error.message
+      });
+    }
+  }
+}
+
+/**
+ * Simple in-memory cache for weather data
+ * Key format: "lat,lng" -> { data, timestamp }
+ */
+const weatherCache = new Map();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const STALE_DURATION = 24 * 60 * 60 * 1000; // Serve the last good data for up to a day if BoM is down
+
+/**
+ * API endpoint to fetch weather data for given coordinates
+ * Example: GET /api/weather?lat=-33.8688&lng=151.2093
+ */
+app.get('/api/weather', async (req, res) => {
+  const { lat, lng } = req.query;
+
+  // Validate coordinates
+  if (!lat || !lng) {
+    return res.status(400).json({
+      error: 'Missing required parameters: lat and lng'
+    });
+  }
+
+  const latitude = parseFloat(lat);
+  const longitude = parseFloat(lng);
+
+  if (isNaN(latitude) || isNaN(longitude)) {
+    return res.status(400).json({
+      error: 'Invalid coordinates: lat and lng must be numbers'
+    });
+  }
+
+  // Check cache
+  const cacheKey = `${latitude},${longitude}`;
+  const cached = weatherCache.get(cacheKey);
+  if (cached && (Date.now() - cached.timestamp < CACHE_DURATION)) {
+    return res.json(cached.data);
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    // Step 1: Convert lat/lng to geohash
+    const locationData = await coalesce('location', `${latitude},${longitude}`, () =>
+      fetchLocationGeohash(latitude, longitude)
+    );
+
+    if (!locationData || !locationData.geohash) {
+      return res.status(404).json({
+        error: 'Could not find location data for these coordinates'
+      });
+    }
+
+    // Step 2: Fetch observations and forecast in parallel
+    const [observations, forecast] = await Promise.all([
+      coalesce('observations', locationData.geohash, () => fetchObservations(locationData.geohash)),
+      coalesce('forecast', locationData.geohash, () => fetchDailyForecast(locationData.geohash))
+    ]);
+
+    // Keep a rolling history of the station's readings for trend charts
+    if (observations) {
+      recordObservation(observations, OBSERVATION_HISTORY_FILE);
+    }
+
+    // Both failing means BoM is having trouble - older data beats none
+    if (!observations && !forecast && fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+
+    const weatherData = {
+      location: {
+        name: locationData.name,
+        state: locationData.state,
+        geohash: locationData.geohash,
+        lat: latitude,
+        lng: longitude
+      },
+      observations: observations || null,
+      forecast: forecast || null,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    // Cache the result
+    weatherCache.set(cacheKey, {
+      data: weatherData,
+      timestamp: Date.now()
+    });
+
+    res.json(weatherData);
+
+  } catch (error) {
+    console.error('Error fetching weather data:', error);
+    if (fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Failed to fetch weather data',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Cache for hourly forecasts
+ * Key format: "geohash" -> { data, timestamp }
+ */
+const hourlyCache = new Map();
+const HOURLY_CACHE_DURATION = 15 * 60 * 1000; // 15 minutes - BoM updates these a few times a day
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{6,7}$/;
+
+/**
+ * API endpoint to fetch the hourly forecast for a location
+ * Example: GET /api/weather/hourly?geohash=r3gx2f
+ */
+app.get('/api/weather/hourly', async (req, res) => {
+  const { geohash } = req.query;
+
+  if (!geohash || !GEOHASH_PATTERN.test(geohash)) {
+    return res.status(400).json({
+      error: 'Missing or invalid parameter: geohash'
+    });
+  }
+
+  const cached = hourlyCache.get(geohash);
+  if (cached && (Date.now() - cached.timestamp < HOURLY_CACHE_DURATION)) {
+    return res.json(cached.data);
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const hourly = await coalesce('hourly', geohash, () => fetchHourlyForecast(geohash));
+
+    const hourlyData = {
+      geohash,
+      hourly,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    hourlyCache.set(geohash, {
+      data: hourlyData,
+      timestamp: Date.now()
+    });
+
+    res.json(hourlyData);
+
+  } catch (error) {
+    console.error('Error fetching hourly forecast:', error);
+    if (fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Failed to fetch hourly forecast',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Cache for warnings, by location and by warning ID
+ * Key format: "geohash" or "id" -> { data, timestamp }
+ */
+const warningsCache = new Map();
+const warningDetailCache = new Map();
+const WARNINGS_CACHE_DURATION = 2 * 60 * 1000; // 2 minutes - warnings can be issued or cancelled at any time
+const WARNING_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * API endpoint to fetch active warnings for a location
+ * Example: GET /api/warnings?geohash=r3gx2f
+ */
+app.get('/api/warnings', async (req, res) => {
+  const { geohash } = req.query;
+
+  if (!geohash || !GEOHASH_PATTERN.test(geohash)) {
+    return res.status(400).json({
+      error: 'Missing or invalid parameter: geohash'
+    });
+  }
+
+  const cached = warningsCache.get(geohash);
+  if (cached && (Date.now() - cached.timestamp < WARNINGS_CACHE_DURATION)) {
+    return res.json(cached.data);
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const warnings = await coalesce('warnings', geohash, () => fetchWarnings(geohash));
+
+    const warningsData = {
+      geohash,
+      warnings,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    warningsCache.set(geohash, {
+      data: warningsData,
+      timestamp: Date.now()
+    });
+
+    res.json(warningsData);
+
+  } catch (error) {
+    console.error('Error fetching warnings:', error);
+    if (fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Failed to fetch warnings',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * API endpoint to fetch the full text of a warning
+ * Example: GET /api/warnings/NSW_FL049_IDN36503
+ */
+app.get('/api/warnings/:id', async (req, res) => {
+  const { id } = req.params;
+
+  if (!WARNING_ID_PATTERN.test(id)) {
+    return res.status(400).json({
+      error: 'Invalid warning ID'
+    });
+  }
+
+  const cached = warningDetailCache.get(id);
+  if (cached && (Date.now() - cached.timestamp < WARNINGS_CACHE_DURATION)) {
+    return res.json(cached.data);
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const warning = await coalesce('warning', id, () => fetchWarningDetail(id));
+
+    if (!warning) {
+      return res.status(404).json({
+        error: 'Warning not found'
+      });
+    }
+
+    const warningData = {
+      warning,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    warningDetailCache.set(id, {
+      data: warningData,
+      timestamp: Date.now()
+    });
+
+    res.json(warningData);
+
+  } catch (error) {
+    console.error('Error fetching warning:', error);
+    if (fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Failed to fetch warning',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * API endpoint to fetch the last 24 hours of observations for a weather station
+ * Only has readings from while the API has been asked about the station
+ * Example: GET /api/observations/history?station=040913
+ */
+app.get('/api/observations/history', (req, res) => {
+  const { station } = req.query;
+
+  if (!station || !STATION_ID_PATTERN.test(station)) {
+    return res.status(400).json({
+      error: 'Missing or invalid parameter: station'
+    });
+  }
+
+  res.json({
+    station,
+    samples: getObservationHistory(station)
+  });
+});
+
+/**
+ * Cache for location searches
+ * Key format: "query" (lower case) -> { data, timestamp }
+ */
+const locationSearchCache = new Map();
+const LOCATION_SEARCH_CACHE_DURATION = 12 * 60 * 60 * 1000; // 12 hours - place names rarely change
+const LOCATION_QUERY_PATTERN = /^[A-Za-z0-9 '.-]{3,50}$/;
+
+/**
+ * API endpoint to search for a suburb, town or postcode
+ * Example: GET /api/locations/search?q=byron
+ */
+app.get('/api/locations/search', async (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+  if (!LOCATION_QUERY_PATTERN.test(query)) {
+    return res.status(400).json({
+      error: 'Missing or invalid parameter: q (3-50 letters, numbers or spaces)'
+    });
+  }
+
+  const cacheKey = query.toLowerCase();
+  const cached = locationSearchCache.get(cacheKey);
+  if (cached && (Date.now() - cached.timestamp < LOCATION_SEARCH_CACHE_DURATION)) {
+    return res.json(cached.data);
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const locations = await coalesce('search', cacheKey, () => fetchLocationSearch(query));
+
+    const searchData = {
+      query,
+      locations,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    locationSearchCache.set(cacheKey, {
+      data: searchData,
+      timestamp: Date.now()
+    });
+
+    res.json(searchData);
+
+  } catch (error) {
+    console.error('Error searching locations:', error);
+    if (fallback) {
+      return res.json({ ...fallback.data, stale: true });
+    }
+    res.status(error.circuitOpen ? 503 : 500).json({
+      error: 'Failed to search locations',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Fetches location geohash from BoM API
+ */
+async function fetchLocationGeohash(lat, lng) {
+  const url = `https://api.weather.bom.gov.au/v1/locations?search=${lat},${lng}`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM location API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+
+  // API returns an array, take the first (closest) result
+  if (data && data.data && data.data.length > 0) {
+    const location = data.data[0];
+    return {
+      geohash: location.geohash,
+      name: location.name,
+      state: location.state
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Searches BoM's locations by name or postcode
+ * BoM only returns geohashes, so coordinates come from decoding them
+ */
+async function fetchLocationSearch(query) {
+  const url = `https://api.weather.bom.gov.au/v1/locations?search=${encodeURIComponent(query)}`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM location API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return (result.data || []).flatMap((location) => {
+    const coordinates = location.geohash ? decodeGeohash(location.geohash) : null;
+    if (!coordinates) return [];
+
+    return [{
+      name: location.name,
+      state: location.state,
+      postcode: location.postcode ?? null,
+      geohash: location.geohash,
+      ...coordinates
+    }];
+  });
+}
+
+/**
+ * Fetches current observations from BoM API
+ */
+async function fetchObservations(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/observations`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    console.warn(`BoM observations API error: ${response.statusText}`);
+    return null;
+  }
+
+  const result = await response.json();
+  return result.data || null;
+}
+
+/**
+ * Fetches daily forecast from BoM API
+ */
+async function fetchDailyForecast(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/forecasts/daily`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    console.warn(`BoM forecast API error: ${response.statusText}`);
+    return null;
+  }
+
+  const result = await response.json();
+
+  // Return today's forecast (first item) plus the full array
+  if (result.data && result.data.length > 0) {
+    return {
+      today: result.data[0],
+      daily: result.data
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Fetches the hourly forecast from BoM API
+ * Returns an array of hourly entries (about 3 days ahead)
+ */
+async function fetchHourlyForecast(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/forecasts/hourly`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM hourly forecast API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Fetches warnings for a location from BoM API
+ * Returns an array of warning summaries (no message text)
+ */
+async function fetchWarnings(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/warnings`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM warnings API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Fetches a single warning, including its message, from BoM API
+ * Returns null if BoM doesn't know the warning (expired or cancelled)
+ */
+async function fetchWarningDetail(id) {
+  const url = `https://api.weather.bom.gov.au/v1/warnings/${encodeURIComponent(id)}`;
+
+  const response = await upstreamFetch(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`BoM warning API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || null;
+}
+
+/**
+ * Health check endpoint
+ */
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    message: 'No-Consultant Weather API is running',
+    upstream: getCircuitStates()
+  });
+});
+
+/**
+ * Metrics endpoint - upstream calls saved by request coalescing
+ */
+app.get('/metrics', (req, res) => {
+  res.json({ coalescing: coalescingStats });
+});
+
+/**
+ * Root endpoint
+ */
+app.get('/', (req, res) => {
+  res.json({
+    message: 'No-Consultant Weather API',
+    endpoints: {
+      '/api/radar/:productId': 'Get radar images for a product ID (e.g., IDR663)',
+      '/api/radar-image/:file': 'Get a radar frame image (e.g., /api/radar-image/IDR663.T.202510290319.png)',
+      '/api/transparency/:productId/:layer': 'Get a radar map layer (e.g., /api/transparency/IDR663/background)',
+      '/api/weather?lat={lat}&lng={lng}': 'Get weather data for coordinates (e.g., /api/weather?lat=-33.8688&lng=151.2093)',
+      '/api/weather/hourly?geohash={geohash}': 'Get the hourly forecast for a location (e.g., /api/weather/hourly?geohash=r3gx2f)',
+      '/api/warnings?geohash={geohash}': 'Get active warnings for a location (e.g., /api/warnings?geohash=r3gx2f)',
+      '/api/warnings/:id': 'Get the full text of a warning (e.g., /api/warnings/NSW_FL049_IDN36503)',
+      '/api/observations/history?station={bom_id}': 'Get the last 24 hours of observations for a weather station (e.g., /api/observations/history?station=040913)',
+      '/api/locations/search?q={query}': 'Search for a suburb, town or postcode (e.g., /api/locations/search?q=byron)',
+      '/health': 'Health check and BoM circuit breaker state',
+      '/metrics': 'Upstream request metrics'
+    }
+  });
+});
+
+/**
+ * Clears every cache, in-flight request and metric (for tests)
+ */
+export function resetCaches() {
+  for (const cache of [radarCache, weatherCache, hourlyCache, warningsCache, warningDetailCache, locationSearchCache]) {
+    cache.clear();
+  }
+  inFlight.clear();
+  radarRefreshes.clear();
+  for (const type of Object.keys(coalescingStats)) {
+    delete coalescingStats[type];
+  }
+}
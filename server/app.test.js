@@ -0,0 +1,1024 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import { resetCircuits, CIRCUIT_THRESHOLD } from './upstream.js';
+import { resetObservationHistory } from './observationHistory.js';
+import { app, coalesce, resetCaches, parseImageNames, extractTimestamp, getRadarCacheTtl } from './app.js';
+
+// Create a mock fetch function
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('Backend API Tests', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    resetCaches();
+    resetCircuits();
+    resetObservationHistory();
+    // No backoff between upstream retries
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('GET /health', () => {
+    it('should return health status', async () => {
+      const response = await request(app).get('/health');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'ok',
+        message: 'No-Consultant Weather API is running',
+        upstream: {}
+      });
+    });
+  });
+
+  describe('GET /', () => {
+    it('should return API information', async () => {
+      const response = await request(app).get('/');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('message');
+      expect(response.body).toHaveProperty('endpoints');
+      expect(response.body.endpoints).toHaveProperty('/api/radar/:productId');
+    });
+  });
+
+  describe('GET /api/radar/:productId', () => {
+    it('should return radar images for valid product ID', async () => {
+      const mockHtml = `
+        <script>
+          theImageNames[0] = "/radar/IDR663.T.202512040100.png";
+          theImageNames[1] = "/radar/IDR663.T.202512040106.png";
+          theImageNames[2] = "/radar/IDR663.T.202512040112.png";
+        </script>
+      `;
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => mockHtml,
+        status: 200,
+        statusText: 'OK'
+      });
+
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('images');
+      expect(response.body.images).toHaveLength(3);
+      expect(response.body.images[0]).toEqual({
+        url: 'https://reg.bom.gov.au/radar/IDR663.T.202512040100.png',
+        timestamp: '202512040100'
+      });
+    });
+
+    it('should return 404 when no images found', async () => {
+      const mockHtml = '<html><body>No radar images</body></html>';
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => mockHtml,
+        status: 200,
+        statusText: 'OK'
+      });
+
+      const response = await request(app).get('/api/radar/INVALID');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toHaveProperty('error');
+      expect(response.body.error).toBe('No radar images found');
+    });
+
+    it('should handle BoM API errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Internal Server Error'
+      });
+
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should handle network errors', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.message).toBe('Network error');
+    });
+  });
+
+  describe('GET /api/radar/:productId caching', () => {
+    const loopHtml = `
+      theImageNames[0] = "/radar/IDR663.T.202512040100.png";
+      theImageNames[1] = "/radar/IDR663.T.202512040106.png";
+    `;
+    const loopResponse = () => ({
+      ok: true,
+      text: async () => loopHtml,
+      status: 200,
+      statusText: 'OK'
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve repeat requests from the cache until the next scan is due', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 8)); // Next scan due at 01:12
+      mockFetch.mockResolvedValueOnce(loopResponse());
+
+      const first = await request(app).get('/api/radar/IDR663');
+      expect(first.headers['x-cache']).toBe('MISS');
+      expect(first.headers['cache-control']).toBe('public, max-age=240, stale-while-revalidate=600');
+      expect(first.headers['age']).toBe('0');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 10));
+      const second = await request(app).get('/api/radar/IDR663');
+
+      expect(second.headers['x-cache']).toBe('HIT');
+      expect(second.headers['age']).toBe('120');
+      expect(second.headers['cache-control']).toBe('public, max-age=120, stale-while-revalidate=600');
+      expect(second.body).toEqual(first.body);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve stale loops while refreshing in the background', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 8));
+      mockFetch.mockResolvedValueOnce(loopResponse());
+      await request(app).get('/api/radar/IDR663');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 14));
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: async () => loopHtml + 'theImageNames[2] = "/radar/IDR663.T.202512040112.png";',
+        status: 200,
+        statusText: 'OK'
+      });
+
+      const stale = await request(app).get('/api/radar/IDR663');
+      expect(stale.headers['x-cache']).toBe('STALE');
+      expect(stale.body.images).toHaveLength(2);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await vi.waitFor(async () => {
+        const refreshed = await request(app).get('/api/radar/IDR663');
+        expect(refreshed.headers['x-cache']).toBe('HIT');
+        expect(refreshed.body.images).toHaveLength(3);
+      });
+    });
+
+    it('should refetch once the stale window has passed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 8));
+      mockFetch.mockResolvedValueOnce(loopResponse());
+      await request(app).get('/api/radar/IDR663');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 30));
+      mockFetch.mockResolvedValueOnce(loopResponse());
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.headers['x-cache']).toBe('MISS');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve the last good loop flagged as stale when BoM is down', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 8));
+      mockFetch.mockResolvedValueOnce(loopResponse());
+      await request(app).get('/api/radar/IDR663');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 40));
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['x-cache']).toBe('STALE');
+      expect(response.body.stale).toBe(true);
+      expect(response.body.fetchedAt).toBe('2025-12-04T01:08:00.000Z');
+      expect(response.body.images).toHaveLength(2);
+    });
+
+    it('should give up on the fallback once it is too old', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 8));
+      mockFetch.mockResolvedValueOnce(loopResponse());
+      await request(app).get('/api/radar/IDR663');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 4, 0));
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      const response = await request(app).get('/api/radar/IDR663');
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should not cache BoM errors', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      await request(app).get('/api/radar/IDR663');
+      await request(app).get('/api/radar/IDR663');
+
+      // Three attempts (with retries) per request - the second wasn't served from the cache
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share one BoM fetch between concurrent requests for the same loop', async () => {
+      let resolveFetch;
+      mockFetch.mockReturnValueOnce(new Promise((resolve) => {
+        resolveFetch = resolve;
+      }));
+
+      const requests = [1, 2, 3].map(() => request(app).get('/api/radar/IDR663').then((res) => res));
+      await vi.waitFor(async () => expect((await request(app).get('/metrics')).body.coalescing.radar?.requests).toBe(3));
+
+      resolveFetch({
+        ok: true,
+        text: async () => 'theImageNames[0] = "/radar/IDR663.T.202512040100.png";',
+        status: 200,
+        statusText: 'OK'
+      });
+      const responses = await Promise.all(requests);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      responses.forEach((response) => {
+        expect(response.status).toBe(200);
+        expect(response.body.images).toHaveLength(1);
+      });
+    });
+
+    it('should report the saved calls on /metrics', async () => {
+      let resolveFetch;
+      mockFetch.mockReturnValueOnce(new Promise((resolve) => {
+        resolveFetch = resolve;
+      }));
+
+      const requests = [1, 2].map(() => request(app).get('/api/radar/IDR713').then((res) => res));
+      await vi.waitFor(async () => expect((await request(app).get('/metrics')).body.coalescing.radar?.requests).toBe(2));
+      resolveFetch({ ok: false, status: 404, statusText: 'Not Found' });
+      await Promise.all(requests);
+
+      const response = await request(app).get('/metrics');
+      expect(response.body.coalescing).toEqual({
+        radar: { requests: 2, upstream: 1, saved: 1 }
+      });
+    });
+
+    it('should not share results between different keys or later calls', async () => {
+      const fn = vi.fn(async () => 'result');
+
+      await Promise.all([coalesce('test', 'a', fn), coalesce('test', 'b', fn)]);
+      await coalesce('test', 'a', fn);
+
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect((await request(app).get('/metrics')).body.coalescing.test).toEqual({ requests: 3, upstream: 3, saved: 0 });
+    });
+
+    it('should share rejections with every waiting caller', async () => {
+      const fn = vi.fn(async () => {
+        throw new Error('BoM down');
+      });
+
+      const results = await Promise.allSettled([coalesce('test', 'a', fn), coalesce('test', 'a', fn)]);
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+
+  describe('GET /api/weather/hourly', () => {
+    const hourly = [
+      {
+        time: '2025-12-04T01:00:00Z',
+        temp: 24,
+        rain: { chance: 40, amount: { min: 0, max: 2, units: 'mm' } },
+        wind: { speed_kilometre: 17, speed_knot: 9, direction: 'SE' },
+        relative_humidity: 65,
+        icon_descriptor: 'shower'
+      }
+    ];
+
+    it('should return 400 for a missing or invalid geohash', async () => {
+      expect((await request(app).get('/api/weather/hourly')).status).toBe(400);
+      expect((await request(app).get('/api/weather/hourly?geohash=abc')).status).toBe(400);
+      expect((await request(app).get('/api/weather/hourly?geohash=r3gx2a')).status).toBe(400); // 'a' isn't base32
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return the hourly forecast for the geohash', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: hourly }) });
+
+      const response = await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.weather.bom.gov.au/v1/locations/r3gx2f/forecasts/hourly', expect.anything());
+      expect(response.status).toBe(200);
+      expect(response.body.geohash).toBe('r3gx2f');
+      expect(response.body.hourly).toEqual(hourly);
+      expect(response.body.stale).toBe(false);
+    });
+
+    it('should cache the forecast', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: hourly }) });
+
+      await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+      const response = await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+
+      expect(response.body.hourly).toEqual(hourly);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve the last good forecast flagged as stale when BoM is down', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 0));
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: hourly }) });
+      await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 2, 0));
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+
+      vi.useRealTimers();
+      expect(response.status).toBe(200);
+      expect(response.body.stale).toBe(true);
+      expect(response.body.hourly).toEqual(hourly);
+    });
+
+    it('should return 500 when BoM fails with nothing cached', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const response = await request(app).get('/api/weather/hourly?geohash=r3gx2f');
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('BoM hourly forecast API error: Service Unavailable');
+    });
+  });
+
+  describe('GET /api/warnings', () => {
+    const warnings = [
+      {
+        id: 'QLD_RC022_IDQ20885',
+        type: 'severe_thunderstorm_warning',
+        title: 'Severe Thunderstorm Warning for South East Queensland',
+        short_title: 'Severe Thunderstorm Warning',
+        state: 'QLD',
+        warning_group_type: 'major',
+        issue_time: '2025-12-04T04:10:00Z',
+        expiry_time: '2025-12-04T08:10:00Z',
+        phase: 'new'
+      }
+    ];
+
+    it('should return 400 for a missing or invalid geohash', async () => {
+      expect((await request(app).get('/api/warnings')).status).toBe(400);
+      expect((await request(app).get('/api/warnings?geohash=r3gx2a')).status).toBe(400);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return the warnings for the geohash', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: warnings }) });
+
+      const response = await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.weather.bom.gov.au/v1/locations/r7hgdp/warnings', expect.anything());
+      expect(response.status).toBe(200);
+      expect(response.body.geohash).toBe('r7hgdp');
+      expect(response.body.warnings).toEqual(warnings);
+      expect(response.body.stale).toBe(false);
+    });
+
+    it('should return an empty list when there are no warnings', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [] }) });
+
+      const response = await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      expect(response.status).toBe(200);
+      expect(response.body.warnings).toEqual([]);
+    });
+
+    it('should cache the warnings', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: warnings }) });
+
+      await request(app).get('/api/warnings?geohash=r7hgdp');
+      const response = await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      expect(response.body.warnings).toEqual(warnings);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve the last good warnings flagged as stale when BoM is down', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 4, 0));
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: warnings }) });
+      await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 4, 5));
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      vi.useRealTimers();
+      expect(response.status).toBe(200);
+      expect(response.body.stale).toBe(true);
+      expect(response.body.warnings).toEqual(warnings);
+    });
+
+    it('should return 500 when BoM fails with nothing cached', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const response = await request(app).get('/api/warnings?geohash=r7hgdp');
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('BoM warnings API error: Service Unavailable');
+    });
+  });
+
+  describe('GET /api/warnings/:id', () => {
+    const warning = {
+      id: 'QLD_RC022_IDQ20885',
+      type: 'severe_thunderstorm_warning',
+      title: 'Severe Thunderstorm Warning for South East Queensland',
+      message: '<p>Severe thunderstorms are likely to produce damaging winds.</p>'
+    };
+
+    it('should return 400 for an invalid warning ID', async () => {
+      const response = await request(app).get('/api/warnings/bad%20id');
+
+      expect(response.status).toBe(400);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return the warning with its message', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: warning }) });
+
+      const response = await request(app).get('/api/warnings/QLD_RC022_IDQ20885');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.weather.bom.gov.au/v1/warnings/QLD_RC022_IDQ20885', expect.anything());
+      expect(response.status).toBe(200);
+      expect(response.body.warning).toEqual(warning);
+      expect(response.body.stale).toBe(false);
+    });
+
+    it('should return 404 when BoM no longer has the warning', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      const response = await request(app).get('/api/warnings/QLD_RC022_IDQ20885');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Warning not found');
+    });
+
+    it('should return 500 when BoM fails with nothing cached', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const response = await request(app).get('/api/warnings/QLD_RC022_IDQ20885');
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('BoM warning API error: Service Unavailable');
+    });
+  });
+
+  describe('GET /api/observations/history', () => {
+    const mockWeatherFetches = (observations) => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [{ geohash: 'r7hgdp', name: 'Brisbane', state: 'QLD' }] }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: observations }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [] }) });
+    };
+
+    const observations = {
+      temp: 26.4,
+      humidity: 61,
+      wind: { speed_kilometre: 19, speed_knot: 10, direction: 'E' },
+      rain_since_9am: 0.2,
+      station: { bom_id: '040913', name: 'Brisbane', distance: 2150 }
+    };
+
+    it('should return 400 for a missing or invalid station', async () => {
+      expect((await request(app).get('/api/observations/history')).status).toBe(400);
+      expect((await request(app).get('/api/observations/history?station=abc')).status).toBe(400);
+    });
+
+    it('should return no samples for a station it has not seen', async () => {
+      const response = await request(app).get('/api/observations/history?station=040913');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ station: '040913', samples: [] });
+    });
+
+    it('should record observations fetched for weather requests', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 0));
+      mockWeatherFetches(observations);
+      await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 30));
+      mockWeatherFetches({ ...observations, temp: 27.1 });
+      await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      const response = await request(app).get('/api/observations/history?station=040913');
+
+      vi.useRealTimers();
+      expect(response.body.samples).toEqual([
+        {
+          time: '2025-12-04T01:00:00.000Z',
+          temp: 26.4,
+          humidity: 61,
+          wind: { speed_kilometre: 19, speed_knot: 10, direction: 'E' },
+          rain_since_9am: 0.2
+        },
+        {
+          time: '2025-12-04T01:30:00.000Z',
+          temp: 27.1,
+          humidity: 61,
+          wind: { speed_kilometre: 19, speed_knot: 10, direction: 'E' },
+          rain_since_9am: 0.2
+        }
+      ]);
+    });
+  });
+
+  describe('GET /api/locations/search', () => {
+    const results = [
+      { geohash: 'r7hgdp9', id: 'Brisbane-r7hgdp9', name: 'Brisbane', postcode: '4000', state: 'QLD' },
+      { geohash: 'r7hg9u2', id: 'Brisbane Airport-r7hg9u2', name: 'Brisbane Airport', postcode: '4008', state: 'QLD' }
+    ];
+
+    it('should return 400 for a missing, short or invalid query', async () => {
+      expect((await request(app).get('/api/locations/search')).status).toBe(400);
+      expect((await request(app).get('/api/locations/search?q=br')).status).toBe(400);
+      expect((await request(app).get('/api/locations/search?q=%3Cscript%3E')).status).toBe(400);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return matching locations with coordinates from their geohash', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: results }) });
+
+      const response = await request(app).get('/api/locations/search?q=brisbane');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.weather.bom.gov.au/v1/locations?search=brisbane', expect.anything());
+      expect(response.status).toBe(200);
+      expect(response.body.query).toBe('brisbane');
+      expect(response.body.locations[0]).toEqual({
+        name: 'Brisbane',
+        state: 'QLD',
+        postcode: '4000',
+        geohash: 'r7hgdp9',
+        lat: -27.4679,
+        lng: 153.0196
+      });
+      expect(response.body.locations).toHaveLength(2);
+      expect(response.body.stale).toBe(false);
+    });
+
+    it('should encode the query for BoM', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [] }) });
+
+      await request(app).get('/api/locations/search?q=%20byron%20bay%20');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://api.weather.bom.gov.au/v1/locations?search=byron%20bay', expect.anything());
+    });
+
+    it('should skip results without a usable geohash', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({ data: [{ name: 'Nowhere', state: 'QLD' }, { name: 'Bad', state: 'QLD', geohash: 'aaaaaa' }] })
+      });
+
+      const response = await request(app).get('/api/locations/search?q=nowhere');
+
+      expect(response.body.locations).toEqual([]);
+    });
+
+    it('should cache searches regardless of case', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: results }) });
+
+      await request(app).get('/api/locations/search?q=brisbane');
+      const response = await request(app).get('/api/locations/search?q=Brisbane');
+
+      expect(response.body.locations).toHaveLength(2);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve the last good results flagged as stale when BoM is down', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 4, 0));
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: results }) });
+      await request(app).get('/api/locations/search?q=brisbane');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 17, 0));
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/locations/search?q=brisbane');
+
+      vi.useRealTimers();
+      expect(response.status).toBe(200);
+      expect(response.body.stale).toBe(true);
+      expect(response.body.locations).toHaveLength(2);
+    });
+
+    it('should return 500 when BoM fails with nothing cached', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      const response = await request(app).get('/api/locations/search?q=brisbane');
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('BoM location API error: Service Unavailable');
+    });
+  });
+
+  describe('GET /api/radar-image/:file', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    it('should stream the radar frame with cache and CORS headers', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(png, { status: 200 }));
+
+      const response = await request(app).get('/api/radar-image/IDR663.T.202512040100.png');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://reg.bom.gov.au/radar/IDR663.T.202512040100.png', expect.anything());
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+      expect(new Uint8Array(response.body)).toEqual(png);
+    });
+
+    it('should accept doppler and national composite frames', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(png, { status: 200 }))
+        .mockResolvedValueOnce(new Response(png, { status: 200 }));
+
+      expect((await request(app).get('/api/radar-image/IDR66I.T.202512040100.png')).status).toBe(200);
+      expect((await request(app).get('/api/radar-image/IDR00004.T.202512040100.png')).status).toBe(200);
+    });
+
+    it('should reject unknown products and malformed names without calling BoM', async () => {
+      const invalid = [
+        '/api/radar-image/IDR665.T.202512040100.png',
+        '/api/radar-image/IDR013.T.202512040100.png', // No radar 01
+        '/api/radar-image/IDR03I.T.202512040100.png', // Sydney has no doppler product
+        '/api/radar-image/IDR663.T.2025.png',
+        '/api/radar-image/IDR663.background.png',
+        '/api/radar-image/..%2Fproducts%2FIDR663.loop.shtml',
+      ];
+
+      for (const path of invalid) {
+        const response = await request(app).get(path);
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid radar image');
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass through BoM errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found'
+      });
+
+      const response = await request(app).get('/api/radar-image/IDR663.T.202512040100.png');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Failed to fetch radar image: Not Found');
+    });
+
+    it('should handle network errors', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const response = await request(app).get('/api/radar-image/IDR663.T.202512040100.png');
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Network error');
+    });
+  });
+
+  describe('GET /api/transparency/:productId/:layer', () => {
+    it('should stream the map layer', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(new Uint8Array([1, 2, 3]), { status: 200 }));
+
+      const response = await request(app).get('/api/transparency/IDR663/background');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://reg.bom.gov.au/products/radar_transparencies/IDR663.background.png',
+        expect.anything()
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['cache-control']).toBe('public, max-age=604800');
+    });
+
+    it('should reject unknown layers and products', async () => {
+      expect((await request(app).get('/api/transparency/IDR663/legend')).status).toBe(400);
+      expect((await request(app).get('/api/transparency/ABC/background')).status).toBe(400);
+      expect((await request(app).get('/api/transparency/IDR993/background')).status).toBe(400);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('when the BoM circuit is open', () => {
+    beforeEach(async () => {
+      // Enough failed searches to open the api.weather.bom.gov.au circuit
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      for (let i = 0; i < CIRCUIT_THRESHOLD; i++) {
+        await request(app).get(`/api/locations/search?q=town${i}`);
+      }
+      mockFetch.mockClear();
+    });
+
+    it.each([
+      ['/api/weather?lat=-27.4698&lng=153.0251', 'Failed to fetch weather data'],
+      ['/api/weather/hourly?geohash=r7hgdp', 'Failed to fetch hourly forecast'],
+      ['/api/warnings?geohash=r7hgdp', 'Failed to fetch warnings'],
+      ['/api/warnings/QLD_RC022_IDQ20885', 'Failed to fetch warning'],
+      ['/api/locations/search?q=brisbane', 'Failed to search locations']
+    ])('should return 503 for %s without calling BoM', async (path, error) => {
+      const response = await request(app).get(path);
+
+      expect(response.status).toBe(503);
+      expect(response.body.error).toBe(error);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should report the open circuit on /health', async () => {
+      const response = await request(app).get('/health');
+
+      expect(response.body.upstream['api.weather.bom.gov.au'].state).toBe('open');
+    });
+  });
+
+  describe('GET /api/weather', () => {
+    it('should return 400 for missing parameters', async () => {
+      const response = await request(app).get('/api/weather');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Missing required parameters: lat and lng');
+    });
+
+    it('should return 400 for invalid coordinates', async () => {
+      const response = await request(app).get('/api/weather?lat=invalid&lng=123');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid coordinates: lat and lng must be numbers');
+    });
+
+    it('should return weather data for valid coordinates', async () => {
+      // Mock location lookup
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({
+          data: [{
+            geohash: 'r7r7sg',
+            name: 'Brisbane',
+            state: 'QLD'
+          }]
+        })
+      });
+
+      // Mock observations
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({
+          data: {
+            temp: 25,
+            temp_feels_like: 27
+          }
+        })
+      });
+
+      // Mock forecast
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({
+          data: [
+            { date: '2025-12-04', temp_max: 30, temp_min: 20 }
+          ]
+        })
+      });
+
+      const response = await request(app)
+        .get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('location');
+      expect(response.body.location).toEqual({
+        name: 'Brisbane',
+        state: 'QLD',
+        geohash: 'r7r7sg',
+        lat: -27.4698,
+        lng: 153.0251
+      });
+      expect(response.body).toHaveProperty('observations');
+      expect(response.body).toHaveProperty('forecast');
+      expect(response.body.stale).toBe(false);
+      expect(Date.parse(response.body.fetchedAt)).not.toBeNaN();
+    });
+
+    it('should serve the last good data flagged as stale when BoM is down', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 0));
+
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true, status: 200,
+          json: async () => ({ data: [{ geohash: 'r7r7sg', name: 'Brisbane', state: 'QLD' }] })
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: { temp: 25 } }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [{ temp_max: 30 }] }) });
+      await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      // Past the cache duration, BoM now failing
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 2, 0));
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      vi.useRealTimers();
+      expect(response.status).toBe(200);
+      expect(response.body.stale).toBe(true);
+      expect(response.body.fetchedAt).toBe('2025-12-04T01:00:00.000Z');
+      expect(response.body.observations).toEqual({ temp: 25 });
+    });
+
+    it('should serve stale data when observations and forecast both fail', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 0));
+
+      const location = {
+        ok: true, status: 200,
+        json: async () => ({ data: [{ geohash: 'r7r7sg', name: 'Brisbane', state: 'QLD' }] })
+      };
+      mockFetch
+        .mockResolvedValueOnce(location)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: { temp: 25 } }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [{ temp_max: 30 }] }) });
+      await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 2, 0));
+      mockFetch
+        .mockResolvedValueOnce(location)
+        .mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const response = await request(app).get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      vi.useRealTimers();
+      expect(response.body.stale).toBe(true);
+      expect(response.body.observations).toEqual({ temp: 25 });
+    });
+
+    it('should return cached data on subsequent requests', async () => {
+      // First request - mock API calls
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({
+          data: [{ geohash: 'r7r7sg', name: 'Brisbane', state: 'QLD' }]
+        })
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({ data: { temp: 25 } })
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({ data: [{ date: '2025-12-04' }] })
+      });
+
+      const response1 = await request(app)
+        .get('/api/weather?lat=-27.4698&lng=153.0251');
+      expect(response1.status).toBe(200);
+
+      // Second request - should use cache, no new fetch calls
+      const response2 = await request(app)
+        .get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      expect(response2.status).toBe(200);
+      expect(response2.body).toEqual(response1.body);
+      // Only 3 fetch calls total (from first request)
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return 404 when location not found', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200,
+        json: async () => ({ data: [] })
+      });
+
+      const response = await request(app)
+        .get('/api/weather?lat=0&lng=0');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Could not find location data for these coordinates');
+    });
+
+    it('should handle BoM API errors gracefully', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable'
+      });
+
+      const response = await request(app)
+        .get('/api/weather?lat=-27.4698&lng=153.0251');
+
+      expect(response.status).toBe(500);
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+});
+
+describe('Utility Functions', () => {
+  describe('parseImageNames', () => {
+    it('should parse image names from HTML', () => {
+      const html = `
+        <script>
+          theImageNames[0] = "/radar/IDR663.T.202512040100.png";
+          theImageNames[1] = "/radar/IDR663.T.202512040106.png";
+        </script>
+      `;
+
+      const result = parseImageNames(html);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toBe('/radar/IDR663.T.202512040100.png');
+      expect(result[1]).toBe('/radar/IDR663.T.202512040106.png');
+    });
+
+    it('should handle single quotes', () => {
+      const html = "theImageNames[0] = '/radar/IDR663.T.202512040100.png';";
+      const result = parseImageNames(html);
+      expect(result).toHaveLength(1);
+      expect(result[0]).toBe('/radar/IDR663.T.202512040100.png');
+    });
+
+    it('should return empty array when no matches', () => {
+      const html = '<html><body>No image names here</body></html>';
+      const result = parseImageNames(html);
+      expect(result).toEqual([]);
+    });
+
+    it('should handle multiple occurrences', () => {
+      const html = `
+        theImageNames[0] = "/radar/IDR663.T.202512040100.png";
+        theImageNames[1] = "/radar/IDR663.T.202512040106.png";
+        theImageNames[2] = "/radar/IDR663.T.202512040112.png";
+        theImageNames[3] = "/radar/IDR663.T.202512040118.png";
+      `;
+      const result = parseImageNames(html);
+      expect(result).toHaveLength(4);
+    });
+  });
+
+  describe('getRadarCacheTtl', () => {
+    const images = [
+      { url: '', timestamp: '202512040100' },
+      { url: '', timestamp: '202512040106' },
+    ];
+
+    it('should stay fresh until the next scan is due', () => {
+      expect(getRadarCacheTtl(images, Date.UTC(2025, 11, 4, 1, 8))).toBe(240);
+    });
+
+    it('should re-check every minute while a scan is overdue', () => {
+      expect(getRadarCacheTtl(images, Date.UTC(2025, 11, 4, 1, 15))).toBe(60);
+    });
+
+    it('should never exceed one scan interval', () => {
+      const slowRadar = [
+        { url: '', timestamp: '202512040100' },
+        { url: '', timestamp: '202512040130' },
+      ];
+      expect(getRadarCacheTtl(slowRadar, Date.UTC(2025, 11, 4, 1, 31))).toBe(360);
+    });
+
+    it('should use the minimum TTL without valid timestamps', () => {
+      expect(getRadarCacheTtl([{ url: '', timestamp: '' }])).toBe(60);
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should extract timestamp from valid path', () => {
+      const path = '/radar/IDR663.T.202512040100.png';
+      const result = extractTimestamp(path);
+      expect(result).toBe('202512040100');
+    });
+
+    it('should handle different timestamps', () => {
+      expect(extractTimestamp('/radar/IDR71.T.202501151234.png')).toBe('202501151234');
+      expect(extractTimestamp('/radar/IDR023.T.202512311159.png')).toBe('202512311159');
+    });
+
+    it('should return empty string for invalid path', () => {
+      expect(extractTimestamp('/radar/invalid.png')).toBe('');
+      expect(extractTimestamp('/radar/IDR663.png')).toBe('');
+      expect(extractTimestamp('not a path')).toBe('');
+    });
+
+    it('should only match .T. pattern', () => {
+      expect(extractTimestamp('/radar/IDR663.X.202512040100.png')).toBe('');
+      expect(extractTimestamp('/radar/IDR663.202512040100.png')).toBe('');
+    });
+  });
+});
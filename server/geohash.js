@@ -0,0 +1,37 @@
+/**
+ * Geohash decoding
+ *
+ * BoM identifies locations by geohash, and its location search returns the
+ * geohash without coordinates. Decoding it gives the centre of the geohash
+ * cell - about 150m across for BoM's 7-character hashes - which is plenty
+ * for picking a radar and centring the map.
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Decodes a geohash to the coordinates of its centre, rounded to 4 decimal places
+ * Returns null if the geohash has characters outside the geohash alphabet
+ */
+export function decodeGeohash(geohash) {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let isLng = true; // Bits alternate, starting with longitude
+
+  for (const char of geohash.toLowerCase()) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) return null;
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = isLng ? lng : lat;
+      const mid = (range[0] + range[1]) / 2;
+      range[(value >> bit) & 1 ? 0 : 1] = mid;
+      isLng = !isLng;
+    }
+  }
+
+  return {
+    lat: Number(((lat[0] + lat[1]) / 2).toFixed(4)),
+    lng: Number(((lng[0] + lng[1]) / 2).toFixed(4))
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { decodeGeohash } from './geohash.js';
+
+describe('decodeGeohash', () => {
+  it('should decode a BoM geohash to the centre of its cell', () => {
+    // Brisbane
+    expect(decodeGeohash('r7hgdp9')).toEqual({ lat: -27.4679, lng: 153.0196 });
+  });
+
+  it('should be within a cell of the real location', () => {
+    // Sydney CBD is in r3gx2f
+    const { lat, lng } = decodeGeohash('r3gx2f');
+    expect(lat).toBeCloseTo(-33.87, 1);
+    expect(lng).toBeCloseTo(151.21, 1);
+  });
+
+  it('should ignore case', () => {
+    expect(decodeGeohash('R7HGDP9')).toEqual(decodeGeohash('r7hgdp9'));
+  });
+
+  it('should return null for characters outside the geohash alphabet', () => {
+    expect(decodeGeohash('r7hgda')).toBeNull();
+    expect(decodeGeohash('r7h gd')).toBeNull();
+  });
+});
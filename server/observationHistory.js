@@ -0,0 +1,122 @@
+/**
+ * Rolling buffer of recent observations per weather station
+ *
+ * BoM's observations endpoint only has the latest reading, so each time the
+ * API fetches observations the reading is recorded here, keyed by the
+ * station's BoM ID. The last 24 hours are kept in memory and, if a file is
+ * given, saved to disk so the history survives a restart.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+export const HISTORY_WINDOW = 24 * 60 * 60 * 1000; // ms of history to keep
+export const MIN_SAMPLE_INTERVAL = 10 * 60 * 1000; // ms - BoM stations report about every 10 minutes
+export const MAX_SAMPLES = HISTORY_WINDOW / MIN_SAMPLE_INTERVAL;
+export const SAVE_DELAY = 30 * 1000; // ms to batch up writes to the history file
+export const STATION_ID_PATTERN = /^\d{4,6}$/;
+
+/**
+ * Samples per station ID, oldest first
+ */
+const history = new Map();
+let saveTimer = null;
+
+/**
+ * Picks the fields we chart out of a BoM observation
+ */
+export function toSample(observations, time) {
+  return {
+    time: new Date(time).toISOString(),
+    temp: observations.temp,
+    humidity: observations.humidity,
+    wind: observations.wind,
+    rain_since_9am: observations.rain_since_9am
+  };
+}
+
+/**
+ * Adds a sample, dropping any older than the history window
+ */
+export function appendSample(samples, sample, now = Date.now()) {
+  const cutoff = now - HISTORY_WINDOW;
+  return [...samples.filter((s) => Date.parse(s.time) > cutoff), sample].slice(-MAX_SAMPLES);
+}
+
+/**
+ * Whether enough time has passed since the last sample to take another
+ */
+export function isSampleDue(samples, now = Date.now()) {
+  const last = samples[samples.length - 1];
+  return !last || now - Date.parse(last.time) >= MIN_SAMPLE_INTERVAL;
+}
+
+/**
+ * Records an observation against its station
+ * Several locations share a station, so readings close together are skipped
+ */
+export function recordObservation(observations, file) {
+  const station = observations?.station?.bom_id;
+  if (!station) return;
+
+  const now = Date.now();
+  const samples = history.get(station) ?? [];
+  if (!isSampleDue(samples, now)) return;
+
+  history.set(station, appendSample(samples, toSample(observations, now), now));
+
+  if (file) {
+    scheduleSave(file);
+  }
+}
+
+/**
+ * Samples for a station from the last 24 hours, oldest first
+ */
+export function getObservationHistory(station, now = Date.now()) {
+  const cutoff = now - HISTORY_WINDOW;
+  return (history.get(station) ?? []).filter((s) => Date.parse(s.time) > cutoff);
+}
+
+/**
+ * Loads history saved by a previous run (a missing file is fine)
+ */
+export async function loadObservationHistory(file) {
+  try {
+    const saved = JSON.parse(await readFile(file, 'utf8'));
+    for (const [station, samples] of Object.entries(saved)) {
+      history.set(station, samples);
+    }
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      console.warn(`Could not load observation history from ${file}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Writes the history for all stations to a file
+ */
+export async function saveObservationHistory(file) {
+  await writeFile(file, JSON.stringify(Object.fromEntries(history)));
+}
+
+function scheduleSave(file) {
+  if (saveTimer) return;
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveObservationHistory(file).catch((error) => {
+      console.warn(`Could not save observation history to ${file}:`, error.message);
+    });
+  }, SAVE_DELAY);
+  saveTimer.unref();
+}
+
+/**
+ * Clears all history (for tests)
+ */
+export function resetObservationHistory() {
+  history.clear();
+  clearTimeout(saveTimer);
+  saveTimer = null;
+}
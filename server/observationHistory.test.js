@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  recordObservation,
+  getObservationHistory,
+  loadObservationHistory,
+  saveObservationHistory,
+  resetObservationHistory,
+  appendSample,
+  HISTORY_WINDOW,
+  MIN_SAMPLE_INTERVAL,
+  MAX_SAMPLES,
+  SAVE_DELAY
+} from './observationHistory.js';
+
+const START = Date.UTC(2025, 11, 4, 0, 0);
+
+function observation(temp, bom_id = '040913') {
+  return {
+    temp,
+    humidity: 60,
+    wind: { speed_kilometre: 15, speed_knot: 8, direction: 'SE' },
+    rain_since_9am: 0,
+    station: { bom_id, name: 'Brisbane' }
+  };
+}
+
+describe('observationHistory', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    resetObservationHistory();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record a sample per station', () => {
+    recordObservation(observation(24));
+    recordObservation(observation(18, '086282'));
+
+    expect(getObservationHistory('040913')).toEqual([{
+      time: '2025-12-04T00:00:00.000Z',
+      temp: 24,
+      humidity: 60,
+      wind: { speed_kilometre: 15, speed_knot: 8, direction: 'SE' },
+      rain_since_9am: 0
+    }]);
+    expect(getObservationHistory('086282').map((s) => s.temp)).toEqual([18]);
+  });
+
+  it('should ignore observations without a station', () => {
+    recordObservation({ temp: 24 });
+    recordObservation(null);
+
+    expect(getObservationHistory('040913')).toEqual([]);
+  });
+
+  it('should skip readings taken too soon after the last one', () => {
+    recordObservation(observation(24));
+    vi.setSystemTime(START + MIN_SAMPLE_INTERVAL - 1);
+    recordObservation(observation(25));
+    vi.setSystemTime(START + MIN_SAMPLE_INTERVAL);
+    recordObservation(observation(26));
+
+    expect(getObservationHistory('040913').map((s) => s.temp)).toEqual([24, 26]);
+  });
+
+  it('should only return the last 24 hours', () => {
+    recordObservation(observation(24));
+    vi.setSystemTime(START + 60 * 60 * 1000);
+    recordObservation(observation(25));
+    vi.setSystemTime(START + HISTORY_WINDOW);
+
+    expect(getObservationHistory('040913').map((s) => s.temp)).toEqual([25]);
+  });
+
+  describe('appendSample', () => {
+    it('should drop old samples and cap the buffer', () => {
+      const now = START + HISTORY_WINDOW;
+      const samples = Array.from({ length: MAX_SAMPLES + 5 }, (_, i) => ({
+        time: new Date(now - (MAX_SAMPLES + 5 - i) * 60 * 1000).toISOString()
+      }));
+      const old = { time: new Date(now - HISTORY_WINDOW - 1).toISOString() };
+
+      const result = appendSample([old, ...samples], { time: new Date(now).toISOString() }, now);
+
+      expect(result).toHaveLength(MAX_SAMPLES);
+      expect(result).not.toContainEqual(old);
+      expect(result[result.length - 1].time).toBe(new Date(now).toISOString());
+    });
+  });
+
+  describe('file store', () => {
+    let dir;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'observation-history-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should save and load history', async () => {
+      const file = join(dir, 'history.json');
+      recordObservation(observation(24));
+      await saveObservationHistory(file);
+
+      resetObservationHistory();
+      await loadObservationHistory(file);
+
+      expect(getObservationHistory('040913').map((s) => s.temp)).toEqual([24]);
+    });
+
+    it('should save to the file a little after recording', async () => {
+      const file = join(dir, 'history.json');
+      recordObservation(observation(24), file);
+
+      await vi.advanceTimersByTimeAsync(SAVE_DELAY);
+      vi.useRealTimers();
+      await vi.waitFor(async () => {
+        const saved = JSON.parse(await readFile(file, 'utf8'));
+        expect(saved['040913']).toHaveLength(1);
+      });
+    });
+
+    it('should start empty when there is no file yet', async () => {
+      await loadObservationHistory(join(dir, 'missing.json'));
+
+      expect(getObservationHistory('040913')).toEqual([]);
+    });
+  });
+});
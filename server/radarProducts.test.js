@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { RADAR_PRODUCT_IDS } from './radarProducts.js';
+import { RADAR_PRODUCT_IDS as WORKER_RADAR_PRODUCT_IDS } from '../workers/radarProducts.js';
+
+// The frontend's radar list - the allow-list has to cover every radar in it
+const radarLocations = readFileSync(new URL('../src/data/radarLocations.ts', import.meta.url), 'utf8');
+const baseIds = [...radarLocations.matchAll(/baseId: '(\d+)'/g)].map((match) => match[1]);
+const dopplerProductIds = [...radarLocations.matchAll(/dopplerProductId: '(\w+)'/g)].map((match) => match[1]);
+
+describe('RADAR_PRODUCT_IDS', () => {
+  it('should allow every range of every radar in the app', () => {
+    expect(baseIds.length).toBeGreaterThan(60);
+    for (const baseId of baseIds) {
+      for (const suffix of ['1', '2', '3', '4']) {
+        expect(RADAR_PRODUCT_IDS.has(`IDR${baseId}${suffix}`)).toBe(true);
+      }
+    }
+  });
+
+  it('should allow the doppler products and the national composite', () => {
+    for (const productId of dopplerProductIds) {
+      expect(RADAR_PRODUCT_IDS.has(productId)).toBe(true);
+    }
+    expect(RADAR_PRODUCT_IDS.has('IDR00004')).toBe(true);
+  });
+
+  it('should not allow anything else', () => {
+    expect(RADAR_PRODUCT_IDS.size).toBe(baseIds.length * 4 + dopplerProductIds.length + 1);
+    expect(RADAR_PRODUCT_IDS.has('IDR013')).toBe(false);
+    expect(RADAR_PRODUCT_IDS.has('IDR03I')).toBe(false);
+  });
+
+  it('should match the Worker copy', () => {
+    expect([...WORKER_RADAR_PRODUCT_IDS]).toEqual([...RADAR_PRODUCT_IDS]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  upstreamFetch,
+  getCircuitStates,
+  resetCircuits,
+  CIRCUIT_THRESHOLD,
+  CIRCUIT_COOLDOWN
+} from './upstream.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const RADAR_URL = 'https://reg.bom.gov.au/products/IDR663.loop.shtml';
+const WEATHER_URL = 'https://api.weather.bom.gov.au/v1/locations?search=-27.47,153.03';
+
+// No waiting between retries in tests
+const fast = { backoff: 0 };
+
+function respond(status) {
+  return new Response('body', { status });
+}
+
+// Runs enough failing calls to trip the circuit for a host
+async function tripCircuit(url) {
+  mockFetch.mockImplementation(async () => respond(503));
+  for (let i = 0; i < CIRCUIT_THRESHOLD; i++) {
+    await upstreamFetch(url, {}, { ...fast, retries: 0 });
+  }
+  mockFetch.mockReset();
+}
+
+describe('upstreamFetch', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    resetCircuits();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('timeouts and retries', () => {
+    it('should return successful responses with a timeout signal', async () => {
+      mockFetch.mockResolvedValueOnce(respond(200));
+
+      const response = await upstreamFetch(RADAR_URL, {}, fast);
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    });
+
+    it('should pass through request options', async () => {
+      mockFetch.mockResolvedValueOnce(respond(200));
+
+      await upstreamFetch(RADAR_URL, { cf: { cacheTtl: 60 } }, fast);
+
+      expect(mockFetch.mock.calls[0][1].cf).toEqual({ cacheTtl: 60 });
+    });
+
+    it('should retry 5xx responses until one succeeds', async () => {
+      mockFetch
+        .mockResolvedValueOnce(respond(502))
+        .mockResolvedValueOnce(respond(503))
+        .mockResolvedValueOnce(respond(200));
+
+      const response = await upstreamFetch(RADAR_URL, {}, fast);
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the last 5xx response once retries are exhausted', async () => {
+      mockFetch.mockImplementation(async () => respond(500));
+
+      const response = await upstreamFetch(RADAR_URL, {}, { ...fast, retries: 2 });
+
+      expect(response.status).toBe(500);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(getCircuitStates()['reg.bom.gov.au'].failures).toBe(1);
+    });
+
+    it('should not retry 4xx responses', async () => {
+      mockFetch.mockResolvedValueOnce(respond(404));
+
+      const response = await upstreamFetch(RADAR_URL, {}, fast);
+
+      expect(response.status).toBe(404);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(getCircuitStates()['reg.bom.gov.au'].failures).toBe(0);
+    });
+
+    it('should retry network errors and rethrow the last one', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await expect(upstreamFetch(RADAR_URL, {}, { ...fast, retries: 1 })).rejects.toThrow('ECONNREFUSED');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort requests that take too long', async () => {
+      mockFetch.mockImplementation((url, { signal }) => new Promise((resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      }));
+
+      await expect(upstreamFetch(RADAR_URL, {}, { ...fast, timeout: 10, retries: 0 }))
+        .rejects.toMatchObject({ name: 'TimeoutError' });
+    });
+  });
+
+  describe('circuit breaker', () => {
+    it('should open after repeated failures and fail fast', async () => {
+      await tripCircuit(RADAR_URL);
+
+      await expect(upstreamFetch(RADAR_URL, {}, fast)).rejects.toMatchObject({ circuitOpen: true });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(getCircuitStates()['reg.bom.gov.au'].state).toBe('open');
+    });
+
+    it('should keep a circuit per host', async () => {
+      await tripCircuit(RADAR_URL);
+      mockFetch.mockResolvedValueOnce(respond(200));
+
+      const response = await upstreamFetch(WEATHER_URL, {}, fast);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should close again after a successful trial request', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await tripCircuit(RADAR_URL);
+
+      vi.setSystemTime(Date.now() + CIRCUIT_COOLDOWN);
+      mockFetch.mockResolvedValueOnce(respond(200));
+
+      expect((await upstreamFetch(RADAR_URL, {}, fast)).status).toBe(200);
+      expect(getCircuitStates()['reg.bom.gov.au']).toEqual({ state: 'closed', failures: 0, openedAt: null });
+    });
+
+    it('should reopen when the trial request fails', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await tripCircuit(RADAR_URL);
+
+      vi.setSystemTime(Date.now() + CIRCUIT_COOLDOWN);
+      mockFetch.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(upstreamFetch(RADAR_URL, {}, { ...fast, retries: 0 })).rejects.toThrow('Network error');
+      expect(getCircuitStates()['reg.bom.gov.au'].state).toBe('open');
+      await expect(upstreamFetch(RADAR_URL, {}, fast)).rejects.toMatchObject({ circuitOpen: true });
+    });
+
+    it('should only let one trial request through at a time', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await tripCircuit(RADAR_URL);
+
+      vi.setSystemTime(Date.now() + CIRCUIT_COOLDOWN);
+      let resolveTrial;
+      mockFetch.mockReturnValueOnce(new Promise((resolve) => {
+        resolveTrial = resolve;
+      }));
+
+      const trial = upstreamFetch(RADAR_URL, {}, fast);
+      await expect(upstreamFetch(RADAR_URL, {}, fast)).rejects.toMatchObject({ circuitOpen: true });
+
+      resolveTrial(respond(200));
+      expect((await trial).status).toBe(200);
+      expect(getCircuitStates()['reg.bom.gov.au'].state).toBe('closed');
+    });
+
+    it('should report when each circuit opened', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 11, 4, 1, 0));
+      await tripCircuit(RADAR_URL);
+
+      expect(getCircuitStates()).toEqual({
+        'reg.bom.gov.au': {
+          state: 'open',
+          failures: CIRCUIT_THRESHOLD,
+          openedAt: '2025-12-04T01:00:00.000Z'
+        }
+      });
+    });
+  });
+});
@@ -1,13 +1,17 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Routes, Route, useParams, useNavigate } from 'react-router-dom';
+import { Routes, Route, Link, useParams, useNavigate, useLocation } from 'react-router-dom';
 import { RadarViewer } from './components/RadarViewer';
 import RadarControlBar from './components/RadarControlBar';
+import RadarMosaic from './components/RadarMosaic';
 import WeatherInfo from './components/WeatherInfo';
 import RainLegend from './components/RainLegend';
 import SettingsModal from './components/SettingsModal';
+import WarningBanner from './components/WarningBanner';
+import LocationSearch from './components/LocationSearch';
+import Dashboard from './components/Dashboard';
 import { IOSInstallPrompt } from './components/IOSInstallPrompt';
 import { radarLocations } from './data/radarLocations';
-import { RadarLocation, WeatherData, RadarRange, RadarOverlays, RadarMode } from './types/radar';
+import { RadarLocation, WeatherData, HourlyForecast, RadarRange, RadarOverlays, RadarMode, RadarView, RadarPlayback, RainNowcast, Warning, UnitPreferences, ObservationSample, Place, WeatherLocationSource, FavouritePlace } from './types/radar';
 import {
   getCurrentPosition,
   findNearestRadars,
@@ -15,12 +19,26 @@ import {
   saveLocationPreference,
   RadarWithDistance,
 } from './utils/geolocation';
-import { fetchWeatherData } from './utils/weatherApi';
+import { fetchWeatherData, fetchHourlyForecast, fetchObservationHistory } from './utils/weatherApi';
+import { fetchWarnings } from './utils/warningsApi';
+import { parseUnitPreferences } from './utils/units';
+import {
+  MAX_FAVOURITES,
+  parseFavourites,
+  getFavouritePlace,
+  createFavourite,
+  addFavourite,
+  removeFavourite,
+} from './utils/favourites';
+import { MosaicScope, getMosaicScope, getMosaicScopeForState } from './utils/mosaic';
 import { useThemeColor } from './hooks/useThemeColor';
 
+const WARNINGS_REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
 function RadarApp() {
   const params = useParams<{ radarId?: string; range?: string; mode?: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
 
   const [selectedRadar, setSelectedRadar] = useState<RadarLocation | null>(() => {
     // First check URL params
@@ -36,7 +54,24 @@ function RadarApp() {
     }
     return null; // Don't default to Sydney, let IP geolocation handle it
   });
-  const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // Restored up front so the first weather fetch is already for the user's location
+  const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(() => loadLocationPreference());
+  // Place picked in the search box - weather is for here rather than the radar site
+  const [selectedPlace, setSelectedPlace] = useState<Place | null>(() => {
+    const savedPlace = localStorage.getItem('selectedPlace');
+    if (savedPlace) {
+      try {
+        return JSON.parse(savedPlace);
+      } catch (e) {
+        console.error('Failed to parse saved place:', e);
+      }
+    }
+    return null;
+  });
+  // Whether the weather follows the user's location or sticks to the radar site
+  const [weatherSource, setWeatherSource] = useState<WeatherLocationSource>(() =>
+    localStorage.getItem('weatherSource') === 'radar' ? 'radar' : 'location'
+  );
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [radarError, setRadarError] = useState<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -94,6 +129,33 @@ function RadarApp() {
     return defaultOverlays;
   });
 
+  const [playback, setPlayback] = useState<RadarPlayback>(() => {
+    const defaultPlayback: RadarPlayback = {
+      frameDuration: 500,
+      latestDwell: 1000,
+      frameCount: null,
+    };
+    const savedPlayback = localStorage.getItem('radarPlayback');
+    if (savedPlayback) {
+      try {
+        return { ...defaultPlayback, ...JSON.parse(savedPlayback) };
+      } catch (e) {
+        console.error('Failed to parse saved playback settings:', e);
+      }
+    }
+    return defaultPlayback;
+  });
+
+  const [units, setUnits] = useState<UnitPreferences>(() =>
+    parseUnitPreferences(localStorage.getItem('units'))
+  );
+
+  // Saved places, and the one picked last (while its radar is still showing)
+  const [favourites, setFavourites] = useState<FavouritePlace[]>(() =>
+    parseFavourites(localStorage.getItem('favourites'))
+  );
+  const [activeFavouriteId, setActiveFavouriteId] = useState<string | null>(null);
+
   // Radar mode state (rain vs doppler)
   const [radarMode, setRadarMode] = useState<RadarMode>(() => {
     // First check URL params
@@ -105,18 +167,23 @@ function RadarApp() {
     return (savedMode === 'doppler' ? 'doppler' : 'rain') as RadarMode;
   });
 
+  // Single radar or multi-radar mosaic
+  const [radarView, setRadarView] = useState<RadarView>(() =>
+    localStorage.getItem('radarView') === 'mosaic' ? 'mosaic' : 'single'
+  );
+  const [mosaicScope, setMosaicScope] = useState<MosaicScope | null>(() => {
+    const savedScope = localStorage.getItem('mosaicScope');
+    return savedScope ? getMosaicScope(savedScope) : null; // Default to the selected radar's state
+  });
+
   // Weather data state
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [isLoadingWeather, setIsLoadingWeather] = useState(false);
   const [weatherError, setWeatherError] = useState<string | null>(null);
-
-  // Load saved preferences on mount
-  useEffect(() => {
-    const savedLocation = loadLocationPreference();
-    if (savedLocation) {
-      setUserLocation(savedLocation);
-    }
-  }, []);
+  const [hourlyForecast, setHourlyForecast] = useState<HourlyForecast[] | null>(null);
+  const [observationHistory, setObservationHistory] = useState<ObservationSample[] | null>(null);
+  const [rainNowcast, setRainNowcast] = useState<RainNowcast | null>(null);
+  const [warnings, setWarnings] = useState<Warning[]>([]);
 
   // Save selected radar when it changes AND update URL
   useEffect(() => {
@@ -142,10 +209,54 @@ function RadarApp() {
     localStorage.setItem('radarOverlays', JSON.stringify(overlays));
   }, [overlays]);
 
+  useEffect(() => {
+    localStorage.setItem('radarPlayback', JSON.stringify(playback));
+  }, [playback]);
+
+  useEffect(() => {
+    localStorage.setItem('units', JSON.stringify(units));
+  }, [units]);
+
+  useEffect(() => {
+    localStorage.setItem('weatherSource', weatherSource);
+  }, [weatherSource]);
+
+  useEffect(() => {
+    localStorage.setItem('favourites', JSON.stringify(favourites));
+  }, [favourites]);
+
+  useEffect(() => {
+    if (selectedPlace) {
+      localStorage.setItem('selectedPlace', JSON.stringify(selectedPlace));
+    } else {
+      localStorage.removeItem('selectedPlace');
+    }
+  }, [selectedPlace]);
+
   useEffect(() => {
     localStorage.setItem('radarMode', radarMode);
   }, [radarMode]);
 
+  useEffect(() => {
+    localStorage.setItem('radarView', radarView);
+  }, [radarView]);
+
+  useEffect(() => {
+    if (mosaicScope) {
+      localStorage.setItem('mosaicScope', mosaicScope.id);
+    }
+  }, [mosaicScope]);
+
+  // The mosaic has no single radar to report errors or a nowcast for
+  useEffect(() => {
+    if (radarView !== 'mosaic') return;
+    setRadarError(null);
+    setRainNowcast(null);
+  }, [radarView]);
+
+  // The mosaic is rain-only, but radarMode keeps the user's choice for when they leave it
+  const displayedMode: RadarMode = radarView === 'mosaic' ? 'rain' : radarMode;
+
   // Auto-switch to rain mode if selected radar doesn't support doppler
   useEffect(() => {
     if (selectedRadar && radarMode === 'doppler' && !selectedRadar.hasDoppler) {
@@ -214,27 +325,112 @@ function RadarApp() {
     initializeLocationFromIP();
   }, [params.radarId]); // Run when params change or on mount
 
-  // Fetch weather data when selected radar changes
+  // Fetch weather data for the searched place or the user's location, falling
+  // back to the radar site if we don't know where they are (or they pinned it)
+  const ownLocation = selectedPlace ?? userLocation;
+  const weatherTarget = weatherSource === 'location' && ownLocation ? ownLocation : selectedRadar;
+  // Only counts as showing the favourite while its radar is still selected
+  const activeFavourite = favourites.find(
+    (favourite) => favourite.id === activeFavouriteId && favourite.radarId === selectedRadar?.productId
+  );
+
+  const ownLocationLabel = selectedPlace ? selectedPlace.name : userLocation ? 'My location' : null;
+  const weatherLat = weatherTarget?.lat;
+  const weatherLng = weatherTarget?.lng;
   useEffect(() => {
-    if (!selectedRadar) return;
+    if (weatherLat === undefined || weatherLng === undefined) return;
 
+    let cancelled = false;
     const loadWeatherData = async () => {
       setIsLoadingWeather(true);
       setWeatherError(null);
 
       try {
-        const data = await fetchWeatherData(selectedRadar.lat, selectedRadar.lng);
-        setWeatherData(data);
+        const data = await fetchWeatherData(weatherLat, weatherLng);
+        if (!cancelled) setWeatherData(data);
       } catch (error) {
         console.error('Failed to fetch weather data:', error);
-        setWeatherError(error instanceof Error ? error.message : 'Failed to load weather data');
+        if (!cancelled) setWeatherError(error instanceof Error ? error.message : 'Failed to load weather data');
       } finally {
-        setIsLoadingWeather(false);
+        if (!cancelled) setIsLoadingWeather(false);
       }
     };
 
     loadWeatherData();
-  }, [selectedRadar]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weatherLat, weatherLng]);
+
+  // Fetch the hourly forecast once we know the BoM location
+  const weatherGeohash = weatherData?.location.geohash;
+  useEffect(() => {
+    setHourlyForecast(null);
+    if (!weatherGeohash) return;
+
+    let cancelled = false;
+    fetchHourlyForecast(weatherGeohash)
+      .then((data) => {
+        if (!cancelled) setHourlyForecast(data.hourly);
+      })
+      .catch((error) => {
+        // The chart is optional - the rest of the weather panel still works
+        console.error('Failed to fetch hourly forecast:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [weatherGeohash]);
+
+  // Fetch the station's recent readings whenever the observations are refreshed
+  const stationId = weatherData?.observations?.station?.bom_id;
+  const weatherFetchedAt = weatherData?.fetchedAt;
+  useEffect(() => {
+    setObservationHistory(null);
+    if (!stationId) return;
+
+    let cancelled = false;
+    fetchObservationHistory(stationId)
+      .then((data) => {
+        if (!cancelled) setObservationHistory(data.samples);
+      })
+      .catch((error) => {
+        // The trends are optional - the rest of the weather panel still works
+        console.error('Failed to fetch observation history:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, weatherFetchedAt]);
+
+  // Fetch BoM warnings for the location, and keep checking while the page is open
+  useEffect(() => {
+    setWarnings([]);
+    if (!weatherGeohash) return;
+
+    let cancelled = false;
+    const loadWarnings = () => {
+      fetchWarnings(weatherGeohash)
+        .then((data) => {
+          if (!cancelled) setWarnings(data.warnings);
+        })
+        .catch((error) => {
+          // Keep showing the last warnings we had
+          console.error('Failed to fetch warnings:', error);
+        });
+    };
+
+    loadWarnings();
+    const interval = setInterval(loadWarnings, WARNINGS_REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [weatherGeohash]);
 
   // Calculate nearest radars when user location changes
   const nearestRadars: RadarWithDistance[] = useMemo(() => {
@@ -271,6 +467,9 @@ function RadarApp() {
       const position = await getCurrentPosition();
       setUserLocation(position);
       saveLocationPreference(position);
+      setSelectedPlace(null);
+      setWeatherSource('location');
+      setActiveFavouriteId(null);
 
       // Auto-select nearest radar
       const nearest = findNearestRadars(position.lat, position.lng, radarLocations, 1);
@@ -284,6 +483,67 @@ function RadarApp() {
     }
   };
 
+  // Searched place - show its weather on the nearest radar
+  const handlePlaceSelect = useCallback((place: Place) => {
+    const location = { lat: place.lat, lng: place.lng };
+    setSelectedPlace(place);
+    setWeatherSource('location');
+    setUserLocation(location);
+    saveLocationPreference(location);
+    setActiveFavouriteId(null);
+
+    const nearest = findNearestRadars(place.lat, place.lng, radarLocations, 1);
+    if (nearest.length > 0) {
+      setSelectedRadar(nearest[0]);
+    }
+  }, []);
+
+  // Favourite - the place's weather with the radar settings it was saved with
+  const handleFavouriteSelect = useCallback((favourite: FavouritePlace) => {
+    handlePlaceSelect({
+      name: favourite.name,
+      state: favourite.state,
+      postcode: null,
+      lat: favourite.lat,
+      lng: favourite.lng,
+    });
+
+    const radar = radarLocations.find((r) => r.productId === favourite.radarId);
+    if (radar) {
+      setSelectedRadar(radar);
+    }
+    setSelectedRange(favourite.range);
+    setRadarMode(favourite.mode);
+    setRadarView('single');
+    setActiveFavouriteId(favourite.id);
+  }, [handlePlaceSelect]);
+
+  // Opened from a dashboard card - show that favourite
+  const openedFavouriteId = (location.state as { favouriteId?: string } | null)?.favouriteId;
+  useEffect(() => {
+    const favourite = favourites.find((f) => f.id === openedFavouriteId);
+    if (favourite) handleFavouriteSelect(favourite);
+  }, [openedFavouriteId, favourites, handleFavouriteSelect]);
+
+  // Save what's showing as a favourite, or forget it if it already is one
+  const handleToggleFavourite = () => {
+    if (activeFavourite) {
+      setFavourites(removeFavourite(favourites, activeFavourite.id));
+      setActiveFavouriteId(null);
+      return;
+    }
+    if (!selectedRadar) return;
+
+    const favourite = createFavourite(
+      getFavouritePlace(weatherSource, selectedPlace, userLocation, weatherData?.location, selectedRadar),
+      selectedRadar,
+      selectedRange,
+      radarMode
+    );
+    setFavourites(addFavourite(favourites, favourite));
+    setActiveFavouriteId(favourite.id);
+  };
+
   // Manual fallback to next nearest radar
   const handleTryNextNearest = () => {
     if (!userLocation || !selectedRadar) return;
@@ -312,20 +572,40 @@ function RadarApp() {
               <span className="font-sans hidden min-[450px]:inline text-base">No-Consultant Weather</span>
             </h1>
 
-            {/* Center: Radar Selector */}
-            <div className="flex-1 flex items-center justify-center gap-2 max-w-xl">
+            {/* Center: Place Search + Radar Selector */}
+            <div className="flex-1 flex items-center justify-center gap-2 max-w-2xl">
+              <LocationSearch onSelect={handlePlaceSelect} isDarkMode={isDarkMode} />
+
               <select
                 id="radar-select"
-                value={selectedRadar?.productId || ''}
+                value={activeFavourite ? `favourite:${activeFavourite.id}` : selectedRadar?.productId || ''}
                 onChange={(e) => {
+                  const favourite = favourites.find((f) => `favourite:${f.id}` === e.target.value);
+                  if (favourite) {
+                    handleFavouriteSelect(favourite);
+                    return;
+                  }
+
                   const radar = radarLocations.find(
                     (r) => r.productId === e.target.value
                   );
-                  if (radar) setSelectedRadar(radar);
+                  if (radar) {
+                    setSelectedRadar(radar);
+                    setActiveFavouriteId(null);
+                  }
                 }}
                 className={`flex-1 min-w-0 px-2 py-1 text-xs md:text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-md ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
               >
                 <option value="" disabled>Select location...</option>
+                {favourites.length > 0 && (
+                  <optgroup label="⭐ Favourites">
+                    {favourites.map((favourite) => (
+                      <option key={`favourite-${favourite.id}`} value={`favourite:${favourite.id}`}>
+                        {favourite.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
                 {nearestRadars.length > 0 && (
                   <optgroup label="📍 Nearest">
                     {nearestRadars.map((radar) => (
@@ -346,6 +626,25 @@ function RadarApp() {
                 ))}
               </select>
 
+              <button
+                onClick={handleToggleFavourite}
+                disabled={!selectedRadar || (!activeFavourite && favourites.length >= MAX_FAVOURITES)}
+                className={`px-2 py-1 text-xs md:text-sm rounded transition whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed ${activeFavourite ? 'bg-yellow-400 text-gray-900 hover:bg-yellow-500' : isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                aria-pressed={!!activeFavourite}
+                title={activeFavourite ? `Remove ${activeFavourite.name} from favourites` : 'Save as a favourite'}
+              >
+                {activeFavourite ? '★' : '☆'}
+              </button>
+
+              <button
+                onClick={() => setRadarView(radarView === 'mosaic' ? 'single' : 'mosaic')}
+                className={`px-2 py-1 text-xs md:text-sm rounded transition whitespace-nowrap ${radarView === 'mosaic' ? 'bg-blue-600 text-white hover:bg-blue-700' : isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                aria-pressed={radarView === 'mosaic'}
+                title={radarView === 'mosaic' ? 'Show a single radar' : 'Show a multi-radar mosaic'}
+              >
+                🗺️
+              </button>
+
               <button
                 onClick={handleUseLocation}
                 disabled={isLoadingLocation}
@@ -357,6 +656,19 @@ function RadarApp() {
 
             {/* Right: Social & Settings */}
             <div className="flex items-center gap-1 md:gap-3">
+              <Link
+                to="/dashboard"
+                className={`p-1 rounded hover:bg-opacity-80 transition ${isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-200'}`}
+                aria-label="Favourites dashboard"
+                title="Favourites dashboard"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24">
+                  <rect x="3" y="3" width="7" height="7" rx="1" />
+                  <rect x="14" y="3" width="7" height="7" rx="1" />
+                  <rect x="3" y="14" width="7" height="7" rx="1" />
+                  <rect x="14" y="14" width="7" height="7" rx="1" />
+                </svg>
+              </Link>
               <a
                 href="https://github.com/uncleLukie/no-consultant-weather"
                 target="_blank"
@@ -403,6 +715,14 @@ function RadarApp() {
               weatherData={weatherData}
               loading={isLoadingWeather}
               error={weatherError}
+              nowcast={rainNowcast}
+              hourlyForecast={hourlyForecast}
+              observationHistory={observationHistory}
+              units={units}
+              weatherSource={weatherSource}
+              onWeatherSourceChange={setWeatherSource}
+              locationLabel={ownLocationLabel}
+              radarLabel={selectedRadar?.name}
               isDarkMode={isDarkMode}
             />
           </div>
@@ -415,6 +735,14 @@ function RadarApp() {
                 weatherData={weatherData}
                 loading={isLoadingWeather}
                 error={weatherError}
+                nowcast={rainNowcast}
+                hourlyForecast={hourlyForecast}
+                observationHistory={observationHistory}
+                units={units}
+                weatherSource={weatherSource}
+                onWeatherSourceChange={setWeatherSource}
+                locationLabel={ownLocationLabel}
+                radarLabel={selectedRadar?.name}
                 isDarkMode={isDarkMode}
               />
               <div className="mt-auto">
@@ -424,8 +752,11 @@ function RadarApp() {
 
             {/* Center - Radar Viewer */}
             <div className="flex-1 min-w-0 flex flex-col py-1">
+              {/* Warning Banner */}
+              <WarningBanner warnings={warnings} isDarkMode={isDarkMode} />
+
               {/* Error Banner */}
-              {radarError && selectedRadar && (
+              {radarError && selectedRadar && radarView === 'single' && (
                 <div className={`mb-2 p-2 rounded-lg border text-sm ${isDarkMode ? 'bg-red-900/20 border-red-800 text-red-200' : 'bg-red-50 border-red-200 text-red-800'}`}>
                   <div className="flex flex-col gap-2">
                     <p className="font-medium">{radarError}</p>
@@ -458,9 +789,9 @@ function RadarApp() {
                   <RadarControlBar
                     currentRange={selectedRange}
                     onRangeChange={setSelectedRange}
-                    currentMode={radarMode}
+                    currentMode={displayedMode}
                     onModeChange={setRadarMode}
-                    hasDoppler={selectedRadar.hasDoppler}
+                    hasDoppler={radarView === 'single' && selectedRadar.hasDoppler}
                     isDarkMode={isDarkMode}
                     orientation="horizontal"
                   />
@@ -468,16 +799,30 @@ function RadarApp() {
               </div>
 
               <div className="flex-1 min-h-0">
-                {selectedRadar ? (
+                {selectedRadar && radarView === 'mosaic' ? (
+                  <RadarMosaic
+                    scope={mosaicScope ?? getMosaicScopeForState(selectedRadar.state)}
+                    onScopeChange={setMosaicScope}
+                    selectedRange={selectedRange}
+                    isDarkMode={isDarkMode}
+                    playback={playback}
+                  />
+                ) : selectedRadar ? (
                   <RadarViewer
                     key={selectedRadar.baseId}
                     baseId={selectedRadar.baseId}
+                    radarName={`${selectedRadar.name} (${selectedRadar.location})`}
+                    radarLat={selectedRadar.lat}
+                    radarLng={selectedRadar.lng}
+                    userLocation={userLocation}
                     isDarkMode={isDarkMode}
                     selectedRange={selectedRange}
                     currentMode={radarMode}
                     dopplerProductId={selectedRadar.dopplerProductId}
                     overlays={overlays}
+                    playback={playback}
                     onError={handleRadarError}
+                    onNowcast={setRainNowcast}
                   />
                 ) : (
                   <div className="flex items-center justify-center h-full">
@@ -495,9 +840,9 @@ function RadarApp() {
                 <RadarControlBar
                   currentRange={selectedRange}
                   onRangeChange={setSelectedRange}
-                  currentMode={radarMode}
+                  currentMode={displayedMode}
                   onModeChange={setRadarMode}
-                  hasDoppler={selectedRadar.hasDoppler}
+                  hasDoppler={radarView === 'single' && selectedRadar.hasDoppler}
                   isDarkMode={isDarkMode}
                   orientation="vertical"
                 />
@@ -513,6 +858,12 @@ function RadarApp() {
         onClose={() => setIsSettingsOpen(false)}
         overlays={overlays}
         onOverlaysChange={setOverlays}
+        playback={playback}
+        onPlaybackChange={setPlayback}
+        units={units}
+        onUnitsChange={setUnits}
+        favourites={favourites}
+        onFavouritesChange={setFavourites}
         isDarkMode={isDarkMode}
         onDarkModeChange={setIsDarkMode}
       />
@@ -530,6 +881,7 @@ function App() {
   return (
     <Routes>
       <Route path="/" element={<RadarApp />} />
+      <Route path="/dashboard" element={<Dashboard />} />
       <Route path="/radar/:radarId" element={<RadarApp />} />
       <Route path="/radar/:radarId/:range" element={<RadarApp />} />
       <Route path="/radar/:radarId/:range/:mode" element={<RadarApp />} />
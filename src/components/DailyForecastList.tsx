@@ -0,0 +1,141 @@
+import { useState, useEffect, useRef } from 'react';
+import { DailyForecast, UnitPreferences } from '../types/radar';
+import {
+  formatForecastDay,
+  formatForecastDate,
+  formatRainAmount,
+  formatTemperature,
+  getWeatherIcon,
+  getUVCategoryColor,
+  getFireDangerColor
+} from '../utils/weatherApi';
+import { DEFAULT_UNITS } from '../utils/units';
+
+interface DailyForecastListProps {
+  days: DailyForecast[];
+  units?: UnitPreferences;
+  isDarkMode?: boolean;
+}
+
+/**
+ * Forecast for the coming week, one row per day
+ * Tapping a day shows BoM's extended forecast text in a popover.
+ * Collapsible on mobile, always open on desktop
+ */
+export default function DailyForecastList({ days, units = DEFAULT_UNITS, isDarkMode = false }: DailyForecastListProps) {
+  const [isExpanded, setIsExpanded] = useState(() => localStorage.getItem('forecastExpanded') === 'true');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    localStorage.setItem('forecastExpanded', isExpanded.toString());
+  }, [isExpanded]);
+
+  // Close the popover when clicking elsewhere or pressing ESC
+  useEffect(() => {
+    if (selectedIndex === null) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (listRef.current && !listRef.current.contains(e.target as Node)) {
+        setSelectedIndex(null);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedIndex(null);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [selectedIndex]);
+
+  if (days.length === 0) return null;
+
+  const mutedClass = 'text-gray-500';
+  const valueClass = isDarkMode ? 'text-gray-200' : 'text-gray-900';
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className={`w-full flex items-center justify-center gap-1 text-xs font-semibold lg:pointer-events-none ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+        aria-expanded={isExpanded}
+      >
+        {days.length}-day forecast
+        <svg
+          className={`w-3 h-3 lg:hidden transition-transform ${isExpanded ? 'rotate-180' : ''} ${mutedClass}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      <div ref={listRef} className={`${isExpanded ? '' : 'hidden lg:block'} mt-1 text-xs`}>
+        {days.map((day, index) => {
+          const rainAmount = formatRainAmount(day.rain?.amount, units.rainfall);
+          const isSelected = selectedIndex === index;
+
+          return (
+            <div key={day.date ?? index} className="relative">
+              <button
+                onClick={() => setSelectedIndex(isSelected ? null : index)}
+                className={`w-full grid grid-cols-[2.5rem_1.5rem_1fr_auto] items-center gap-1 px-1 py-1 rounded text-left transition ${isSelected ? (isDarkMode ? 'bg-gray-700' : 'bg-gray-100') : (isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100')}`}
+                aria-expanded={isSelected}
+                title={day.short_text}
+              >
+                <span className={`font-semibold ${valueClass}`}>{formatForecastDay(day.date)}</span>
+                <span className="text-base leading-none">{getWeatherIcon(day.icon_descriptor)}</span>
+
+                {/* Rain, UV and fire danger */}
+                <span className="min-w-0 leading-tight">
+                  <span className="block">
+                    <span className={(day.rain?.chance ?? 0) > 60 ? 'font-semibold text-blue-500' : valueClass}>
+                      💧{day.rain?.chance ?? 0}%
+                    </span>
+                    {rainAmount && <span className={mutedClass}> {rainAmount}</span>}
+                  </span>
+                  {(day.uv?.max_index !== undefined || day.fire_danger) && (
+                    <span className="block text-[10px] truncate">
+                      {day.uv?.max_index !== undefined && (
+                        <span className={getUVCategoryColor(day.uv.category)}>UV {day.uv.max_index}</span>
+                      )}
+                      {day.uv?.max_index !== undefined && day.fire_danger && <span className={mutedClass}> · </span>}
+                      {day.fire_danger && (
+                        <span className={`capitalize ${getFireDangerColor(day.fire_danger)}`}>🔥{day.fire_danger}</span>
+                      )}
+                    </span>
+                  )}
+                </span>
+
+                {/* Min / max */}
+                <span className="whitespace-nowrap">
+                  <span className={mutedClass}>{formatTemperature(day.temp_min, units.temperature)}</span>
+                  {' '}
+                  <span className={`font-semibold ${valueClass}`}>{formatTemperature(day.temp_max, units.temperature)}</span>
+                </span>
+              </button>
+
+              {/* Extended forecast popover */}
+              {isSelected && (
+                <div
+                  role="dialog"
+                  aria-label={`Forecast for ${formatForecastDate(day.date)}`}
+                  className={`absolute left-0 right-0 top-full mt-1 z-20 rounded shadow-lg border p-3 ${isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-800'}`}
+                >
+                  <p className="font-semibold">{formatForecastDate(day.date)}</p>
+                  {day.short_text && <p className={`mb-1 ${mutedClass}`}>{day.short_text}</p>}
+                  <p className="leading-relaxed">{day.extended_text ?? 'No extended forecast available.'}</p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FavouritePlace, PlaceSummary, WarningSeverity } from '../types/radar';
+import { parseFavourites } from '../utils/favourites';
+import { parseUnitPreferences } from '../utils/units';
+import { DASHBOARD_CONCURRENCY, fetchPlaceSummary, mapWithConcurrency } from '../utils/dashboard';
+import { formatTemperature, getWeatherIcon } from '../utils/weatherApi';
+import { getWarningSeverity } from '../utils/warningsApi';
+import { formatTimestampTime, getTransparencyUrl } from '../utils/radarApi';
+import { useThemeColor } from '../hooks/useThemeColor';
+
+const DASHBOARD_REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes, same as the radar
+
+const SEVERITY_CLASSES: Record<WarningSeverity, string> = {
+  severe: 'bg-red-600 text-white',
+  moderate: 'bg-orange-500 text-white',
+  minor: 'bg-yellow-400 text-gray-900',
+};
+
+type CardState =
+  | { status: 'loaded'; summary: PlaceSummary }
+  | { status: 'error'; message: string };
+
+/**
+ * Overview of every favourite - current temperature, today's forecast,
+ * warnings and the latest radar frame. Tap a card to open it on the radar
+ */
+export default function Dashboard() {
+  // Settings are owned by the radar page, so read what it saved
+  const [favourites] = useState<FavouritePlace[]>(() => parseFavourites(localStorage.getItem('favourites')));
+  const [units] = useState(() => parseUnitPreferences(localStorage.getItem('units')));
+  const [isDarkMode] = useState(() => {
+    const savedDarkMode = localStorage.getItem('darkMode');
+    if (savedDarkMode !== null) {
+      return savedDarkMode === 'true';
+    }
+    return window.matchMedia('(prefers-color-scheme: dark)').matches;
+  });
+  const [cards, setCards] = useState<Record<string, CardState>>({});
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useThemeColor(isDarkMode);
+
+  // Fetch a few places at a time, filling in each card as it arrives.
+  // Cards keep their last data while a refresh is running
+  useEffect(() => {
+    if (favourites.length === 0) return;
+
+    let cancelled = false;
+    setIsRefreshing(true);
+
+    mapWithConcurrency(favourites, DASHBOARD_CONCURRENCY, async (favourite) => {
+      if (cancelled) return;
+
+      let card: CardState;
+      try {
+        card = { status: 'loaded', summary: await fetchPlaceSummary(favourite) };
+      } catch (error) {
+        card = { status: 'error', message: error instanceof Error ? error.message : 'Failed to load weather' };
+      }
+      if (!cancelled) setCards((current) => ({ ...current, [favourite.id]: card }));
+    }).finally(() => {
+      if (!cancelled) setIsRefreshing(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [favourites, refreshCount]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setRefreshCount((count) => count + 1), DASHBOARD_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className={`min-h-screen flex flex-col ${isDarkMode ? 'bg-gray-900 text-gray-200' : 'bg-gray-50 text-gray-900'}`}>
+      <header className={`shadow-sm border-b ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+        <div className="w-full px-2 py-1.5 sm:px-4 sm:py-2 flex items-center justify-between gap-4">
+          <h1
+            className={`flex items-center gap-2 text-base md:text-lg font-bold whitespace-nowrap ${isDarkMode ? 'text-white' : 'text-gray-900'}`}
+          >
+            <img src="/thunder.png" alt="Thunder icon" className="w-5 h-5 md:w-6 md:h-6" />
+            <span className="font-sans">Favourites</span>
+          </h1>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setRefreshCount((count) => count + 1)}
+              disabled={isRefreshing || favourites.length === 0}
+              className={`px-2 py-1 text-xs md:text-sm rounded transition whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed ${isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+              title="Refresh"
+            >
+              {isRefreshing ? '...' : '↻'}
+            </button>
+            <Link
+              to="/"
+              className="px-2 py-1 text-xs md:text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition whitespace-nowrap"
+            >
+              📡 Radar
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 w-full max-w-5xl mx-auto p-2 md:p-4">
+        {favourites.length === 0 ? (
+          <p className={`mt-8 text-center text-sm ${mutedClass}`}>
+            No favourites yet. Save places with ☆ on the <Link to="/" className="text-blue-500 hover:underline">radar</Link> and they'll show up here.
+          </p>
+        ) : (
+          <ul className="grid gap-2 md:gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+            {favourites.map((favourite) => {
+              const card = cards[favourite.id];
+              const summary = card?.status === 'loaded' ? card.summary : null;
+              const today = summary?.weather.forecast?.today;
+              const currentTemp = summary?.weather.observations?.temp ?? today?.temp_max;
+
+              return (
+                <li key={favourite.id}>
+                  <Link
+                    to={`/radar/${favourite.radarId}/${favourite.range}/${favourite.mode}`}
+                    state={{ favouriteId: favourite.id }}
+                    className={`flex gap-3 p-2 rounded-lg border shadow-sm transition ${isDarkMode ? 'bg-gray-800 border-gray-700 hover:bg-gray-700' : 'bg-white border-gray-200 hover:bg-gray-100'}`}
+                  >
+                    {/* Latest radar frame over the radar's map */}
+                    <div className="relative w-24 h-24 shrink-0 rounded overflow-hidden bg-gray-300">
+                      {summary && (
+                        <img
+                          src={getTransparencyUrl(summary.overlayProductId, 'background')}
+                          alt=""
+                          className="absolute inset-0 w-full h-full object-cover"
+                        />
+                      )}
+                      {summary?.radarImage && (
+                        <>
+                          <img
+                            src={summary.radarImage.url}
+                            alt={`Latest radar for ${favourite.name}`}
+                            className="absolute inset-0 w-full h-full object-cover"
+                          />
+                          <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-black/60 text-white rounded-tl">
+                            {formatTimestampTime(summary.radarImage.timestamp)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-w-0 text-sm">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <h2 className="font-semibold truncate">{favourite.name}</h2>
+                        <span className={`text-xs ${mutedClass}`}>{favourite.state}</span>
+                      </div>
+
+                      {!card && <p className={`mt-1 text-xs ${mutedClass}`}>Loading...</p>}
+                      {card?.status === 'error' && <p className="mt-1 text-xs text-red-500">{card.message}</p>}
+
+                      {summary && (
+                        <>
+                          <div className="flex items-center gap-2 mt-1">
+                            <span className="text-xl">{getWeatherIcon(today?.icon_descriptor)}</span>
+                            <span className="text-xl font-bold">{formatTemperature(currentTemp, units.temperature)}</span>
+                          </div>
+                          <div className={`flex flex-wrap gap-x-3 text-xs ${mutedClass}`}>
+                            <span>
+                              {formatTemperature(today?.temp_min, units.temperature)} / {formatTemperature(today?.temp_max, units.temperature)}
+                            </span>
+                            {today?.rain?.chance !== undefined && <span>💧 {today.rain.chance}%</span>}
+                          </div>
+
+                          {summary.warnings.length > 0 && (
+                            <p
+                              className={`mt-1 px-1.5 py-0.5 rounded text-xs truncate ${SEVERITY_CLASSES[getWarningSeverity(summary.warnings[0])]}`}
+                              title={summary.warnings.map((warning) => warning.title).join('\n')}
+                            >
+                              ⚠️ {summary.warnings[0].short_title || summary.warnings[0].title}
+                              {summary.warnings.length > 1 && ` +${summary.warnings.length - 1} more`}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+}
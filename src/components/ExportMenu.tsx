@@ -0,0 +1,132 @@
+import { useState, useEffect, useRef } from 'react';
+import { RadarImage, RadarOverlays, RadarPlayback } from '../types/radar';
+import {
+  ExportFormat,
+  exportRadarLoop,
+  downloadBlob,
+  getFrameDelays,
+  isWebmExportSupported,
+} from '../utils/loopExport';
+
+interface ExportMenuProps {
+  images: RadarImage[];
+  overlayProductId: string;
+  overlays: RadarOverlays;
+  playback: RadarPlayback;
+  title: string;
+  filenameBase: string;
+  isDarkMode: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'gif', label: 'Animated GIF' },
+  { format: 'webm', label: 'WebM video' },
+  { format: 'png', label: 'PNG frames (zip)' },
+];
+
+export default function ExportMenu({
+  images,
+  overlayProductId,
+  overlays,
+  playback,
+  title,
+  filenameBase,
+  isDarkMode,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const isExporting = progress !== null;
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setError(null);
+    setProgress({ done: 0, total: images.length });
+
+    try {
+      const { blob, filename } = await exportRadarLoop(
+        {
+          format,
+          images,
+          overlayProductId,
+          overlays,
+          title,
+          delays: getFrameDelays(images, playback),
+          filenameBase,
+        },
+        (done, total) => setProgress({ done, total })
+      );
+      downloadBlob(blob, filename);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={images.length === 0 || isExporting}
+        className="px-3 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition text-sm font-medium disabled:opacity-60"
+        title={error ?? 'Export loop'}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {isExporting ? `Exporting ${progress.done}/${progress.total}` : '⬇ Export'}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className={`absolute bottom-full right-0 mb-1 z-50 min-w-[160px] rounded shadow-lg border py-1 text-sm ${isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-800'}`}
+        >
+          {FORMAT_OPTIONS.map(({ format, label }) => {
+            const isSupported = format !== 'webm' || isWebmExportSupported();
+            return (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => handleExport(format)}
+                disabled={!isSupported}
+                className={`block w-full text-left px-3 py-1.5 transition disabled:opacity-40 disabled:cursor-not-allowed ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+              >
+                {label}
+                {!isSupported && <span className="text-xs"> (not supported)</span>}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {error && !isOpen && (
+        <div
+          role="alert"
+          className={`absolute bottom-full right-0 mb-1 z-50 w-56 rounded border px-2 py-1 text-xs ${isDarkMode ? 'bg-red-900/80 border-red-800 text-red-200' : 'bg-red-50 border-red-200 text-red-700'}`}
+        >
+          {error}
+          <button onClick={() => setError(null)} className="ml-1 font-bold" aria-label="Dismiss export error">
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { HourlyForecast, UnitPreferences } from '../types/radar';
+import { formatHour, formatRainAmount, formatTemperature, getWeatherIcon } from '../utils/weatherApi';
+import { DEFAULT_UNITS, getWindSpeed } from '../utils/units';
+
+interface HourlyForecastChartProps {
+  hours: HourlyForecast[];
+  units?: UnitPreferences;
+  isDarkMode?: boolean;
+}
+
+const COLUMN_WIDTH = 48;
+const TEMP_CHART_HEIGHT = 56;
+const TEMP_LABEL_SPACE = 14; // Room above the highest point for its label
+const RAIN_BAR_HEIGHT = 24;
+const TEMP_LINE_COLOR = '#f97316'; // orange-500
+
+/**
+ * Scrollable hourly chart - a temperature line over rain chance bars,
+ * with wind and humidity for each hour
+ */
+export default function HourlyForecastChart({ hours, units = DEFAULT_UNITS, isDarkMode = false }: HourlyForecastChartProps) {
+  if (hours.length === 0) return null;
+
+  const width = hours.length * COLUMN_WIDTH;
+  const temps = hours.flatMap((hour) => (hour.temp !== undefined ? [hour.temp] : []));
+  const minTemp = Math.min(...temps);
+  const tempRange = Math.max(...temps) - minTemp || 1;
+
+  // Scale temperatures into the chart, leaving space for labels above the line
+  const points = hours.flatMap((hour, index) => {
+    if (hour.temp === undefined) return [];
+    const plotHeight = TEMP_CHART_HEIGHT - TEMP_LABEL_SPACE - 4;
+    return [{
+      x: index * COLUMN_WIDTH + COLUMN_WIDTH / 2,
+      y: TEMP_LABEL_SPACE + (1 - (hour.temp - minTemp) / tempRange) * plotHeight,
+      temp: hour.temp,
+    }];
+  });
+
+  const mutedClass = 'text-gray-500';
+  const valueClass = isDarkMode ? 'text-gray-200' : 'text-gray-900';
+
+  return (
+    <div className="mt-2">
+      <div
+        className="overflow-x-auto pb-1"
+        role="region"
+        aria-label="Hourly forecast"
+        tabIndex={0}
+      >
+        <div style={{ width }} className="text-[10px] leading-tight">
+          {/* Hour and conditions */}
+          <div className="flex">
+            {hours.map((hour, index) => (
+              <div key={hour.time} className="shrink-0 flex flex-col items-center" style={{ width: COLUMN_WIDTH }}>
+                <span className={mutedClass}>{index === 0 ? 'Now' : formatHour(hour.time)}</span>
+                <span className="text-base" title={hour.icon_descriptor?.replace(/_/g, ' ')}>
+                  {getWeatherIcon(hour.icon_descriptor)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Temperature line */}
+          <svg width={width} height={TEMP_CHART_HEIGHT} className="block" aria-hidden="true">
+            <polyline
+              points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+              fill="none"
+              stroke={TEMP_LINE_COLOR}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {points.map((point) => (
+              <g key={point.x}>
+                <circle cx={point.x} cy={point.y} r={2.5} fill={TEMP_LINE_COLOR} />
+                <text
+                  x={point.x}
+                  y={point.y - 5}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fontWeight={600}
+                  className={isDarkMode ? 'fill-gray-200' : 'fill-gray-900'}
+                >
+                  {formatTemperature(point.temp, units.temperature)}
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          {/* Rain chance bars */}
+          <div className="flex items-end" style={{ height: RAIN_BAR_HEIGHT }}>
+            {hours.map((hour) => (
+              <div key={hour.time} className="shrink-0 h-full flex items-end justify-center" style={{ width: COLUMN_WIDTH }}>
+                <div
+                  className="w-4 rounded-t bg-blue-500/70"
+                  style={{ height: `${hour.rain?.chance ?? 0}%` }}
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Rain chance and amount, wind, humidity */}
+          <div className="flex">
+            {hours.map((hour) => {
+              const rainAmount = formatRainAmount(hour.rain?.amount, units.rainfall);
+              return (
+                <div key={hour.time} className="shrink-0 flex flex-col items-center gap-0.5 pt-0.5" style={{ width: COLUMN_WIDTH }}>
+                  <span className="font-semibold text-blue-500">{hour.rain?.chance ?? 0}%</span>
+                  <span className={mutedClass}>{rainAmount ?? '\u00a0'}</span>
+                  <span className={valueClass}>
+                    {hour.wind?.direction ?? ''} {getWindSpeed(hour.wind, units.windSpeed) ?? '--'}
+                  </span>
+                  <span className={mutedClass}>
+                    {hour.relative_humidity !== undefined ? `${hour.relative_humidity}%` : '--'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <p className={`text-[10px] text-center ${mutedClass}`}>
+        Temperature · rain chance and amount · wind {units.windSpeed} · humidity
+      </p>
+    </div>
+  );
+}
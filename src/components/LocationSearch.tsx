@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Place } from '../types/radar';
+import { searchPostcodeLocalities } from '../utils/geolocation';
+import { MIN_SEARCH_LENGTH, fetchLocationSearch, localityToPlace, mergePlaces } from '../utils/locationSearch';
+
+interface LocationSearchProps {
+  onSelect: (place: Place) => void;
+  isDarkMode?: boolean;
+}
+
+const SEARCH_DELAY = 300; // ms after typing stops before asking BoM
+
+/**
+ * Search-as-you-type box for suburbs, towns and postcodes
+ * Matches from the bundled postcode data show straight away, BoM's
+ * search results are added once typing pauses
+ */
+export default function LocationSearch({ onSelect, isDarkMode = false }: LocationSearchProps) {
+  const [query, setQuery] = useState('');
+  const [localResults, setLocalResults] = useState<Place[]>([]);
+  const [remoteResults, setRemoteResults] = useState<Place[]>([]);
+  const [remoteQuery, setRemoteQuery] = useState(''); // The query remoteResults are for
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dropdownPosition, setDropdownPosition] = useState<{ top: number; left: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const trimmedQuery = query.trim();
+  const isSearching = trimmedQuery.length >= MIN_SEARCH_LENGTH && remoteQuery !== trimmedQuery;
+  // BoM's results for an earlier query would sit above matches for this one
+  const results = useMemo(
+    () => mergePlaces(remoteQuery === trimmedQuery ? remoteResults : [], localResults),
+    [remoteResults, remoteQuery, trimmedQuery, localResults]
+  );
+
+  // Local postcode data - no network, so search on every keystroke
+  useEffect(() => {
+    let cancelled = false;
+    searchPostcodeLocalities(trimmedQuery)
+      .then((localities) => {
+        if (!cancelled) setLocalResults(localities.map(localityToPlace));
+      })
+      .catch((error) => {
+        console.error('Failed to search postcode data:', error);
+        if (!cancelled) setLocalResults([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmedQuery]);
+
+  // BoM's search, once typing pauses
+  useEffect(() => {
+    if (trimmedQuery.length < MIN_SEARCH_LENGTH) {
+      setRemoteResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      fetchLocationSearch(trimmedQuery)
+        .then((data) => {
+          if (!cancelled) setRemoteResults(data.locations);
+        })
+        .catch(() => {
+          // The local results still work without the API
+          if (!cancelled) setRemoteResults([]);
+        })
+        .finally(() => {
+          if (!cancelled) setRemoteQuery(trimmedQuery);
+        });
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [trimmedQuery]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [results]);
+
+  // The header clips overflow, so the dropdown is fixed-positioned under the input
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const updatePosition = () => {
+      const rect = inputRef.current?.getBoundingClientRect();
+      if (rect) setDropdownPosition({ top: rect.bottom + 4, left: rect.left });
+    };
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    updatePosition();
+    window.addEventListener('resize', updatePosition);
+    document.addEventListener('mousedown', handleClick);
+    return () => {
+      window.removeEventListener('resize', updatePosition);
+      document.removeEventListener('mousedown', handleClick);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (place: Place) => {
+    onSelect(place);
+    setQuery('');
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      const place = results[activeIndex] ?? results[0];
+      if (place) {
+        e.preventDefault();
+        handleSelect(place);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showDropdown = isOpen && trimmedQuery.length >= 2 && dropdownPosition !== null;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div ref={containerRef} className="w-24 sm:w-40 md:w-52 shrink-0">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Suburb or postcode"
+        aria-label="Search for a suburb, town or postcode"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="location-search-results"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `location-search-result-${activeIndex}` : undefined}
+        className={`w-full px-2 py-1 text-xs md:text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-md ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'}`}
+      />
+
+      {showDropdown && (
+        <ul
+          id="location-search-results"
+          role="listbox"
+          style={{ top: dropdownPosition.top, left: dropdownPosition.left }}
+          className={`fixed z-30 w-64 max-w-[90vw] max-h-72 overflow-y-auto rounded shadow-lg border py-1 text-sm ${isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-800'}`}
+        >
+          {results.map((place, index) => (
+            <li
+              key={`${place.name}-${place.state}-${place.postcode}`}
+              id={`location-search-result-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()} // Keep focus in the input
+              onClick={() => handleSelect(place)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-1.5 cursor-pointer ${index === activeIndex ? (isDarkMode ? 'bg-gray-700' : 'bg-gray-100') : ''}`}
+            >
+              {place.name}
+              <span className={`ml-1 text-xs ${mutedClass}`}>
+                {place.state}{place.postcode ? ` ${place.postcode}` : ''}
+              </span>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className={`px-3 py-1.5 text-xs ${mutedClass}`}>
+              {isSearching ? 'Searching...' : trimmedQuery.length < MIN_SEARCH_LENGTH ? 'Keep typing...' : 'No places found'}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { ObservationSample, UnitPreferences } from '../types/radar';
+import { formatTemperature } from '../utils/weatherApi';
+import { DEFAULT_UNITS, formatRainfall, getWindSpeed } from '../utils/units';
+
+interface ObservationTrendsProps {
+  samples: ObservationSample[];
+  units?: UnitPreferences;
+  isDarkMode?: boolean;
+}
+
+interface Trend {
+  label: string;
+  color: string;
+  values: (number | undefined)[];
+  format: (value: number) => string;
+}
+
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_GAP_MS = 60 * 60 * 1000; // Break the line where the API wasn't recording
+const SPARK_WIDTH = 100; // viewBox units - the SVG stretches to fit
+const SPARK_HEIGHT = 24;
+
+/**
+ * Sparklines of the station's readings over the last 24 hours
+ */
+export default function ObservationTrends({ samples, units = DEFAULT_UNITS, isDarkMode = false }: ObservationTrendsProps) {
+  if (samples.length < 2) return null;
+
+  const times = samples.map((sample) => new Date(sample.time).getTime());
+  const end = times[times.length - 1];
+  const start = end - WINDOW_MS;
+
+  const trends: Trend[] = [
+    {
+      label: 'Temp',
+      color: '#f97316', // orange-500
+      values: samples.map((sample) => sample.temp),
+      format: (value) => formatTemperature(value, units.temperature),
+    },
+    {
+      label: 'Humidity',
+      color: '#14b8a6', // teal-500
+      values: samples.map((sample) => sample.humidity),
+      format: (value) => `${Math.round(value)}%`,
+    },
+    {
+      label: 'Wind',
+      color: '#6b7280', // gray-500
+      values: samples.map((sample) => getWindSpeed(sample.wind, units.windSpeed)),
+      format: (value) => `${value}${units.windSpeed}`,
+    },
+    {
+      label: 'Rain',
+      color: '#3b82f6', // blue-500
+      values: samples.map((sample) => sample.rain_since_9am),
+      format: (value) => `${formatRainfall(value, units.rainfall)}${units.rainfall}`,
+    },
+  ];
+
+  // Scale a trend into line segments, split wherever readings are missing
+  const getSegments = (values: (number | undefined)[]) => {
+    const defined = values.filter((value): value is number => value !== undefined);
+    const min = Math.min(...defined);
+    const range = Math.max(...defined) - min || 1;
+
+    const segments: string[][] = [];
+    let current: string[] = [];
+    values.forEach((value, index) => {
+      const gap = index > 0 && times[index] - times[index - 1] > MAX_GAP_MS;
+      if (value === undefined || gap) {
+        if (current.length) segments.push(current);
+        current = [];
+      }
+      if (value === undefined) return;
+
+      const x = ((times[index] - start) / WINDOW_MS) * SPARK_WIDTH;
+      const y = SPARK_HEIGHT - 2 - ((value - min) / range) * (SPARK_HEIGHT - 4);
+      current.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    });
+    if (current.length) segments.push(current);
+
+    return segments;
+  };
+
+  const mutedClass = 'text-gray-500';
+  const valueClass = isDarkMode ? 'text-gray-200' : 'text-gray-900';
+
+  return (
+    <div className="mt-2" role="region" aria-label="Last 24 hours at the station">
+      <p className={`text-[10px] text-center mb-1 ${mutedClass}`}>Last 24 hours at the station</p>
+      <div className="space-y-1 text-[10px]">
+        {trends.map((trend) => {
+          const defined = trend.values.filter((value): value is number => value !== undefined);
+          if (defined.length < 2) return null;
+
+          const latest = defined[defined.length - 1];
+          return (
+            <div key={trend.label} className="grid grid-cols-[3.5rem_1fr_auto] items-center gap-2">
+              <span className={mutedClass}>{trend.label}</span>
+              <svg
+                viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+                preserveAspectRatio="none"
+                className="w-full h-6"
+                aria-hidden="true"
+              >
+                {getSegments(trend.values).map((segment) => (
+                  <polyline
+                    key={segment[0]}
+                    points={segment.join(' ')}
+                    fill="none"
+                    stroke={trend.color}
+                    strokeWidth={1.5}
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </svg>
+              <span className="text-right whitespace-nowrap">
+                <span className={`font-semibold ${valueClass}`}>{trend.format(latest)}</span>
+                <span className={mutedClass}>
+                  {' '}({trend.format(Math.min(...defined))}-{trend.format(Math.max(...defined))})
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { RadarImage, RadarOverlays } from '../types/radar';
+import { ImagePosition } from '../utils/radarProjection';
+import { PanZoomTransform } from '../utils/panZoom';
+import { getTransparencyUrl } from '../utils/radarApi';
+
+interface RadarLayersProps {
+  overlayProductId: string; // Rain product whose transparencies (map, range rings...) are drawn
+  overlays: RadarOverlays;
+  image?: RadarImage;
+  imageAlt: string;
+  userPosition: ImagePosition | null;
+  transform: PanZoomTransform;
+}
+
+/**
+ * The BoM radar layer stack - map transparencies around one radar frame
+ * Every layer shares one pan/zoom transform so they stay aligned
+ */
+export default function RadarLayers({
+  overlayProductId,
+  overlays,
+  image,
+  imageAlt,
+  userPosition,
+  transform,
+}: RadarLayersProps) {
+  return (
+    <div
+      className="absolute inset-0"
+      style={{
+        transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+        transformOrigin: '0 0',
+      }}
+    >
+      {/* Base layers - UNDER the radar image */}
+      {overlays.background && (
+        <img
+          src={getTransparencyUrl(overlayProductId, 'background')}
+          crossOrigin="anonymous"
+          alt="Background overlay"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ zIndex: 1, objectPosition: 'center' }}
+        />
+      )}
+      {overlays.topography && (
+        <img
+          src={getTransparencyUrl(overlayProductId, 'topography')}
+          crossOrigin="anonymous"
+          alt="Topography overlay"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ zIndex: 2, objectPosition: 'center' }}
+        />
+      )}
+      {overlays.catchments && (
+        <img
+          src={getTransparencyUrl(overlayProductId, 'catchments')}
+          crossOrigin="anonymous"
+          alt="Catchments overlay"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ zIndex: 3, objectPosition: 'center' }}
+        />
+      )}
+
+      {/* Radar image - the rain data */}
+      {image && (
+        <img
+          src={image.url}
+          crossOrigin="anonymous"
+          alt={imageAlt}
+          className="absolute inset-0 w-full h-full object-contain block pointer-events-none"
+          draggable={false}
+          style={{ zIndex: 4, objectPosition: 'center' }}
+        />
+      )}
+
+      {/* Top layers - ON TOP of the radar image */}
+      {overlays.range && (
+        <img
+          src={getTransparencyUrl(overlayProductId, 'range')}
+          crossOrigin="anonymous"
+          alt="Range rings overlay"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ zIndex: 5, objectPosition: 'center' }}
+        />
+      )}
+      {overlays.locations && (
+        <img
+          src={getTransparencyUrl(overlayProductId, 'locations')}
+          crossOrigin="anonymous"
+          alt="Locations overlay"
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ zIndex: 6, objectPosition: 'center' }}
+        />
+      )}
+
+      {/* You are here marker - counter-scaled so it stays the same size when zoomed */}
+      {userPosition && (
+        <div
+          className="absolute pointer-events-none"
+          style={{
+            zIndex: 7,
+            left: `${userPosition.x * 100}%`,
+            top: `${userPosition.y * 100}%`,
+            transform: `translate(-50%, -50%) scale(${1 / transform.scale})`,
+          }}
+          title="You are here"
+        >
+          <div className="absolute inset-0 w-3 h-3 rounded-full bg-blue-500 animate-ping opacity-75" />
+          <div className="relative w-3 h-3 rounded-full bg-blue-600 border-2 border-white shadow" />
+        </div>
+      )}
+    </div>
+  );
+}
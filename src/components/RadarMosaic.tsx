@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { RadarImage, RadarRange, RadarPlayback } from '../types/radar';
+import {
+  fetchRadarImages,
+  formatTimestamp,
+  buildProductId,
+  getProductRangeKm,
+  getTransparencyUrl,
+} from '../utils/radarApi';
+import { preloadFrames, evictFramesBefore, getCachedFrame } from '../utils/frameCache';
+import {
+  MosaicScope,
+  MOSAIC_SCOPES,
+  NATIONAL_SCOPE_ID,
+  NATIONAL_PRODUCT_ID,
+  getMosaicRadars,
+  alignFrameTimes,
+  getRadarBounds,
+  mergeBounds,
+  getMosaicCanvasSize,
+  boundsToCanvasRect,
+} from '../utils/mosaic';
+import { usePanZoom } from '../hooks/usePanZoom';
+import RadarTimeline from './RadarTimeline';
+import RainLegend from './RainLegend';
+
+interface RadarMosaicProps {
+  scope: MosaicScope;
+  onScopeChange: (scope: MosaicScope) => void;
+  selectedRange: RadarRange;
+  isDarkMode: boolean;
+  playback: RadarPlayback;
+}
+
+// Longest side of the composited canvas in pixels
+const MOSAIC_CANVAS_SIZE = 1024;
+
+// The national composite is a single 512px BoM product
+const NATIONAL_CANVAS_SIZE = 512;
+
+export default function RadarMosaic({
+  scope,
+  onScopeChange,
+  selectedRange,
+  isDarkMode,
+  playback,
+}: RadarMosaicProps) {
+  const [loops, setLoops] = useState<RadarImage[][]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [preloadProgress, setPreloadProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const latestRequestRef = useRef(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const isNational = scope.id === NATIONAL_SCOPE_ID;
+  const radars = useMemo(() => getMosaicRadars(scope), [scope]);
+
+  // One product per radar at the selected range, or the single national composite
+  const productIds = useMemo(
+    () => isNational
+      ? [NATIONAL_PRODUCT_ID]
+      : radars.map((radar) => buildProductId(radar.baseId, 'rain', selectedRange)),
+    [isNational, radars, selectedRange]
+  );
+
+  // Geographic extent of each radar image and of the whole mosaic
+  const layout = useMemo(() => {
+    const rangeKm = productIds[0] ? getProductRangeKm(productIds[0]) : null;
+    if (isNational || !rangeKm) return null;
+
+    const radarBounds = radars.map((radar) => getRadarBounds(radar, rangeKm));
+    const bounds = mergeBounds(radarBounds);
+    if (!bounds) return null;
+
+    return { radarBounds, bounds, size: getMosaicCanvasSize(bounds, MOSAIC_CANVAS_SIZE) };
+  }, [isNational, radars, productIds]);
+
+  const canvasSize = layout?.size ?? { width: NATIONAL_CANVAS_SIZE, height: NATIONAL_CANVAS_SIZE };
+
+  // Fetch and preload every radar's loop - radars that fail are left out of the mosaic
+  const loadLoops = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const requestId = ++latestRequestRef.current;
+    const progress = productIds.map(() => ({ loaded: 0, total: 0 }));
+
+    const results = await Promise.allSettled(
+      productIds.map(async (productId, index) => {
+        const images = await fetchRadarImages(productId);
+        return preloadFrames(images, (loaded, total) => {
+          progress[index] = { loaded, total };
+          if (requestId === latestRequestRef.current) {
+            setPreloadProgress(progress.reduce(
+              (sum, entry) => ({ loaded: sum.loaded + entry.loaded, total: sum.total + entry.total }),
+              { loaded: 0, total: 0 }
+            ));
+          }
+        });
+      })
+    );
+
+    if (requestId !== latestRequestRef.current) return;
+
+    const nextLoops = results.map((result) => (result.status === 'fulfilled' ? result.value : []));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn(`Mosaic radar ${productIds[index]} unavailable:`, result.reason);
+      }
+    });
+
+    const firstTimestamps = nextLoops.filter((loop) => loop.length > 0).map((loop) => loop[0].timestamp);
+    if (firstTimestamps.length === 0) {
+      setError('Failed to load radar data for this area. Please try again later.');
+    } else {
+      // Drop frames that have fallen out of every loop
+      evictFramesBefore(firstTimestamps.sort()[0]);
+    }
+
+    setLoops(nextLoops);
+    setIsLoading(false);
+    setPreloadProgress(null);
+  }, [productIds]);
+
+  // Fetch on mount and when the scope or range changes, then refresh every 5 minutes
+  useEffect(() => {
+    loadLoops();
+    const interval = setInterval(loadLoops, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [loadLoops]);
+
+  // Match each radar's scans into shared time slots
+  const mosaicFrames = useMemo(() => {
+    const frames = alignFrameTimes(loops);
+    if (!playback.frameCount || playback.frameCount >= frames.length) return frames;
+    return frames.slice(-playback.frameCount);
+  }, [loops, playback.frameCount]);
+
+  // The timeline only needs the slot times
+  const timelineImages = useMemo(
+    (): RadarImage[] => mosaicFrames.map((frame) => ({ url: '', timestamp: frame.timestamp })),
+    [mosaicFrames]
+  );
+
+  // Jump to the most recent slot whenever the loop changes
+  useEffect(() => {
+    setCurrentIndex(Math.max(mosaicFrames.length - 1, 0));
+  }, [mosaicFrames]);
+
+  // Animation loop - holds the newest slot for the dwell time
+  useEffect(() => {
+    if (!isPlaying || mosaicFrames.length === 0) return;
+
+    const isLatestFrame = currentIndex === mosaicFrames.length - 1;
+    const delay = playback.frameDuration + (isLatestFrame ? playback.latestDwell : 0);
+
+    const timeout = setTimeout(() => {
+      setCurrentIndex((prev) => (prev + 1) % mosaicFrames.length);
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, mosaicFrames.length, currentIndex, playback.frameDuration, playback.latestDwell]);
+
+  const handleSeek = useCallback((index: number) => {
+    // Scrubbing takes over from playback
+    setIsPlaying(false);
+    setCurrentIndex(index);
+  }, []);
+
+  const currentFrame = mosaicFrames[currentIndex];
+
+  // Composite the current slot onto the canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (!layout) {
+      const image = currentFrame?.frames[0] && getCachedFrame(currentFrame.frames[0].url);
+      if (image) context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    // Coverage circles underneath, so areas without radar are obvious
+    context.fillStyle = isDarkMode ? 'rgba(55, 65, 81, 0.6)' : 'rgba(229, 231, 235, 0.8)';
+    layout.radarBounds.forEach((radarBounds) => {
+      const rect = boundsToCanvasRect(radarBounds, layout.bounds, canvas);
+      context.beginPath();
+      context.ellipse(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / 2, rect.height / 2, 0, 0, Math.PI * 2);
+      context.fill();
+    });
+
+    // Radar frames - where coverage overlaps, later radars draw over earlier ones
+    currentFrame?.frames.forEach((frame, index) => {
+      const image = frame && getCachedFrame(frame.url);
+      if (!image) return;
+      const rect = boundsToCanvasRect(layout.radarBounds[index], layout.bounds, canvas);
+      context.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+    });
+
+    // Radar sites and names on top
+    context.font = '14px sans-serif';
+    context.textBaseline = 'middle';
+    radars.forEach((radar, index) => {
+      const rect = boundsToCanvasRect(layout.radarBounds[index], layout.bounds, canvas);
+      const x = rect.x + rect.width / 2;
+      const y = rect.y + rect.height / 2;
+
+      context.fillStyle = loops[index]?.length ? (isDarkMode ? '#e5e7eb' : '#1f2937') : '#9ca3af';
+      context.beginPath();
+      context.arc(x, y, 3, 0, Math.PI * 2);
+      context.fill();
+      context.fillText(radar.name, x + 6, y);
+    });
+  }, [currentFrame, layout, radars, loops, isDarkMode, canvasSize.width, canvasSize.height]);
+
+  const { ref: viewportRef, transform, isZoomed, reset: resetZoom, handlers: panZoomHandlers } =
+    usePanZoom<HTMLDivElement>();
+
+  // A different area needs a fresh view
+  useEffect(() => {
+    resetZoom();
+  }, [scope, resetZoom]);
+
+  const availableRadars = loops.filter((loop) => loop.length > 0).length;
+
+  return (
+    <div className="h-full flex flex-col items-center">
+      {/* Mosaic area picker */}
+      <div className="w-full lg:max-w-4xl px-2 pt-1 flex items-center justify-center gap-2 text-xs">
+        <label htmlFor="mosaic-scope" className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+          Mosaic
+        </label>
+        <select
+          id="mosaic-scope"
+          value={scope.id}
+          onChange={(e) => {
+            const next = MOSAIC_SCOPES.find((option) => option.id === e.target.value);
+            if (next) onScopeChange(next);
+          }}
+          className={`px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+        >
+          {MOSAIC_SCOPES.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        {!isNational && !isLoading && loops.length > 0 && (
+          <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+            {availableRadars} of {radars.length} radars
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 w-full min-h-0 flex flex-col items-center justify-center p-1 md:p-2 lg:p-4">
+        <div
+          ref={viewportRef}
+          {...panZoomHandlers}
+          className={`relative max-w-full max-h-full rounded shadow-2xl overflow-hidden touch-none select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''} ${isDarkMode ? 'bg-gray-900' : 'bg-gray-50'}`}
+          style={{
+            aspectRatio: `${canvasSize.width} / ${canvasSize.height}`,
+            height: canvasSize.height >= canvasSize.width ? '100%' : undefined,
+            width: canvasSize.width > canvasSize.height ? '100%' : undefined,
+            maxHeight: 'calc(100vh - 200px)', // Account for header, picker and controls
+          }}
+        >
+          {isLoading && (
+            <div className="absolute top-2 right-2 z-50 flex items-center gap-2 px-2 py-1 bg-black/50 backdrop-blur-sm rounded text-[10px] text-white">
+              <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
+              {preloadProgress && preloadProgress.total > 0
+                ? `Loading frames ${preloadProgress.loaded}/${preloadProgress.total}`
+                : 'Loading...'}
+            </div>
+          )}
+
+          {isZoomed && (
+            <button
+              onClick={resetZoom}
+              onPointerDown={(e) => e.stopPropagation()}
+              className="absolute top-2 left-2 z-50 h-7 px-1.5 bg-black/50 backdrop-blur-sm rounded text-white text-[10px] font-medium hover:bg-black/70 transition"
+              title="Reset zoom"
+            >
+              Reset
+            </button>
+          )}
+
+          <div
+            className="absolute inset-0"
+            style={{
+              transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+              transformOrigin: '0 0',
+            }}
+          >
+            {isNational && (
+              <img
+                src={getTransparencyUrl(NATIONAL_PRODUCT_ID, 'background')}
+                alt="Background overlay"
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+              />
+            )}
+            <canvas
+              ref={canvasRef}
+              width={canvasSize.width}
+              height={canvasSize.height}
+              className="absolute inset-0 w-full h-full"
+            />
+            {isNational && (
+              <img
+                src={getTransparencyUrl(NATIONAL_PRODUCT_ID, 'locations')}
+                alt="Locations overlay"
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+              />
+            )}
+          </div>
+
+          <div className="absolute bottom-2 left-2 z-50 px-2 py-1 bg-black/40 backdrop-blur-sm rounded text-white text-xs md:text-sm">
+            {currentFrame ? (
+              <>
+                <div className="font-bold">{formatTimestamp(currentFrame.timestamp)}</div>
+                <div className="opacity-80">Frame {currentIndex + 1} / {mosaicFrames.length}</div>
+              </>
+            ) : (
+              <div>{error ?? 'Loading...'}</div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <RadarTimeline
+        images={timelineImages}
+        currentIndex={currentIndex}
+        onSeek={handleSeek}
+        isDarkMode={isDarkMode}
+      />
+
+      <div className="w-full lg:max-w-4xl px-2 py-1 flex items-center justify-center gap-1 md:gap-2">
+        <button
+          onClick={() => setIsPlaying(!isPlaying)}
+          disabled={mosaicFrames.length <= 1}
+          className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition text-sm font-bold min-w-[100px]"
+        >
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+      </div>
+
+      {/* Rain Rate Legend - Mobile/Tablet Only */}
+      <div className="lg:hidden w-full px-4">
+        <RainLegend isDarkMode={isDarkMode} inline={true} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useRef, useState, useMemo } from 'react';
+import { RadarImage } from '../types/radar';
+import { formatTimestamp, formatTimestampTime, findTimestampGaps } from '../utils/radarApi';
+
+interface RadarTimelineProps {
+  images: RadarImage[];
+  currentIndex: number;
+  onSeek: (index: number) => void;
+  isDarkMode: boolean;
+}
+
+export default function RadarTimeline({
+  images,
+  currentIndex,
+  onSeek,
+  isDarkMode,
+}: RadarTimelineProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Forecast frames are spaced differently, so only look for gaps between observed scans
+  const gapIndices = useMemo(
+    () => new Set(findTimestampGaps(images.filter((image) => !image.isForecast))),
+    [images]
+  );
+  const firstForecastIndex = images.findIndex((image) => image.isForecast);
+
+  if (images.length === 0) return null;
+
+  const lastIndex = images.length - 1;
+  const positionOf = (index: number) => (lastIndex === 0 ? 50 : (index / lastIndex) * 100);
+
+  // Snap a pointer position on the track to the nearest frame
+  const indexFromClientX = (clientX: number): number => {
+    const track = trackRef.current;
+    if (!track || lastIndex === 0) return 0;
+
+    const rect = track.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return Math.round(fraction * lastIndex);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    setIsDragging(true);
+    onSeek(indexFromClientX(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDragging) return;
+    const index = indexFromClientX(e.clientX);
+    if (index !== currentIndex) onSeek(index);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+    setIsDragging(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowDown':
+        onSeek(Math.max(currentIndex - 1, 0));
+        break;
+      case 'ArrowRight':
+      case 'ArrowUp':
+        onSeek(Math.min(currentIndex + 1, lastIndex));
+        break;
+      case 'Home':
+        onSeek(0);
+        break;
+      case 'End':
+        onSeek(lastIndex);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const currentImage = images[currentIndex];
+
+  return (
+    <div className="w-full lg:max-w-4xl px-4 pt-1">
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="Radar timeline"
+        aria-valuemin={0}
+        aria-valuemax={lastIndex}
+        aria-valuenow={currentIndex}
+        aria-valuetext={currentImage ? formatTimestamp(currentImage.timestamp) : undefined}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        className="relative h-6 cursor-pointer touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+      >
+        {/* Track */}
+        <div className={`absolute left-0 right-0 top-1/2 h-1 -translate-y-1/2 rounded-full ${isDarkMode ? 'bg-gray-700' : 'bg-gray-300'}`} />
+
+        {/* Progress */}
+        <div
+          className="absolute left-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-blue-500"
+          style={{ width: `${positionOf(currentIndex)}%` }}
+        />
+
+        {/* Forecast section of the track */}
+        {firstForecastIndex > 0 && (
+          <div
+            className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full bg-purple-500/40"
+            style={{
+              left: `${positionOf(firstForecastIndex - 1)}%`,
+              width: `${100 - positionOf(firstForecastIndex - 1)}%`,
+            }}
+            title="Forecast"
+          />
+        )}
+
+        {/* Missed scans - highlight the stretch between the frames either side of the gap */}
+        {[...gapIndices].map((index) => (
+          <div
+            key={`gap-${index}`}
+            className="absolute top-1/2 h-1 -translate-y-1/2"
+            style={{
+              left: `${positionOf(index - 1)}%`,
+              width: `${positionOf(index) - positionOf(index - 1)}%`,
+              backgroundImage: 'repeating-linear-gradient(90deg, #f97316 0, #f97316 3px, transparent 3px, transparent 6px)',
+            }}
+            title="Missing scan(s)"
+          />
+        ))}
+
+        {/* Frame ticks */}
+        {images.map((image, index) => (
+          <div
+            key={image.timestamp}
+            className={`absolute top-1/2 w-0.5 h-3 -translate-x-1/2 -translate-y-1/2 ${image.isForecast ? 'bg-purple-500' : index <= currentIndex ? 'bg-blue-500' : isDarkMode ? 'bg-gray-500' : 'bg-gray-400'}`}
+            style={{ left: `${positionOf(index)}%` }}
+            title={`${image.isForecast ? 'Forecast: ' : ''}${formatTimestamp(image.timestamp)}`}
+          />
+        ))}
+
+        {/* Thumb */}
+        <div
+          className={`absolute top-1/2 w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-blue-600 border-2 shadow ${isDarkMode ? 'border-gray-900' : 'border-white'} ${isDragging ? 'scale-125' : ''} transition-transform`}
+          style={{ left: `${positionOf(currentIndex)}%` }}
+        />
+      </div>
+
+      {/* Tick labels */}
+      <div className={`relative h-4 text-[10px] ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {images.map((image, index) => {
+          // Always label the ends, thin out the middle on narrow screens
+          const isEnd = index === 0 || index === lastIndex;
+          const alignClass = lastIndex > 0 && index === 0 ? ''
+                           : lastIndex > 0 && index === lastIndex ? '-translate-x-full'
+                           : '-translate-x-1/2';
+          return (
+            <span
+              key={image.timestamp}
+              className={`absolute whitespace-nowrap ${alignClass} ${isEnd ? '' : 'hidden md:inline'} ${index === currentIndex ? 'font-bold text-blue-500' : image.isForecast ? 'text-purple-500' : ''}`}
+              style={{ left: `${positionOf(index)}%` }}
+            >
+              {formatTimestampTime(image.timestamp)}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,32 +1,92 @@
-import { useState, useEffect, useCallback } from 'react';
-import { RadarImage, RadarRange, RadarOverlays, RadarMode } from '../types/radar';
-import { fetchRadarImages, formatTimestamp, buildProductId } from '../utils/radarApi';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { RadarImage, RadarRange, RadarOverlays, RadarMode, RadarPlayback, RainNowcast, CompareLayout } from '../types/radar';
+import {
+  fetchRadarImages,
+  fetchRadarLoop,
+  formatTimestamp,
+  formatTimestampTime,
+  buildProductId,
+  getProductRangeKm,
+  parseTimestamp,
+  offsetTimestamp,
+} from '../utils/radarApi';
+import { projectToRadarImage, GeoPoint } from '../utils/radarProjection';
+import { preloadFrames, evictFramesBefore, getFramePixels } from '../utils/frameCache';
+import { createNowcast, estimateRainArrival, FORECAST_HORIZON_MINUTES } from '../utils/nowcast';
+import { pixelsToDataUrl } from '../utils/canvas';
+import { findClosestFrame } from '../utils/mosaic';
+import { findNearestRadars } from '../utils/geolocation';
+import { formatDataAsOf } from '../utils/weatherApi';
+import { radarLocations } from '../data/radarLocations';
+import { usePanZoom } from '../hooks/usePanZoom';
+import RadarLayers from './RadarLayers';
+import ExportMenu from './ExportMenu';
 import RainLegend from './RainLegend';
+import RadarTimeline from './RadarTimeline';
+import RainAtLocation from './RainAtLocation';
 
 interface RadarViewerProps {
   baseId: string;
+  radarName: string;
+  radarLat: number;
+  radarLng: number;
+  userLocation?: GeoPoint | null;
   isDarkMode: boolean;
   selectedRange: RadarRange;
   currentMode: RadarMode;
   dopplerProductId?: string;
   overlays: RadarOverlays;
+  playback: RadarPlayback;
   onError?: (error: string | null) => void;
+  onNowcast?: (nowcast: RainNowcast | null) => void;
 }
 
+// Something to show alongside the current product - another mode or a neighbouring radar
+interface CompareTarget {
+  key: string;
+  label: string;
+  baseId: string;
+  mode: RadarMode;
+  dopplerProductId?: string;
+  lat: number;
+  lng: number;
+}
+
+// Number of recent scans used to estimate rain motion
+const NOWCAST_FRAME_COUNT = 4;
+
+// Neighbouring radars offered for comparison
+const COMPARE_NEIGHBOUR_COUNT = 4;
+
 export function RadarViewer({
   baseId,
+  radarName,
+  radarLat,
+  radarLng,
+  userLocation,
   isDarkMode,
   selectedRange,
   currentMode,
   dopplerProductId,
   overlays,
-  onError
+  playback,
+  onError,
+  onNowcast
 }: RadarViewerProps) {
   const [images, setImages] = useState<RadarImage[]>([]);
+  const [forecastImages, setForecastImages] = useState<RadarImage[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [, setError] = useState<string | null>(null);
+  const [preloadProgress, setPreloadProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [compareLayout, setCompareLayout] = useState<CompareLayout | null>(null);
+  const [compareKey, setCompareKey] = useState<string | null>(null);
+  const [compareImages, setCompareImages] = useState<RadarImage[]>([]);
+  const [swipePosition, setSwipePosition] = useState(50); // Percent from the left
+  const [staleLoop, setStaleLoop] = useState<{ fetchedAt?: string } | null>(null);
+  const latestRequestRef = useRef(0);
+  const lastLoadRef = useRef<{ productId: string; fetchedAt: string } | null>(null);
 
   // Generate current product ID based on mode and range
   const currentProductId = buildProductId(baseId, currentMode, selectedRange, dopplerProductId);
@@ -37,17 +97,54 @@ export function RadarViewer({
     setError(null);
     onError?.(null); // Clear parent error state
 
+    // Ignore results from requests that were superseded (e.g. range changed mid-load)
+    const requestId = ++latestRequestRef.current;
+
     try {
-      const radarImages = await fetchRadarImages(currentProductId);
-      setImages(radarImages);
-      setCurrentIndex(radarImages.length - 1); // Start with most recent
+      const loop = await fetchRadarLoop(currentProductId);
+
+      // Download and decode every frame before animating - cached frames resolve instantly
+      const readyImages = await preloadFrames(loop.images, (loaded, total) => {
+        if (requestId === latestRequestRef.current) {
+          setPreloadProgress({ loaded, total });
+        }
+      });
+
+      if (requestId !== latestRequestRef.current) return;
+
+      if (readyImages.length === 0) {
+        throw new Error('No radar frames could be loaded');
+      }
+
+      // Drop frames that have fallen out of the loop
+      evictFramesBefore(readyImages[0].timestamp);
+
+      setImages(readyImages);
+      // The API serves its last loop, flagged as stale, while BoM is down
+      setStaleLoop(loop.stale ? { fetchedAt: loop.fetchedAt } : null);
+      lastLoadRef.current = {
+        productId: currentProductId,
+        fetchedAt: loop.fetchedAt ?? new Date().toISOString(),
+      };
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+
+      // A failed refresh keeps the frames we already have, flagged as out of date
+      if (lastLoadRef.current?.productId === currentProductId) {
+        setStaleLoop({ fetchedAt: lastLoadRef.current.fetchedAt });
+        console.error(err);
+        return;
+      }
+
       const errorMessage = 'Failed to load radar data. Please try again later.';
       setError(errorMessage);
       onError?.(errorMessage); // Notify parent of error
       console.error(err);
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+        setPreloadProgress(null);
+      }
     }
   }, [currentProductId, onError]);
 
@@ -63,24 +160,113 @@ export function RadarViewer({
     };
   }, [loadImages]);
 
-  // Animation loop
+  // Only loop the most recent frames if the user has limited the frame count
+  const loopImages = useMemo(() => {
+    if (!playback.frameCount || playback.frameCount >= images.length) return images;
+    return images.slice(-playback.frameCount);
+  }, [images, playback.frameCount]);
+
+  // The other mode of this radar, then the nearest neighbours (in the same mode where they support it)
+  const compareTargets = useMemo((): CompareTarget[] => {
+    const radar = { baseId, lat: radarLat, lng: radarLng };
+    const targets: CompareTarget[] = [];
+
+    if (currentMode === 'rain' && dopplerProductId) {
+      targets.push({ ...radar, key: 'doppler', label: 'Doppler wind (this radar)', mode: 'doppler', dopplerProductId });
+    } else if (currentMode === 'doppler') {
+      targets.push({ ...radar, key: 'rain', label: 'Rain (this radar)', mode: 'rain' });
+    }
+
+    findNearestRadars(radarLat, radarLng, radarLocations, COMPARE_NEIGHBOUR_COUNT + 1)
+      .filter((neighbour) => neighbour.baseId !== baseId)
+      .slice(0, COMPARE_NEIGHBOUR_COUNT)
+      .forEach((neighbour) => {
+        targets.push({
+          key: neighbour.baseId,
+          label: `${neighbour.name} (${neighbour.distance} km)`,
+          baseId: neighbour.baseId,
+          mode: currentMode === 'doppler' && neighbour.hasDoppler ? 'doppler' : 'rain',
+          dopplerProductId: neighbour.dopplerProductId,
+          lat: neighbour.lat,
+          lng: neighbour.lng,
+        });
+      });
+
+    return targets;
+  }, [baseId, radarLat, radarLng, currentMode, dopplerProductId]);
+
+  const compareTarget = compareLayout
+    ? compareTargets.find((target) => target.key === compareKey) ?? compareTargets[0]
+    : undefined;
+  const compareProductId = compareTarget
+    ? buildProductId(compareTarget.baseId, compareTarget.mode, selectedRange, compareTarget.dopplerProductId)
+    : null;
+
+  // Load the comparison loop alongside the main one
   useEffect(() => {
-    if (!isPlaying || images.length === 0) return;
+    if (!compareProductId) {
+      setCompareImages([]);
+      return;
+    }
 
-    const interval = setInterval(() => {
-      setCurrentIndex((prev) => (prev + 1) % images.length);
-    }, 500); // 500ms per frame for smooth animation
+    let cancelled = false;
+    const loadCompareImages = async () => {
+      try {
+        const readyImages = await preloadFrames(await fetchRadarImages(compareProductId));
+        if (!cancelled) setCompareImages(readyImages);
+      } catch (err) {
+        console.error('Failed to load comparison radar:', err);
+        if (!cancelled) setCompareImages([]);
+      }
+    };
 
-    return () => clearInterval(interval);
-  }, [isPlaying, images.length]);
+    loadCompareImages();
+    const interval = setInterval(loadCompareImages, 5 * 60 * 1000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [compareProductId]);
+
+  // Observed frames followed by any extrapolated forecast frames (comparisons only have observed scans)
+  const displayImages = useMemo(
+    () => (compareLayout ? loopImages : [...loopImages, ...forecastImages]),
+    [compareLayout, loopImages, forecastImages]
+  );
+
+  // Jump to the most recent observed frame whenever the loop changes
+  useEffect(() => {
+    setCurrentIndex(Math.max(loopImages.length - 1, 0));
+  }, [loopImages]);
+
+  // Animation loop - holds the newest observed frame for the dwell time
+  useEffect(() => {
+    if (!isPlaying || displayImages.length === 0) return;
+
+    const isLatestFrame = currentIndex === loopImages.length - 1;
+    const delay = playback.frameDuration + (isLatestFrame ? playback.latestDwell : 0);
+
+    const timeout = setTimeout(() => {
+      setCurrentIndex((prev) => (prev + 1) % displayImages.length);
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [isPlaying, displayImages.length, loopImages.length, currentIndex, playback.frameDuration, playback.latestDwell]);
 
   const handlePrevious = useCallback(() => {
-    setCurrentIndex((prev) => (prev - 1 + images.length) % images.length);
-  }, [images.length]);
+    setCurrentIndex((prev) => (prev - 1 + displayImages.length) % displayImages.length);
+  }, [displayImages.length]);
 
   const handleNext = useCallback(() => {
-    setCurrentIndex((prev) => (prev + 1) % images.length);
-  }, [images.length]);
+    setCurrentIndex((prev) => (prev + 1) % displayImages.length);
+  }, [displayImages.length]);
+
+  const handleSeek = useCallback((index: number) => {
+    // Scrubbing takes over from playback
+    setIsPlaying(false);
+    setCurrentIndex(index);
+  }, []);
 
   const handleLatest = useCallback(() => {
     // Refresh radar data to get latest images
@@ -89,7 +275,13 @@ export function RadarViewer({
     setIsPlaying(false);
   }, [loadImages]);
 
-  const currentImage = images[currentIndex];
+  const currentImage = displayImages[currentIndex];
+
+  // The comparison scan closest in time to the current frame
+  const compareImage = useMemo(
+    () => (compareLayout && currentImage ? findClosestFrame(compareImages, currentImage.timestamp) : null),
+    [compareLayout, compareImages, currentImage]
+  );
 
   // For overlays, always use the rain radar product ID (128km default)
   // Doppler products don't have overlay images, so we use the rain radar overlays
@@ -97,101 +289,316 @@ export function RadarViewer({
     ? `IDR${baseId}3` // 128km rain radar for overlays
     : currentProductId;
 
-  const transparencyBaseUrl = `https://reg.bom.gov.au/products/radar_transparencies/${overlayProductId}`;
+  // Where the user sits on the radar image (null when outside the current range)
+  const userPosition = useMemo(() => {
+    const rangeKm = getProductRangeKm(currentProductId);
+    if (!userLocation || !rangeKm) return null;
+    return projectToRadarImage({ lat: radarLat, lng: radarLng }, userLocation, rangeKm);
+  }, [userLocation, radarLat, radarLng, currentProductId]);
+
+  const compareOverlayProductId = compareTarget?.mode === 'doppler'
+    ? `IDR${compareTarget.baseId}3`
+    : compareProductId;
+
+  const compareUserPosition = useMemo(() => {
+    const rangeKm = compareProductId ? getProductRangeKm(compareProductId) : null;
+    if (!compareTarget || !userLocation || !rangeKm) return null;
+    return projectToRadarImage(compareTarget, userLocation, rangeKm);
+  }, [compareTarget, userLocation, compareProductId]);
+
+  const primaryLabel = currentMode === 'doppler' ? 'Doppler wind' : `Rain ${selectedRange} km`;
+
+  // Extrapolate recent rain motion into forecast frames (rain mode only)
+  useEffect(() => {
+    if (currentMode !== 'rain' || images.length < 2) {
+      setForecastImages([]);
+      onNowcast?.(null);
+      return;
+    }
+
+    // Defer the pixel crunching so it doesn't hold up the first paint of the loop
+    const timeout = setTimeout(() => {
+      try {
+        const recent = images.slice(-NOWCAST_FRAME_COUNT);
+        const frames = recent.flatMap((image) => {
+          const pixels = getFramePixels(image.url);
+          const time = parseTimestamp(image.timestamp)?.getTime();
+          return pixels && time !== undefined ? [{ time, pixels }] : [];
+        });
+
+        const nowcast = createNowcast(frames);
+        if (!nowcast) {
+          setForecastImages([]);
+          onNowcast?.(userPosition
+            ? { minutesUntilRain: null, level: null, horizonMinutes: FORECAST_HORIZON_MINUTES }
+            : null);
+          return;
+        }
+
+        const latestTimestamp = recent[recent.length - 1].timestamp;
+        setForecastImages(nowcast.frames.map((frame) => ({
+          url: pixelsToDataUrl(frame.pixels),
+          timestamp: offsetTimestamp(latestTimestamp, frame.minutesAhead),
+          isForecast: true,
+        })));
+
+        if (userPosition) {
+          const arrival = estimateRainArrival(nowcast, userPosition);
+          onNowcast?.({
+            minutesUntilRain: arrival?.minutes ?? null,
+            level: arrival?.level ?? null,
+            horizonMinutes: FORECAST_HORIZON_MINUTES,
+          });
+        } else {
+          onNowcast?.(null);
+        }
+      } catch (err) {
+        // Usually cross-origin frames we can't read pixels from
+        console.warn('Nowcast unavailable:', err);
+        setForecastImages([]);
+        onNowcast?.(null);
+      }
+    }, 0);
+
+    return () => clearTimeout(timeout);
+  }, [images, currentMode, userPosition, onNowcast]);
+
+  const { ref: viewportRef, transform, isZoomed, canZoomIn, zoomIn, zoomOut, reset: resetZoom, handlers: panZoomHandlers } =
+    usePanZoom<HTMLDivElement>();
+
+  // A different radar or range shows a different area, so start zoomed out
+  useEffect(() => {
+    resetZoom();
+  }, [currentProductId, resetZoom]);
+
+  const handleCompareLayoutChange = (layout: CompareLayout | null) => {
+    setCompareLayout(layout);
+    // Comparisons drop the forecast frames, so step back onto an observed one
+    setCurrentIndex((prev) => Math.min(prev, Math.max(loopImages.length - 1, 0)));
+  };
+
+  // Swipe divider follows the pointer across the viewport
+  const updateSwipePosition = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = e.currentTarget.parentElement;
+    if (!container) return;
+    const rect = container.getBoundingClientRect();
+    setSwipePosition(Math.min(Math.max(((e.clientX - rect.left) / rect.width) * 100, 0), 100));
+  };
+
+  const handleSwipeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      const step = e.key === 'ArrowLeft' ? -5 : 5;
+      setSwipePosition((prev) => Math.min(Math.max(prev + step, 0), 100));
+    }
+  };
+
+  const isSideBySide = compareLayout === 'side-by-side';
+  const viewportClass = `relative w-full ${isSideBySide ? '' : 'h-full'} max-w-full max-h-full rounded shadow-2xl overflow-hidden touch-none select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : ''} ${isDarkMode ? 'bg-gray-900' : 'bg-gray-50'}`;
+  const viewportStyle = {
+    aspectRatio: '1',
+    maxHeight: 'calc(100vh - 180px)' // Account for header and controls
+  };
+  const paneLabelClass = 'absolute top-2 z-40 px-1.5 py-0.5 bg-black/50 backdrop-blur-sm rounded text-white text-[10px] font-medium whitespace-nowrap pointer-events-none';
+  const selectClass = `px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`;
 
   return (
     <div className="h-full flex flex-col items-center">
       {/* Radar Image with Overlays - This should take maximum available space */}
       <div className="flex-1 w-full min-h-0 flex flex-col items-center justify-center p-1 md:p-2 lg:p-4">
-        <div 
-          className={`relative w-full h-full max-w-full max-h-full rounded shadow-2xl overflow-hidden ${isDarkMode ? 'bg-gray-900' : 'bg-gray-50'}`} 
-          style={{ 
-            aspectRatio: '1',
-            maxHeight: 'calc(100vh - 180px)' // Account for header and controls
-          }}
-        >
-          {/* Subtle loading indicator overlay */}
-          {isLoading && (
-            <div className="absolute top-2 right-2 z-50 flex items-center gap-2 px-2 py-1 bg-black/50 backdrop-blur-sm rounded text-[10px] text-white">
-              <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
-              Loading...
+        {/* Side-by-side puts both panes in a grid; otherwise this wrapper doesn't affect layout */}
+        <div className={isSideBySide ? 'w-full grid grid-cols-2 gap-1 md:gap-2 items-center' : 'contents'}>
+          <div
+            ref={viewportRef}
+            {...panZoomHandlers}
+            className={viewportClass}
+            style={viewportStyle}
+          >
+            {/* Subtle loading indicator overlay */}
+            {isLoading && (
+              <div className="absolute top-2 right-2 z-50 flex items-center gap-2 px-2 py-1 bg-black/50 backdrop-blur-sm rounded text-[10px] text-white">
+                <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
+                {preloadProgress && preloadProgress.total > 0
+                  ? `Loading frames ${preloadProgress.loaded}/${preloadProgress.total}`
+                  : 'Loading...'}
+              </div>
+            )}
+
+            {/* Out of date data banner */}
+            {staleLoop && !isLoading && (
+              <div
+                role="status"
+                className="absolute top-2 left-1/2 -translate-x-1/2 z-50 px-2 py-1 bg-amber-500/90 backdrop-blur-sm rounded text-[10px] md:text-xs font-medium text-white whitespace-nowrap pointer-events-none"
+              >
+                ⚠️ {formatDataAsOf(staleLoop.fetchedAt)} - BoM isn't responding
+              </div>
+            )}
+
+            {/* Zoom controls - stop pointer events reaching the viewport so clicks don't pan */}
+            <div
+              className="absolute top-2 left-2 z-50 flex flex-col gap-1"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <button
+                onClick={zoomIn}
+                disabled={!canZoomIn}
+                className="w-7 h-7 flex items-center justify-center bg-black/50 backdrop-blur-sm rounded text-white text-sm font-bold hover:bg-black/70 transition disabled:opacity-40"
+                title="Zoom in"
+                aria-label="Zoom in"
+              >
+                +
+              </button>
+              <button
+                onClick={zoomOut}
+                disabled={!isZoomed}
+                className="w-7 h-7 flex items-center justify-center bg-black/50 backdrop-blur-sm rounded text-white text-sm font-bold hover:bg-black/70 transition disabled:opacity-40"
+                title="Zoom out"
+                aria-label="Zoom out"
+              >
+                −
+              </button>
+              {isZoomed && (
+                <button
+                  onClick={resetZoom}
+                  className="h-7 px-1.5 flex items-center justify-center bg-black/50 backdrop-blur-sm rounded text-white text-[10px] font-medium hover:bg-black/70 transition"
+                  title="Reset zoom"
+                >
+                  Reset
+                </button>
+              )}
             </div>
-          )}
 
-          {/* Base layers - UNDER the radar image */}
-          {overlays.background && (
-            <img
-              src={`${transparencyBaseUrl}.background.png`}
-              alt="Background overlay"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-              style={{ zIndex: 1, objectPosition: 'center' }}
+            <RadarLayers
+              overlayProductId={overlayProductId}
+              overlays={overlays}
+              image={currentImage}
+              imageAlt={`Radar loop frame ${currentIndex + 1}`}
+              userPosition={userPosition}
+              transform={transform}
             />
-          )}
-          {overlays.topography && (
-            <img
-              src={`${transparencyBaseUrl}.topography.png`}
-              alt="Topography overlay"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-              style={{ zIndex: 2, objectPosition: 'center' }}
-            />
-          )}
-          {overlays.catchments && (
-            <img
-              src={`${transparencyBaseUrl}.catchments.png`}
-              alt="Catchments overlay"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-              style={{ zIndex: 3, objectPosition: 'center' }}
-            />
-          )}
 
-          {/* Radar image - the rain data */}
-          {images.length > 0 && currentImage && (
-            <img
-              src={currentImage.url}
-              alt={`Radar loop frame ${currentIndex + 1}`}
-              className="absolute inset-0 w-full h-full object-contain block"
-              style={{ zIndex: 4, objectPosition: 'center' }}
-            />
-          )}
+            {isSideBySide && (
+              <div className={`${paneLabelClass} left-1/2 -translate-x-1/2`}>{primaryLabel}</div>
+            )}
 
-          {/* Top layers - ON TOP of the radar image */}
-          {overlays.range && (
-            <img
-              src={`${transparencyBaseUrl}.range.png`}
-              alt="Range rings overlay"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-              style={{ zIndex: 5, objectPosition: 'center' }}
-            />
-          )}
-          {overlays.locations && (
-            <img
-              src={`${transparencyBaseUrl}.locations.png`}
-              alt="Locations overlay"
-              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-              style={{ zIndex: 6, objectPosition: 'center' }}
-            />
-          )}
-          
-          {/* Time and Frame Info Overlay (instead of separate div) */}
-          <div className="absolute bottom-2 left-2 z-50 px-2 py-1 bg-black/40 backdrop-blur-sm rounded text-white text-xs md:text-sm">
-            {images.length > 0 && currentImage ? (
+            {/* Swipe comparison - the other product is revealed right of the divider */}
+            {compareLayout === 'swipe' && compareTarget && compareOverlayProductId && (
               <>
-                <div className="font-bold">{formatTimestamp(currentImage.timestamp)}</div>
-                <div className="opacity-80">Frame {currentIndex + 1} / {images.length}</div>
+                <div
+                  className="absolute inset-0 pointer-events-none"
+                  style={{ zIndex: 10, clipPath: `inset(0 0 0 ${swipePosition}%)` }}
+                >
+                  <RadarLayers
+                    overlayProductId={compareOverlayProductId}
+                    overlays={overlays}
+                    image={compareImage ?? undefined}
+                    imageAlt={`${compareTarget.label} radar frame`}
+                    userPosition={compareUserPosition}
+                    transform={transform}
+                  />
+                </div>
+
+                <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 20 }}>
+                  <div
+                    role="slider"
+                    tabIndex={0}
+                    aria-label="Comparison divider"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(swipePosition)}
+                    className="absolute top-0 bottom-0 w-6 -ml-3 flex justify-center cursor-ew-resize pointer-events-auto touch-none focus:outline-none"
+                    style={{ left: `${swipePosition}%` }}
+                    onPointerDown={(e) => {
+                      // Keep the divider drag from panning the map
+                      e.stopPropagation();
+                      e.currentTarget.setPointerCapture?.(e.pointerId);
+                      updateSwipePosition(e);
+                    }}
+                    onPointerMove={(e) => {
+                      if (e.currentTarget.hasPointerCapture?.(e.pointerId)) updateSwipePosition(e);
+                    }}
+                    onKeyDown={handleSwipeKeyDown}
+                  >
+                    <div className="w-0.5 h-full bg-white shadow" />
+                    <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white shadow flex items-center justify-center text-xs text-gray-700">
+                      ⇔
+                    </div>
+                  </div>
+                </div>
+
+                <div className={`${paneLabelClass} -translate-x-full -ml-2`} style={{ left: `${swipePosition}%` }}>
+                  {primaryLabel}
+                </div>
+                <div className={`${paneLabelClass} ml-2`} style={{ left: `${swipePosition}%` }}>
+                  {compareTarget.label}
+                </div>
               </>
-            ) : (
-              <div>Loading...</div>
             )}
+
+            {/* Time and Frame Info Overlay (instead of separate div) */}
+            <div className="absolute bottom-2 left-2 z-50 px-2 py-1 bg-black/40 backdrop-blur-sm rounded text-white text-xs md:text-sm">
+              {displayImages.length > 0 && currentImage ? (
+                <>
+                  {currentImage.isForecast && (
+                    <div className="inline-block mb-0.5 px-1.5 rounded bg-purple-600 text-[10px] font-bold uppercase tracking-wide">
+                      Forecast
+                    </div>
+                  )}
+                  <div className="font-bold">{formatTimestamp(currentImage.timestamp)}</div>
+                  <div className="opacity-80">Frame {currentIndex + 1} / {displayImages.length}</div>
+                  {compareTarget && (
+                    <div className="opacity-80">
+                      {compareTarget.label}: {compareImage ? formatTimestampTime(compareImage.timestamp) : 'no scan'}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div>Loading...</div>
+              )}
+            </div>
           </div>
+
+          {/* Side-by-side comparison pane - pans and zooms together with the main one */}
+          {isSideBySide && compareTarget && compareOverlayProductId && (
+            <div
+              ref={viewportRef}
+              {...panZoomHandlers}
+              className={viewportClass}
+              style={viewportStyle}
+            >
+              <RadarLayers
+                overlayProductId={compareOverlayProductId}
+                overlays={overlays}
+                image={compareImage ?? undefined}
+                imageAlt={`${compareTarget.label} radar frame`}
+                userPosition={compareUserPosition}
+                transform={transform}
+              />
+              <div className={`${paneLabelClass} left-1/2 -translate-x-1/2`}>{compareTarget.label}</div>
+              {!compareImage && (
+                <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+                  <span className="px-2 py-1 bg-black/50 rounded text-white text-xs">No scan near this time</span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Timeline Scrubber */}
+      <RadarTimeline
+        images={displayImages}
+        currentIndex={currentIndex}
+        onSeek={handleSeek}
+        isDarkMode={isDarkMode}
+      />
+
       {/* Playback Controls - Minimal padding */}
       <div className="w-full lg:max-w-4xl px-2 py-1 flex items-center justify-center gap-1 md:gap-2 flex-wrap">
         <button
           onClick={handlePrevious}
           className="p-2 md:px-4 md:py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition text-sm font-medium"
-          disabled={images.length <= 1}
+          disabled={displayImages.length <= 1}
           title="Previous Frame"
         >
           <span className="md:hidden">◀</span>
@@ -208,7 +615,7 @@ export function RadarViewer({
         <button
           onClick={handleNext}
           className="p-2 md:px-4 md:py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition text-sm font-medium"
-          disabled={images.length <= 1}
+          disabled={displayImages.length <= 1}
           title="Next Frame"
         >
           <span className="md:hidden">▶</span>
@@ -218,12 +625,56 @@ export function RadarViewer({
         <button
           onClick={handleLatest}
           className="px-3 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition text-sm font-medium"
-          disabled={images.length <= 1 || currentIndex === images.length - 1}
+          disabled={loopImages.length <= 1 || currentIndex === loopImages.length - 1}
         >
           Latest
         </button>
+
+        <ExportMenu
+          images={displayImages}
+          overlayProductId={overlayProductId}
+          overlays={overlays}
+          playback={playback}
+          title={`${radarName} - ${primaryLabel}`}
+          filenameBase={currentProductId}
+          isDarkMode={isDarkMode}
+        />
       </div>
 
+      {/* Compare with another mode or a neighbouring radar */}
+      <div className="w-full lg:max-w-4xl px-2 pb-1 flex items-center justify-center gap-2 text-xs">
+        <label htmlFor="compare-layout" className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+          Compare
+        </label>
+        <select
+          id="compare-layout"
+          value={compareLayout ?? 'off'}
+          onChange={(e) => handleCompareLayoutChange(e.target.value === 'off' ? null : e.target.value as CompareLayout)}
+          className={selectClass}
+        >
+          <option value="off">Off</option>
+          <option value="side-by-side">Side by side</option>
+          <option value="swipe">Swipe</option>
+        </select>
+        {compareLayout && compareTarget && (
+          <select
+            value={compareTarget.key}
+            onChange={(e) => setCompareKey(e.target.value)}
+            className={`${selectClass} min-w-0`}
+            aria-label="Compare with"
+          >
+            {compareTargets.map((target) => (
+              <option key={target.key} value={target.key}>{target.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Rain at the user's location - rain mode only, doppler colours are wind speeds */}
+      {currentMode === 'rain' && userPosition && (
+        <RainAtLocation images={images} position={userPosition} isDarkMode={isDarkMode} />
+      )}
+
       {/* Rain Rate Legend - Mobile/Tablet Only */}
       <div className="lg:hidden w-full px-4">
         <RainLegend isDarkMode={isDarkMode} inline={true} />
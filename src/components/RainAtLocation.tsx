@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import { RadarImage, RainCategory, RainLevel } from '../types/radar';
+import { parseTimestamp, formatTimestampTime } from '../utils/radarApi';
+import { getFramePixels } from '../utils/frameCache';
+import { sampleRainAt, getRainCategory, formatRainRate } from '../utils/rainIntensity';
+import { ImagePosition } from '../utils/radarProjection';
+
+interface RainAtLocationProps {
+  images: RadarImage[];
+  position: ImagePosition;
+  isDarkMode: boolean;
+}
+
+interface RainSample {
+  timestamp: string;
+  level: RainLevel | null;
+}
+
+const CATEGORY_LABELS: Record<RainCategory, string> = {
+  none: 'No rain',
+  light: 'Light',
+  moderate: 'Moderate',
+  heavy: 'Heavy',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export default function RainAtLocation({ images, position, isDarkMode }: RainAtLocationProps) {
+  // Sample every frame from the last hour - null means the pixels couldn't be read
+  const samples = useMemo((): RainSample[] | null => {
+    if (images.length === 0) return [];
+
+    const latestTime = parseTimestamp(images[images.length - 1].timestamp)?.getTime();
+    const recent = latestTime === undefined
+      ? images
+      : images.filter((image) => {
+          const time = parseTimestamp(image.timestamp)?.getTime();
+          return time !== undefined && latestTime - time <= HOUR_MS;
+        });
+
+    try {
+      return recent.flatMap((image) => {
+        const pixels = getFramePixels(image.url);
+        return pixels ? [{ timestamp: image.timestamp, level: sampleRainAt(pixels, position) }] : [];
+      });
+    } catch (error) {
+      console.warn('Unable to read radar pixels:', error);
+      return null;
+    }
+  }, [images, position]);
+
+  const containerClass = `rounded shadow-sm border px-2 py-1.5 text-xs ${isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-800'}`;
+
+  if (samples === null) {
+    return (
+      <div className="w-full lg:max-w-4xl px-4 pt-1">
+        <div className={containerClass}>
+          <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+            Rain readings at your location are unavailable for this radar
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  if (samples.length === 0) return null;
+
+  const latest = samples[samples.length - 1];
+  const rainyScans = samples.filter((sample) => sample.level).length;
+
+  return (
+    <div className="w-full lg:max-w-4xl px-4 pt-1">
+      <div className={containerClass}>
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold">Rain at your location over the last hour</span>
+          <span className="whitespace-nowrap">
+            Now: <span className="font-semibold">{CATEGORY_LABELS[getRainCategory(latest.level)]}</span>
+            {latest.level && (
+              <span className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}> ({formatRainRate(latest.level)})</span>
+            )}
+          </span>
+        </div>
+
+        {/* One cell per scan, coloured with the radar palette */}
+        <div className="flex gap-0.5 mt-1">
+          {samples.map((sample) => (
+            <div
+              key={sample.timestamp}
+              className={`flex-1 h-3 rounded-sm ${sample.level ? '' : isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`}
+              style={sample.level ? { backgroundColor: sample.level.color } : undefined}
+              title={`${formatTimestampTime(sample.timestamp)}: ${CATEGORY_LABELS[getRainCategory(sample.level)]}${sample.level ? ` (${formatRainRate(sample.level)})` : ''}`}
+            />
+          ))}
+        </div>
+
+        <div className={`flex justify-between mt-0.5 text-[10px] ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          <span>{formatTimestampTime(samples[0].timestamp)}</span>
+          <span>
+            {rainyScans === 0 ? 'Dry for the last hour' : `Rain in ${rainyScans} of ${samples.length} scans`}
+          </span>
+          <span>{formatTimestampTime(latest.timestamp)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { RAIN_PALETTE, RAIN_LEGEND_GROUPS } from '../data/rainPalette';
+import { formatRainRate } from '../utils/rainIntensity';
 
 interface RainLegendProps {
   isDarkMode?: boolean;
@@ -23,48 +25,21 @@ export default function RainLegend({ isDarkMode = false, inline = true }: RainLe
           Rain Rate Legend
         </div>
         <div className="flex flex-col gap-3 text-xs">
-          {/* Light */}
-          <div>
-            <div className={`font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Light</div>
-            <div className="flex gap-1 flex-wrap">
-              <div className="w-6 h-6 border border-gray-400" style={{ backgroundColor: '#f5f5ff' }} title="Light"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#b4b4ff' }} title="Light"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#7878ff' }} title="Light"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#1414ff' }} title="Light"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#00d8c3' }} title="Light"></div>
-            </div>
-          </div>
-
-          {/* Moderate */}
-          <div>
-            <div className={`font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Moderate</div>
-            <div className="flex gap-1 flex-wrap">
-              <div className="w-6 h-6" style={{ backgroundColor: '#009690' }} title="Moderate"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#006666' }} title="Moderate"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#ffff00' }} title="Moderate"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#ffc800' }} title="Moderate"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#ff9600' }} title="Moderate"></div>
-            </div>
-          </div>
-
-          {/* Heavy */}
-          <div>
-            <div className={`font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Heavy</div>
-            <div className="flex gap-1 flex-wrap">
-              <div className="w-6 h-6" style={{ backgroundColor: '#ff6400' }} title="Heavy"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#ff0000' }} title="Heavy"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#c80000' }} title="Heavy"></div>
-              <div className="w-6 h-6" style={{ backgroundColor: '#6b0000' }} title="Heavy"></div>
-            </div>
-          </div>
-
-          {/* Extreme */}
-          <div>
-            <div className={`font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Extreme</div>
-            <div className="flex gap-1 flex-wrap">
-              <div className="w-6 h-6" style={{ backgroundColor: '#280000' }} title="Extreme"></div>
+          {RAIN_LEGEND_GROUPS.map((group) => (
+            <div key={group}>
+              <div className={`font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{group}</div>
+              <div className="flex gap-1 flex-wrap">
+                {RAIN_PALETTE.filter((level) => level.group === group).map((level, index) => (
+                  <div
+                    key={level.color}
+                    className={`w-6 h-6 ${group === 'Light' && index === 0 ? 'border border-gray-400' : ''}`}
+                    style={{ backgroundColor: level.color }}
+                    title={`${group} (${formatRainRate(level)})`}
+                  ></div>
+                ))}
+              </div>
             </div>
-          </div>
+          ))}
         </div>
       </div>
     );
@@ -84,48 +59,21 @@ export default function RainLegend({ isDarkMode = false, inline = true }: RainLe
       {isExpanded && (
         <div className="px-2 py-1.5">
           <div className="flex flex-wrap items-center gap-2 text-xs">
-            {/* Light */}
-            <div className="flex items-center gap-1">
-              <span className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Light:</span>
-              <div className="flex gap-0.5">
-                <div className="w-4 h-4 border border-gray-400" style={{ backgroundColor: '#f5f5ff' }} title="Light"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#b4b4ff' }} title="Light"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#7878ff' }} title="Light"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#1414ff' }} title="Light"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#00d8c3' }} title="Light"></div>
+            {RAIN_LEGEND_GROUPS.map((group) => (
+              <div key={group} className="flex items-center gap-1">
+                <span className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{group}:</span>
+                <div className="flex gap-0.5">
+                  {RAIN_PALETTE.filter((level) => level.group === group).map((level, index) => (
+                    <div
+                      key={level.color}
+                      className={`w-4 h-4 ${group === 'Light' && index === 0 ? 'border border-gray-400' : ''}`}
+                      style={{ backgroundColor: level.color }}
+                      title={`${group} (${formatRainRate(level)})`}
+                    ></div>
+                  ))}
+                </div>
               </div>
-            </div>
-
-            {/* Moderate */}
-            <div className="flex items-center gap-1">
-              <span className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Moderate:</span>
-              <div className="flex gap-0.5">
-                <div className="w-4 h-4" style={{ backgroundColor: '#009690' }} title="Moderate"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#006666' }} title="Moderate"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#ffff00' }} title="Moderate"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#ffc800' }} title="Moderate"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#ff9600' }} title="Moderate"></div>
-              </div>
-            </div>
-
-            {/* Heavy */}
-            <div className="flex items-center gap-1">
-              <span className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Heavy:</span>
-              <div className="flex gap-0.5">
-                <div className="w-4 h-4" style={{ backgroundColor: '#ff6400' }} title="Heavy"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#ff0000' }} title="Heavy"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#c80000' }} title="Heavy"></div>
-                <div className="w-4 h-4" style={{ backgroundColor: '#6b0000' }} title="Heavy"></div>
-              </div>
-            </div>
-
-            {/* Extreme */}
-            <div className="flex items-center gap-1">
-              <span className={`font-medium ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Extreme:</span>
-              <div className="flex gap-0.5">
-                <div className="w-4 h-4" style={{ backgroundColor: '#280000' }} title="Extreme"></div>
-              </div>
-            </div>
+            ))}
           </div>
         </div>
       )}
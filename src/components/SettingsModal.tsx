@@ -1,11 +1,41 @@
 import { useEffect, useState } from 'react';
-import { RadarOverlays } from '../types/radar';
+import { FavouritePlace, RadarOverlays, RadarPlayback, UnitPreferences } from '../types/radar';
+import { radarLocations } from '../data/radarLocations';
+import { TEMPERATURE_UNIT_OPTIONS, WIND_SPEED_UNIT_OPTIONS, RAINFALL_UNIT_OPTIONS } from '../utils/units';
+import { MAX_FAVOURITE_NAME_LENGTH, cleanFavouriteName, moveFavourite, removeFavourite } from '../utils/favourites';
+
+const SPEED_OPTIONS = [
+  { label: '0.5x', value: 1000 },
+  { label: '1x', value: 500 },
+  { label: '2x', value: 250 },
+  { label: '4x', value: 125 },
+];
+
+const DWELL_OPTIONS = [
+  { label: 'None', value: 0 },
+  { label: '1 second', value: 1000 },
+  { label: '2 seconds', value: 2000 },
+  { label: '3 seconds', value: 3000 },
+];
+
+const FRAME_COUNT_OPTIONS = [
+  { label: 'All available', value: null },
+  { label: 'Last 4', value: 4 },
+  { label: 'Last 6', value: 6 },
+  { label: 'Last 10', value: 10 },
+];
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   overlays: RadarOverlays;
   onOverlaysChange: (overlays: RadarOverlays) => void;
+  playback: RadarPlayback;
+  onPlaybackChange: (playback: RadarPlayback) => void;
+  units: UnitPreferences;
+  onUnitsChange: (units: UnitPreferences) => void;
+  favourites: FavouritePlace[];
+  onFavouritesChange: (favourites: FavouritePlace[]) => void;
   isDarkMode: boolean;
   onDarkModeChange: (isDarkMode: boolean) => void;
 }
@@ -15,24 +45,43 @@ export default function SettingsModal({
   onClose,
   overlays,
   onOverlaysChange,
+  playback,
+  onPlaybackChange,
+  units,
+  onUnitsChange,
+  favourites,
+  onFavouritesChange,
   isDarkMode,
   onDarkModeChange,
 }: SettingsModalProps) {
   // Pending state - changes don't apply until modal closes
   const [pendingOverlays, setPendingOverlays] = useState(overlays);
+  const [pendingPlayback, setPendingPlayback] = useState(playback);
+  const [pendingUnits, setPendingUnits] = useState(units);
+  const [pendingFavourites, setPendingFavourites] = useState(favourites);
   const [pendingDarkMode, setPendingDarkMode] = useState(isDarkMode);
 
   // Initialize pending state when modal opens
   useEffect(() => {
     if (isOpen) {
       setPendingOverlays(overlays);
+      setPendingPlayback(playback);
+      setPendingUnits(units);
+      setPendingFavourites(favourites);
       setPendingDarkMode(isDarkMode);
     }
-  }, [isOpen, overlays, isDarkMode]);
+  }, [isOpen, overlays, playback, units, favourites, isDarkMode]);
 
   // Apply changes when closing
   const handleClose = () => {
     onOverlaysChange(pendingOverlays);
+    onPlaybackChange(pendingPlayback);
+    onUnitsChange(pendingUnits);
+    // Names left blank go back to what they were
+    onFavouritesChange(pendingFavourites.map((favourite) => ({
+      ...favourite,
+      name: cleanFavouriteName(favourite.name) || (favourites.find((f) => f.id === favourite.id)?.name ?? favourite.name),
+    })));
     onDarkModeChange(pendingDarkMode);
     onClose();
   };
@@ -183,6 +232,207 @@ export default function SettingsModal({
             </div>
           </div>
 
+          {/* Playback Section */}
+          <div>
+            <h3
+              className={`text-sm font-semibold uppercase tracking-wide mb-3 ${pendingDarkMode ? 'text-gray-400' : 'text-gray-600'
+                }`}
+            >
+              Playback
+            </h3>
+            <div className="space-y-2">
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Speed</span>
+                <select
+                  value={pendingPlayback.frameDuration}
+                  onChange={(e) =>
+                    setPendingPlayback({ ...pendingPlayback, frameDuration: Number(e.target.value) })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {SPEED_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Pause on latest frame</span>
+                <select
+                  value={pendingPlayback.latestDwell}
+                  onChange={(e) =>
+                    setPendingPlayback({ ...pendingPlayback, latestDwell: Number(e.target.value) })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {DWELL_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Frames in loop</span>
+                <select
+                  value={pendingPlayback.frameCount ?? ''}
+                  onChange={(e) =>
+                    setPendingPlayback({
+                      ...pendingPlayback,
+                      frameCount: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {FRAME_COUNT_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.value ?? ''}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          {/* Units Section */}
+          <div>
+            <h3
+              className={`text-sm font-semibold uppercase tracking-wide mb-3 ${pendingDarkMode ? 'text-gray-400' : 'text-gray-600'
+                }`}
+            >
+              Units
+            </h3>
+            <div className="space-y-2">
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Temperature</span>
+                <select
+                  value={pendingUnits.temperature}
+                  onChange={(e) =>
+                    setPendingUnits({ ...pendingUnits, temperature: e.target.value as UnitPreferences['temperature'] })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {TEMPERATURE_UNIT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Wind speed</span>
+                <select
+                  value={pendingUnits.windSpeed}
+                  onChange={(e) =>
+                    setPendingUnits({ ...pendingUnits, windSpeed: e.target.value as UnitPreferences['windSpeed'] })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {WIND_SPEED_UNIT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between p-2">
+                <span className="text-base">Rainfall</span>
+                <select
+                  value={pendingUnits.rainfall}
+                  onChange={(e) =>
+                    setPendingUnits({ ...pendingUnits, rainfall: e.target.value as UnitPreferences['rainfall'] })
+                  }
+                  className={`px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    }`}
+                >
+                  {RAINFALL_UNIT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          {/* Favourites Section */}
+          <div>
+            <h3
+              className={`text-sm font-semibold uppercase tracking-wide mb-3 ${pendingDarkMode ? 'text-gray-400' : 'text-gray-600'
+                }`}
+            >
+              Favourites
+            </h3>
+            {pendingFavourites.length === 0 ? (
+              <p className={`p-2 text-sm ${pendingDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Save the place you're looking at with ☆ in the header.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {pendingFavourites.map((favourite, index) => {
+                  const radar = radarLocations.find((r) => r.productId === favourite.radarId);
+                  const buttonClass = `px-1.5 py-0.5 rounded text-sm transition disabled:opacity-30 ${pendingDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`;
+
+                  return (
+                    <li key={favourite.id} className="flex items-center gap-1 p-1">
+                      <button
+                        onClick={() => setPendingFavourites(moveFavourite(pendingFavourites, favourite.id, -1))}
+                        disabled={index === 0}
+                        className={buttonClass}
+                        aria-label={`Move ${favourite.name} up`}
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => setPendingFavourites(moveFavourite(pendingFavourites, favourite.id, 1))}
+                        disabled={index === pendingFavourites.length - 1}
+                        className={buttonClass}
+                        aria-label={`Move ${favourite.name} down`}
+                      >
+                        ▼
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <input
+                          type="text"
+                          value={favourite.name}
+                          maxLength={MAX_FAVOURITE_NAME_LENGTH}
+                          onChange={(e) =>
+                            setPendingFavourites(pendingFavourites.map((f) =>
+                              f.id === favourite.id ? { ...f, name: e.target.value } : f
+                            ))
+                          }
+                          className={`w-full px-2 py-1 text-sm border rounded-md ${pendingDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                            }`}
+                          aria-label="Favourite name"
+                        />
+                        <p className={`px-2 text-xs truncate ${pendingDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                          {radar ? `${radar.name} radar` : favourite.radarId} · {favourite.range} km · {favourite.mode}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => setPendingFavourites(removeFavourite(pendingFavourites, favourite.id))}
+                        className={`${buttonClass} ${pendingDarkMode ? 'text-red-400' : 'text-red-600'}`}
+                        aria-label={`Delete ${favourite.name}`}
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
           {/* Appearance Section */}
           <div>
             <h3
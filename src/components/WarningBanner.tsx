@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Warning, WarningSeverity } from '../types/radar';
+import { getActiveWarnings, getWarningIssueKey, getWarningSeverity } from '../utils/warningsApi';
+import WarningDetailModal from './WarningDetailModal';
+
+interface WarningBannerProps {
+  warnings: Warning[];
+  isDarkMode: boolean;
+}
+
+const SEVERITY_CLASSES: Record<WarningSeverity, string> = {
+  severe: 'bg-red-600 border-red-700 text-white',
+  moderate: 'bg-orange-500 border-orange-600 text-white',
+  minor: 'bg-yellow-400 border-yellow-500 text-gray-900',
+};
+
+/**
+ * Banner for the most severe BoM warning in force, with a count of any others
+ * Dismissed warnings stay hidden until BoM reissues them
+ */
+export default function WarningBanner({ warnings, isDarkMode }: WarningBannerProps) {
+  const [dismissed, setDismissed] = useState<string[]>(() => {
+    const saved = localStorage.getItem('dismissedWarnings');
+    if (saved) {
+      try {
+        return JSON.parse(saved);
+      } catch (e) {
+        console.error('Failed to parse dismissed warnings:', e);
+      }
+    }
+    return [];
+  });
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem('dismissedWarnings', JSON.stringify(dismissed));
+  }, [dismissed]);
+
+  const activeWarnings = useMemo(() => getActiveWarnings(warnings), [warnings]);
+  const visibleWarnings = useMemo(
+    () => activeWarnings.filter((warning) => !dismissed.includes(getWarningIssueKey(warning))),
+    [activeWarnings, dismissed]
+  );
+
+  if (visibleWarnings.length === 0) return null;
+
+  const [topWarning] = visibleWarnings;
+  const otherCount = visibleWarnings.length - 1;
+
+  const handleDismiss = () => {
+    // Forget warnings that are no longer in force so the list doesn't grow forever
+    const activeKeys = activeWarnings.map(getWarningIssueKey);
+    setDismissed([
+      ...dismissed.filter((key) => activeKeys.includes(key)),
+      ...visibleWarnings.map(getWarningIssueKey),
+    ]);
+  };
+
+  return (
+    <>
+      <div
+        role="alert"
+        className={`mb-2 px-3 py-2 rounded-lg border shadow-sm flex items-center gap-2 text-sm ${SEVERITY_CLASSES[getWarningSeverity(topWarning)]}`}
+      >
+        <span className="text-lg leading-none" aria-hidden="true">⚠️</span>
+        <button
+          onClick={() => setIsDetailOpen(true)}
+          className="flex-1 min-w-0 text-left hover:underline"
+          title="Show warning details"
+        >
+          <span className="font-semibold">{topWarning.short_title ?? topWarning.title}</span>
+          {topWarning.short_title && (
+            <span className="hidden sm:inline opacity-90"> - {topWarning.title}</span>
+          )}
+          {otherCount > 0 && (
+            <span className="ml-1 whitespace-nowrap opacity-90">
+              (+{otherCount} more)
+            </span>
+          )}
+        </button>
+        <button
+          onClick={() => setIsDetailOpen(true)}
+          className="px-2 py-0.5 rounded border border-current text-xs font-medium whitespace-nowrap hover:opacity-80 transition"
+        >
+          Details
+        </button>
+        <button
+          onClick={handleDismiss}
+          className="text-lg leading-none font-bold hover:opacity-70 transition"
+          aria-label="Dismiss warnings"
+        >
+          ×
+        </button>
+      </div>
+
+      <WarningDetailModal
+        isOpen={isDetailOpen}
+        onClose={() => setIsDetailOpen(false)}
+        warnings={visibleWarnings}
+        initialWarningId={topWarning.id}
+        isDarkMode={isDarkMode}
+      />
+    </>
+  );
+}
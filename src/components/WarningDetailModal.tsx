@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { Warning, WarningDetail, WarningSeverity } from '../types/radar';
+import {
+  fetchWarningDetail,
+  formatWarningTime,
+  getWarningIssueKey,
+  getWarningSeverity,
+  warningMessageToText,
+} from '../utils/warningsApi';
+
+interface WarningDetailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  warnings: Warning[];
+  initialWarningId: string | null;
+  isDarkMode: boolean;
+}
+
+const SEVERITY_BADGE_CLASSES: Record<WarningSeverity, string> = {
+  severe: 'bg-red-600 text-white',
+  moderate: 'bg-orange-500 text-white',
+  minor: 'bg-yellow-400 text-gray-900',
+};
+
+/**
+ * Full text of each active warning, one at a time, fetched when selected
+ */
+export default function WarningDetailModal({
+  isOpen,
+  onClose,
+  warnings,
+  initialWarningId,
+  isDarkMode,
+}: WarningDetailModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(initialWarningId);
+  const [details, setDetails] = useState<Record<string, WarningDetail>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start on the warning the banner was showing
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedId(initialWarningId);
+    }
+  }, [isOpen, initialWarningId]);
+
+  const selected = warnings.find((warning) => warning.id === selectedId) ?? warnings[0];
+  const selectedKey = selected ? getWarningIssueKey(selected) : null;
+
+  // Fetch the message for the selected warning
+  useEffect(() => {
+    if (!isOpen || !selected || !selectedKey || details[selectedKey]) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchWarningDetail(selected.id)
+      .then((detail) => {
+        if (!cancelled) setDetails((prev) => ({ ...prev, [selectedKey]: detail }));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load warning');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, selected, selectedKey, details]);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      // Prevent body scroll when modal is open
+      document.body.style.overflow = 'hidden';
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+      document.body.style.overflow = 'unset';
+    };
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    // Only close if clicking the backdrop itself, not the modal content
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const detail = selectedKey ? details[selectedKey] : undefined;
+  const mutedClass = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4"
+      onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="warning-title"
+    >
+      <div
+        className={`relative w-full max-w-2xl rounded-lg shadow-2xl ${isDarkMode ? 'bg-gray-800 text-gray-100' : 'bg-white text-gray-900'} animate-fadeIn`}
+      >
+        {/* Header */}
+        <div
+          className={`flex items-center justify-between px-6 py-4 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}
+        >
+          <h2 id="warning-title" className="text-xl font-semibold">
+            Warnings
+          </h2>
+          <button
+            onClick={onClose}
+            className={`text-2xl leading-none hover:opacity-70 transition ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}
+            aria-label="Close warnings"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Warning picker, when there's more than one */}
+        {warnings.length > 1 && (
+          <div
+            className={`flex gap-2 px-6 py-2 overflow-x-auto border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}
+            role="tablist"
+          >
+            {warnings.map((warning) => (
+              <button
+                key={warning.id}
+                role="tab"
+                aria-selected={warning.id === selected?.id}
+                onClick={() => setSelectedId(warning.id)}
+                className={`shrink-0 px-2 py-1 rounded text-xs font-medium transition ${warning.id === selected?.id
+                  ? SEVERITY_BADGE_CLASSES[getWarningSeverity(warning)]
+                  : isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+              >
+                {warning.short_title ?? warning.title}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Content */}
+        {selected && (
+          <div className="px-6 py-4 space-y-3 overflow-y-auto max-h-[calc(100vh-16rem)] sm:max-h-[60vh]">
+            <div>
+              <span
+                className={`inline-block px-2 py-0.5 rounded text-xs font-semibold uppercase tracking-wide ${SEVERITY_BADGE_CLASSES[getWarningSeverity(selected)]}`}
+              >
+                {selected.phase === 'final' ? 'Final' : getWarningSeverity(selected)}
+              </span>
+              <h3 className="mt-2 text-lg font-semibold">{selected.title}</h3>
+              <p className={`text-xs ${mutedClass}`}>
+                Issued {formatWarningTime(selected.issue_time)}
+                {selected.expiry_time && ` · Expires ${formatWarningTime(selected.expiry_time)}`}
+              </p>
+            </div>
+
+            {isLoading && !detail && <p className={`text-sm ${mutedClass}`}>Loading warning...</p>}
+            {error && !detail && (
+              <p className={`text-sm ${isDarkMode ? 'text-red-300' : 'text-red-700'}`}>{error}</p>
+            )}
+            {detail && (
+              <p className="text-sm whitespace-pre-line leading-relaxed">
+                {warningMessageToText(detail.message) || 'No further details from BoM.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,49 @@
 import { useState, useEffect } from 'react';
-import { WeatherData } from '../types/radar';
+import { WeatherData, RainNowcast, HourlyForecast, ObservationSample, UnitPreferences, WeatherLocationSource } from '../types/radar';
 import {
   formatTemperature,
   formatTime,
+  formatDataAsOf,
+  formatStationDistance,
+  getUpcomingHours,
+  getWeatherIcon,
   getUVCategoryColor,
   getFireDangerColor
 } from '../utils/weatherApi';
+import { DEFAULT_UNITS, formatWindSpeed } from '../utils/units';
+import HourlyForecastChart from './HourlyForecastChart';
+import DailyForecastList from './DailyForecastList';
+import ObservationTrends from './ObservationTrends';
 
 interface WeatherInfoProps {
   weatherData: WeatherData | null;
   loading?: boolean;
   error?: string | null;
+  nowcast?: RainNowcast | null;
+  hourlyForecast?: HourlyForecast[] | null;
+  observationHistory?: ObservationSample[] | null;
+  units?: UnitPreferences;
+  weatherSource?: WeatherLocationSource;
+  onWeatherSourceChange?: (source: WeatherLocationSource) => void;
+  locationLabel?: string | null; // The user's location or searched place, if we know it
+  radarLabel?: string;
   isDarkMode?: boolean;
 }
 
-// Weather icon helper
-function getWeatherIcon(iconDescriptor?: string): string {
-  if (!iconDescriptor) return '☀️';
+// Radar nowcast summary, e.g. "Rain expected in ~15 min (Moderate)"
+function describeNowcast(nowcast: RainNowcast): string {
+  if (nowcast.minutesUntilRain === null) {
+    return `No rain expected in the next ${nowcast.horizonMinutes} min`;
+  }
 
-  const descriptor = iconDescriptor.toLowerCase();
-  if (descriptor.includes('sunny')) return '☀️';
-  if (descriptor.includes('clear')) return '🌙';
-  if (descriptor.includes('cloud')) return '☁️';
-  if (descriptor.includes('partly')) return '⛅';
-  if (descriptor.includes('shower') || descriptor.includes('rain')) return '🌧️';
-  if (descriptor.includes('storm')) return '⛈️';
-  if (descriptor.includes('fog')) return '🌫️';
-  if (descriptor.includes('wind')) return '💨';
+  const intensity = nowcast.level ? ` (${nowcast.level.group})` : '';
+  if (nowcast.minutesUntilRain === 0) {
+    return `Raining at your location${intensity}`;
+  }
 
-  return '🌤️';
+  // Round to 5 minutes - the extrapolation isn't any more precise than that
+  const minutes = Math.max(5, Math.round(nowcast.minutesUntilRain / 5) * 5);
+  return `Rain expected in ~${minutes} min${intensity}`;
 }
 
 // Temperature color helper
@@ -44,7 +59,20 @@ function getTemperatureColor(temp?: number, isDark = false): string {
   return 'text-blue-700';
 }
 
-export default function WeatherInfo({ weatherData, loading, error, isDarkMode = false }: WeatherInfoProps) {
+export default function WeatherInfo({
+  weatherData,
+  loading,
+  error,
+  nowcast,
+  hourlyForecast,
+  observationHistory,
+  units = DEFAULT_UNITS,
+  weatherSource = 'location',
+  onWeatherSourceChange,
+  locationLabel,
+  radarLabel = 'Radar site',
+  isDarkMode = false
+}: WeatherInfoProps) {
   const [isExpanded, setIsExpanded] = useState(() => {
     const saved = localStorage.getItem('weatherExpanded');
     return saved === null ? true : saved === 'true';
@@ -92,12 +120,21 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
   // Get temperature from observations first, fallback to forecast
   const currentTemp = observations?.temp ?? todayForecast?.temp_max ?? todayForecast?.temp_min;
   const weatherIcon = getWeatherIcon(todayForecast?.icon_descriptor);
+  const stationDistance = formatStationDistance(observations?.station?.distance);
+
+  // BoM is down - the API served the last data it fetched
+  const staleBanner = weatherData.stale && (
+    <p role="status" className={`text-xs text-center mb-1 ${isDarkMode ? 'text-amber-300' : 'text-amber-700'}`}>
+      ⚠️ {formatDataAsOf(weatherData.fetchedAt)} - BoM isn't responding
+    </p>
+  );
 
   // Collapsed view - single compact line
   if (!isExpanded) {
     return (
       <div className={`border-b px-4 py-2 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
         <div className="max-w-full mx-auto">
+          {staleBanner}
           <button
             onClick={() => setIsExpanded(true)}
             className="w-full flex items-center justify-center hover:opacity-75 transition gap-3 text-sm"
@@ -107,7 +144,7 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
               {location.name}, {location.state}
             </span>
             <span className={`font-bold text-lg ${getTemperatureColor(currentTemp, isDarkMode)}`}>
-              {formatTemperature(currentTemp)}
+              {formatTemperature(currentTemp, units.temperature)}
             </span>
             {todayForecast?.short_text && (
               <span className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -132,6 +169,8 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
   return (
     <div className={`border-b px-4 py-2.5 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
       <div className="max-w-full mx-auto">
+        {staleBanner}
+
         {/* Header with collapse button - centered */}
         <div className="flex items-center justify-center mb-2 relative">
           <div className="flex items-center gap-3">
@@ -142,7 +181,7 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
                   {location.name}, {location.state}
                 </h2>
                 <div className={`text-xl font-bold ${getTemperatureColor(currentTemp, isDarkMode)}`}>
-                  {formatTemperature(currentTemp)}
+                  {formatTemperature(currentTemp, units.temperature)}
                 </div>
               </div>
               {todayForecast?.short_text && (
@@ -175,11 +214,11 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
             <div className="flex items-center gap-1.5">
               <span className={isDarkMode ? 'text-gray-500' : 'text-gray-500'}>H/L:</span>
               <span className={`font-semibold ${getTemperatureColor(todayForecast?.temp_max, isDarkMode)}`}>
-                {formatTemperature(todayForecast?.temp_max)}
+                {formatTemperature(todayForecast?.temp_max, units.temperature)}
               </span>
               <span className={isDarkMode ? 'text-gray-500' : 'text-gray-500'}>/</span>
               <span className={`font-semibold ${getTemperatureColor(todayForecast?.temp_min, isDarkMode)}`}>
-                {formatTemperature(todayForecast?.temp_min)}
+                {formatTemperature(todayForecast?.temp_min, units.temperature)}
               </span>
             </div>
           )}
@@ -209,7 +248,7 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
             <div className="flex items-center gap-1">
               <span>💨</span>
               <span className={`font-semibold ${isDarkMode ? 'text-gray-200' : 'text-gray-900'}`}>
-                {observations.wind.direction || ''} {Math.round(observations.wind.speed_kilometre)}km/h
+                {observations.wind.direction || ''} {formatWindSpeed(observations.wind, units.windSpeed)}
               </span>
             </div>
           )}
@@ -256,12 +295,59 @@ export default function WeatherInfo({ weatherData, loading, error, isDarkMode =
           )}
         </div>
 
-        {/* Station info - centered, smaller */}
-        {observations?.station?.name && (
-          <p className={`text-center text-xs mt-1 ${isDarkMode ? 'text-gray-600' : 'text-gray-400'}`}>
-            Station: {observations.station.name}
+        {/* Next 24 hours */}
+        {hourlyForecast && (
+          <HourlyForecastChart hours={getUpcomingHours(hourlyForecast)} units={units} isDarkMode={isDarkMode} />
+        )}
+
+        {/* Coming week */}
+        {forecast?.daily && forecast.daily.length > 1 && (
+          <DailyForecastList days={forecast.daily.slice(0, 7)} units={units} isDarkMode={isDarkMode} />
+        )}
+
+        {/* Radar nowcast for the user's location */}
+        {nowcast && (
+          <p className={`text-center text-xs mt-1 font-medium ${nowcast.minutesUntilRain !== null ? 'text-blue-500' : isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            🌧️ {describeNowcast(nowcast)}
           </p>
         )}
+
+        {/* Station readings over the last day */}
+        {observationHistory && (
+          <ObservationTrends samples={observationHistory} units={units} isDarkMode={isDarkMode} />
+        )}
+
+        {/* Where the forecast and observations are from - centered, smaller */}
+        <p className={`text-center text-xs mt-1 ${isDarkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+          Forecast: {location.name}
+          {observations?.station?.name && (
+            <>
+              {' · '}Station: {observations.station.name}
+              {stationDistance && ` (${stationDistance} away)`}
+            </>
+          )}
+        </p>
+
+        {/* Follow the user's location or stick to the radar site */}
+        {onWeatherSourceChange && locationLabel && (
+          <div className="flex justify-center mt-1">
+            <div role="group" aria-label="Show weather for" className={`inline-flex rounded border overflow-hidden text-xs ${isDarkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+              {([
+                ['location', `📍 ${locationLabel}`],
+                ['radar', `📡 ${radarLabel}`],
+              ] as const).map(([source, label]) => (
+                <button
+                  key={source}
+                  onClick={() => onWeatherSourceChange(source)}
+                  aria-pressed={weatherSource === source}
+                  className={`px-2 py-0.5 max-w-[10rem] truncate transition ${weatherSource === source ? 'bg-blue-600 text-white' : isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,11 @@
+/**
+ * Australian postcodes and the localities they cover
+ * Generated by scripts/build-postcodes.mjs - don't edit by hand.
+ *
+ * One postcode per line: "postcode state locality,lat,lng;locality,lat,lng"
+ * Localities that only have PO boxes are marked with a leading "*".
+ * Stored deflated and base64 encoded, and only loaded, as its own chunk, the
+ * first time a postcode is looked up.
+ */
+export const POSTCODE_DATA =
+  'hZXbbts4EIbv+RS6DmSCwzOhqxy27aJN4MbG5pq2GVuITBWU1CBvvxiS3jbYdvdW/8d/DhyOmGWsedg2dz699rG57ee3dgWcSi1kC4JRK5UmzDJA6qpgvyQg+9z6afGpjz4zwghdGAuye+iPp3k/9M/PRbRCFFEx1j36b/2huU0hvFSV1aPKGcIsz/YffIx9aG58zZKDKZDQ0K198t/Kd3E5LEF2m3nxaW7WPhVrKRWrKueEWZGt1344hzTN489dsLqQzgpBmFWZ/OznU0h9DO0KJJVa8RYEp1wLRZjVmdmGGH2c/ynIUS0d5iopOJCEWZO566Hfh2bzLfXxOLUrLqh2FmMKai3Dwm3mHk7LsMTdUvICC1ifpsZYSTjDO9w8NZu3Qwxv7QoPa2tbUEA5c6K78cnHo0/jWEWQVQTZ3fnXMDXrsY9zUZXSVbW6++Tfzj69hKpZZqomdHffD0NI7886+UPfnkLzOO5fpovmLikxTBpy0le/y5pwBrWuJaW35lM/DNXJAq8YZ92dT0Mfj6clTTUJ46oMThPOdHF5GNN8etcjzljmwDJGONQu3qRxfPnuh5AhoyrEVYZUgdY+JX/28+yLFasUY0iJavUQXvd+mrMVp47r0jxjrCPol6GncRjGeBzjsV0JSSU32ANGrRNAuGasub7FhxV3ISUMpyi3zLUgHQXBGN7uPMYsCIajnQXDiMDB+OvP2+Y+DLtxSTixwlAL+CqlpE4LQAgydPU/lPyVlcC6EcIWCuDF6rHfn85jPBQmt1mq0huBHUTm4xBi8+S/hzTk+zDUsQpiVUSAURm88/EQYmmPzSYFyhFVdbsJ8dAfcbw1NRr7LCXl+GqFrcimXKnJn1uQmkrQhkhs0tcvd81N6qedj6E+f26o1A6vQlDGFXTrMKc+NFu8hX2oAO4fBABMV15xntOLKutxoTEO5DhXl0D/jkEkVGgzLvOpeU/mtHMwbbqnMM3NH9jiLEE1YdYR3IrFZEnP+X365A/9hDY2n84sFk6kUKX67Ti+juN553+Ur5Qrr9EpZojEDV/I1zh9x6d/WZSOcuVYbqkF7YjE5Ybore9TnC6Ypg6szpdnjAWisPOb6+b6EAbfH0Ief8etakFYqhkziAAiV//JaI7MfT/vT/5ciDwCSAghiGJOZcK/TmNsvviXMGXMivwLslRrbYjiLudzPy5xbj76864PqY4wvknJqLFcEY15P10365DmU7sSuUGqBVDUapZ1i/pm2fV+PxYidx0J7LoGnR0+pHD28bIfWM4GGUxaS5GZz344jmMaeoQYNfk3wgH/O4powxVCuLPO+D8y1OWp45xyoRwxmOv2etN8Gnc+ze1KcmothxakoYIb3pW1+LNsOC8yKF3m7J0qTVGZZWgP2f7qd/7EcFUy+OKXuA9TXlUSqBSihAEp4W8=';
@@ -0,0 +1,35 @@
+import { RainLevel } from '../types/radar';
+
+/**
+ * BoM radar rain rate palette
+ *
+ * Each colour in the radar imagery corresponds to a rain rate band (mm/h).
+ * Grouped the same way as the BoM legend; the Extreme band is reported as
+ * heavy rain when classifying.
+ */
+export const RAIN_PALETTE: RainLevel[] = [
+  // Light
+  { color: '#f5f5ff', minRate: 0.2, maxRate: 0.5, group: 'Light', category: 'light' },
+  { color: '#b4b4ff', minRate: 0.5, maxRate: 1.5, group: 'Light', category: 'light' },
+  { color: '#7878ff', minRate: 1.5, maxRate: 2.5, group: 'Light', category: 'light' },
+  { color: '#1414ff', minRate: 2.5, maxRate: 4, group: 'Light', category: 'light' },
+  { color: '#00d8c3', minRate: 4, maxRate: 6, group: 'Light', category: 'light' },
+
+  // Moderate
+  { color: '#009690', minRate: 6, maxRate: 10, group: 'Moderate', category: 'moderate' },
+  { color: '#006666', minRate: 10, maxRate: 15, group: 'Moderate', category: 'moderate' },
+  { color: '#ffff00', minRate: 15, maxRate: 20, group: 'Moderate', category: 'moderate' },
+  { color: '#ffc800', minRate: 20, maxRate: 35, group: 'Moderate', category: 'moderate' },
+  { color: '#ff9600', minRate: 35, maxRate: 50, group: 'Moderate', category: 'moderate' },
+
+  // Heavy
+  { color: '#ff6400', minRate: 50, maxRate: 80, group: 'Heavy', category: 'heavy' },
+  { color: '#ff0000', minRate: 80, maxRate: 120, group: 'Heavy', category: 'heavy' },
+  { color: '#c80000', minRate: 120, maxRate: 200, group: 'Heavy', category: 'heavy' },
+  { color: '#6b0000', minRate: 200, maxRate: 300, group: 'Heavy', category: 'heavy' },
+
+  // Extreme
+  { color: '#280000', minRate: 300, maxRate: null, group: 'Extreme', category: 'heavy' },
+];
+
+export const RAIN_LEGEND_GROUPS: RainLevel['group'][] = ['Light', 'Moderate', 'Heavy', 'Extreme'];
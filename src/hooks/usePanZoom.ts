@@ -0,0 +1,177 @@
+import { useState, useRef, useCallback } from 'react';
+import { PanZoomTransform, IDENTITY_TRANSFORM, zoomAt, panBy } from '../utils/panZoom';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const WHEEL_ZOOM_SPEED = 0.002; // Scale factor per wheel delta pixel (exponential)
+const BUTTON_ZOOM_FACTOR = 2;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 10; // Max movement for a pointer press to still count as a tap
+
+/**
+ * Mouse-wheel zoom, pinch zoom, drag-to-pan and double-tap zoom for a viewport.
+ *
+ * Attach `ref` and `handlers` to the viewport element and apply `transform` to
+ * its content with a top-left transform origin. Several same-sized viewports
+ * can share the hook to pan and zoom in sync. Double-tap zooms in around the
+ * tapped point, or resets once fully zoomed in.
+ */
+export function usePanZoom<T extends HTMLElement>() {
+  const [transform, setTransform] = useState<PanZoomTransform>(IDENTITY_TRANSFORM);
+
+  // Every element sharing this transform - e.g. both panes of a side-by-side comparison
+  const elementsRef = useRef(new Set<T>());
+
+  // Active pointers in viewport coordinates, keyed by pointerId
+  const pointersRef = useRef(new Map<number, Point>());
+  const tapStartRef = useRef<{ point: Point; moved: boolean } | null>(null);
+  const lastTapRef = useRef<{ point: Point; time: number } | null>(null);
+
+  // Measures the viewport a gesture happened in (or the first one, for the zoom buttons)
+  const getViewport = useCallback((element?: Element) => {
+    const rect = (element ?? elementsRef.current.values().next().value)?.getBoundingClientRect();
+    return { width: rect?.width ?? 0, height: rect?.height ?? 0 };
+  }, []);
+
+  const toViewportPoint = useCallback((element: Element, clientX: number, clientY: number): Point => {
+    const rect = element.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  }, []);
+
+  const zoomAround = useCallback((factor: number, point?: Point, element?: Element) => {
+    const viewport = getViewport(element);
+    const centre = point ?? { x: viewport.width / 2, y: viewport.height / 2 };
+    setTransform((prev) => zoomAt(prev, prev.scale * factor, centre, viewport, MIN_SCALE, MAX_SCALE));
+  }, [getViewport]);
+
+  const zoomIn = useCallback(() => zoomAround(BUTTON_ZOOM_FACTOR), [zoomAround]);
+  const zoomOut = useCallback(() => zoomAround(1 / BUTTON_ZOOM_FACTOR), [zoomAround]);
+  const reset = useCallback(() => setTransform(IDENTITY_TRANSFORM), []);
+
+  // Callback ref so several viewports can share one transform
+  const ref = useCallback((element: T | null) => {
+    if (!element) return;
+    elementsRef.current.add(element);
+
+    // Wheel listener is attached manually - React's onWheel is passive so it can't stop the page scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoomAround(
+        Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED),
+        toViewportPoint(element, event.clientX, event.clientY),
+        element
+      );
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+
+    // Keep the content covering the viewport if it's resized while zoomed
+    const observer = typeof ResizeObserver === 'undefined'
+      ? null
+      : new ResizeObserver(() => {
+          setTransform((prev) => panBy(prev, 0, 0, getViewport(element), MIN_SCALE, MAX_SCALE));
+        });
+    observer?.observe(element);
+
+    return () => {
+      elementsRef.current.delete(element);
+      element.removeEventListener('wheel', handleWheel);
+      observer?.disconnect();
+    };
+  }, [zoomAround, toViewportPoint, getViewport]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<T>) => {
+    const point = toViewportPoint(event.currentTarget, event.clientX, event.clientY);
+    pointersRef.current.set(event.pointerId, point);
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+
+    // Only a lone pointer can be a tap - a second finger starts a pinch
+    tapStartRef.current = pointersRef.current.size === 1 ? { point, moved: false } : null;
+  }, [toViewportPoint]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<T>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+
+    const point = toViewportPoint(event.currentTarget, event.clientX, event.clientY);
+    const tapStart = tapStartRef.current;
+    if (tapStart && Math.hypot(point.x - tapStart.point.x, point.y - tapStart.point.y) > TAP_SLOP_PX) {
+      tapStart.moved = true;
+    }
+
+    const viewport = getViewport(event.currentTarget);
+
+    if (pointers.size === 1) {
+      setTransform((prev) => panBy(prev, point.x - previous.x, point.y - previous.y, viewport, MIN_SCALE, MAX_SCALE));
+    } else if (pointers.size === 2) {
+      // Pinch: scale by the change in finger distance, pan by the change in midpoint
+      const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1];
+      if (other) {
+        const previousDistance = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const distance = Math.hypot(point.x - other.x, point.y - other.y);
+        const previousMid = { x: (previous.x + other.x) / 2, y: (previous.y + other.y) / 2 };
+        const mid = { x: (point.x + other.x) / 2, y: (point.y + other.y) / 2 };
+
+        setTransform((prev) => {
+          const factor = previousDistance > 0 ? distance / previousDistance : 1;
+          const zoomed = zoomAt(prev, prev.scale * factor, previousMid, viewport, MIN_SCALE, MAX_SCALE);
+          return panBy(zoomed, mid.x - previousMid.x, mid.y - previousMid.y, viewport, MIN_SCALE, MAX_SCALE);
+        });
+      }
+    }
+
+    pointers.set(event.pointerId, point);
+  }, [toViewportPoint, getViewport]);
+
+  const handlePointerUp = useCallback((event: React.PointerEvent<T>) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(event.pointerId)) return;
+
+    const tapStart = tapStartRef.current;
+    tapStartRef.current = null;
+    if (!tapStart || tapStart.moved || pointers.size > 0) return;
+
+    // Double tap: zoom in around the tap, or reset once fully zoomed in
+    const now = Date.now();
+    const lastTap = lastTapRef.current;
+    const isDoubleTap = lastTap !== null &&
+      now - lastTap.time < DOUBLE_TAP_MS &&
+      Math.hypot(tapStart.point.x - lastTap.point.x, tapStart.point.y - lastTap.point.y) < TAP_SLOP_PX * 2;
+
+    if (isDoubleTap) {
+      lastTapRef.current = null;
+      const viewport = getViewport(event.currentTarget);
+      setTransform((prev) => prev.scale >= MAX_SCALE
+        ? IDENTITY_TRANSFORM
+        : zoomAt(prev, prev.scale * BUTTON_ZOOM_FACTOR, tapStart.point, viewport, MIN_SCALE, MAX_SCALE));
+    } else {
+      lastTapRef.current = { point: tapStart.point, time: now };
+    }
+  }, [getViewport]);
+
+  const handlePointerCancel = useCallback((event: React.PointerEvent<T>) => {
+    pointersRef.current.delete(event.pointerId);
+    tapStartRef.current = null;
+  }, []);
+
+  return {
+    ref,
+    transform,
+    isZoomed: transform.scale > MIN_SCALE,
+    canZoomIn: transform.scale < MAX_SCALE,
+    zoomIn,
+    zoomOut,
+    reset,
+    handlers: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerCancel,
+    },
+  };
+}
@@ -1,5 +1,7 @@
 export type RadarRange = '64' | '128' | '256' | '512';
 export type RadarMode = 'rain' | 'doppler';
+export type RadarView = 'single' | 'mosaic'; // One radar, or several composited into one map
+export type CompareLayout = 'side-by-side' | 'swipe';
 
 export interface RadarLocation {
   id: string;
@@ -17,6 +19,13 @@ export interface RadarLocation {
 export interface RadarImage {
   url: string;
   timestamp: string;
+  isForecast?: boolean; // Extrapolated nowcast frame rather than an observed scan
+}
+
+export interface RadarLoop {
+  images: RadarImage[];
+  fetchedAt?: string; // ISO time the API last fetched the loop from BoM
+  stale?: boolean; // BoM is down and this is the last loop the API fetched
 }
 
 export interface RadarOverlays {
@@ -28,6 +37,44 @@ export interface RadarOverlays {
   legend: boolean;
 }
 
+// BoM map layers drawn around the radar image (everything in RadarOverlays except the legend)
+export type TransparencyLayer = Exclude<keyof RadarOverlays, 'legend'>;
+
+export interface RadarPlayback {
+  frameDuration: number; // Milliseconds each frame is shown
+  latestDwell: number; // Extra milliseconds to hold the newest frame before looping
+  frameCount: number | null; // Number of most recent frames to loop (null = all available)
+}
+
+// Display units - BoM data is always metric and converted for display
+export type TemperatureUnit = 'C' | 'F';
+export type WindSpeedUnit = 'km/h' | 'kn' | 'm/s' | 'mph';
+export type RainfallUnit = 'mm' | 'in';
+
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  rainfall: RainfallUnit;
+}
+
+// Rain rate types
+
+export type RainCategory = 'none' | 'light' | 'moderate' | 'heavy';
+
+export interface RainLevel {
+  color: string; // Hex colour used in BoM radar imagery
+  minRate: number; // Lower bound of the band in mm/h
+  maxRate: number | null; // Upper bound of the band in mm/h (null = open-ended)
+  group: 'Light' | 'Moderate' | 'Heavy' | 'Extreme'; // Legend grouping
+  category: Exclude<RainCategory, 'none'>;
+}
+
+export interface RainNowcast {
+  minutesUntilRain: number | null; // 0 = raining now, null = none expected within the horizon
+  level: RainLevel | null; // Expected rain level when it arrives
+  horizonMinutes: number; // How far ahead the nowcast looks
+}
+
 // Weather data types
 
 export interface WeatherLocation {
@@ -72,6 +119,20 @@ export interface WeatherObservations {
   station?: WeatherStation;
 }
 
+// One reading from a station's recent history, recorded by the API
+export interface ObservationSample {
+  time: string; // ISO time the API recorded it
+  temp?: number;
+  humidity?: number;
+  wind?: WindData;
+  rain_since_9am?: number;
+}
+
+export interface ObservationHistoryData {
+  station: string; // BoM station ID
+  samples: ObservationSample[]; // Last 24 hours, oldest first
+}
+
 export interface RainData {
   chance?: number;
   amount?: {
@@ -106,6 +167,30 @@ export interface DailyForecast {
   astronomical?: AstronomicalData;
 }
 
+export interface HourlyWind extends WindData {
+  gust_speed_kilometre?: number;
+  gust_speed_knot?: number;
+}
+
+export interface HourlyForecast {
+  time: string; // ISO start of the hour (UTC)
+  temp?: number;
+  temp_feels_like?: number;
+  rain?: RainData;
+  wind?: HourlyWind;
+  relative_humidity?: number;
+  uv?: number;
+  icon_descriptor?: string;
+  is_night?: boolean;
+}
+
+export interface HourlyForecastData {
+  geohash: string;
+  hourly: HourlyForecast[];
+  fetchedAt?: string; // ISO time the API last fetched from BoM
+  stale?: boolean; // BoM is down and this is the last data the API fetched
+}
+
 export interface ForecastData {
   today?: DailyForecast;
   daily?: DailyForecast[];
@@ -115,4 +200,83 @@ export interface WeatherData {
   location: WeatherLocation;
   observations: WeatherObservations | null;
   forecast: ForecastData | null;
+  fetchedAt?: string; // ISO time the API last fetched from BoM
+  stale?: boolean; // BoM is down and this is the last data the API fetched
+}
+
+// 'major' warnings (severe thunderstorm, flood, fire weather...) vs 'minor' ones (marine wind, sheep graziers...)
+export type WarningGroupType = 'major' | 'minor';
+
+export type WarningPhase = 'new' | 'update' | 'renewal' | 'upgrade' | 'downgrade' | 'final' | 'cancelled';
+
+export type WarningSeverity = 'severe' | 'moderate' | 'minor';
+
+export interface Warning {
+  id: string;
+  type: string; // e.g. "severe_thunderstorm_warning", "flood_watch"
+  title: string;
+  short_title?: string;
+  state?: string;
+  warning_group_type?: WarningGroupType;
+  issue_time?: string; // ISO
+  expiry_time?: string; // ISO
+  phase?: WarningPhase;
+}
+
+export interface WarningDetail extends Warning {
+  message?: string; // HTML from BoM
+}
+
+export interface WarningsData {
+  geohash: string;
+  warnings: Warning[];
+  fetchedAt?: string; // ISO time the API last fetched from BoM
+  stale?: boolean; // BoM is down and this is the last data the API fetched
+}
+
+export interface WarningDetailData {
+  warning: WarningDetail;
+  fetchedAt?: string;
+  stale?: boolean;
+}
+
+// Whose weather to show: the user's location (or searched place), or the radar site
+export type WeatherLocationSource = 'location' | 'radar';
+
+// A suburb, town or postcode the user searched for
+export interface Place {
+  name: string;
+  state: string;
+  postcode: string | null;
+  lat: number;
+  lng: number;
+  geohash?: string; // Only for places from BoM's location search
+}
+
+export interface LocationSearchData {
+  query: string;
+  locations: Place[];
+  fetchedAt?: string;
+  stale?: boolean;
+}
+
+// A saved place with the radar settings to restore when it's picked
+export interface FavouritePlace {
+  id: string;
+  name: string;
+  state: string;
+  lat: number;
+  lng: number;
+  radarId: string; // Product ID of the preferred radar, e.g. IDR663
+  range: RadarRange;
+  mode: RadarMode;
+}
+
+// What the dashboard shows for one favourite
+export interface PlaceSummary {
+  weather: WeatherData;
+  warnings: Warning[]; // Active warnings only
+  radarImage: RadarImage | null; // Latest frame, null if the loop didn't load
+  radarProductId: string;
+  overlayProductId: string; // Rain product whose map background goes under the frame
 }
@@ -0,0 +1,71 @@
+/**
+ * Canvas helpers for reading and writing radar frame pixels
+ */
+
+export interface FramePixels {
+  width: number;
+  height: number;
+  data: ArrayLike<number>; // RGBA, 4 values per pixel (ImageData compatible)
+}
+
+function createContext(width: number, height: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  return context;
+}
+
+/**
+ * Loads and decodes a single image
+ */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Request CORS so the pixels can be read back (the API proxy sends the headers)
+    img.crossOrigin = 'anonymous';
+
+    img.onload = () => {
+      // decode() guarantees the bitmap is ready before first paint (not supported everywhere)
+      if (typeof img.decode === 'function') {
+        img.decode().then(() => resolve(img), () => resolve(img));
+      } else {
+        resolve(img);
+      }
+    };
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+
+    img.src = url;
+  });
+}
+
+/**
+ * Reads the RGBA pixels of a decoded image
+ *
+ * Throws if the image came from another origin without CORS headers
+ * (the canvas is tainted and getImageData raises a SecurityError).
+ */
+export function readImagePixels(image: HTMLImageElement): ImageData {
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+
+  const context = createContext(width, height);
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Encodes RGBA pixels as a PNG data URL
+ */
+export function pixelsToDataUrl(pixels: FramePixels): string {
+  const context = createContext(pixels.width, pixels.height);
+  const imageData = context.createImageData(pixels.width, pixels.height);
+  imageData.data.set(pixels.data);
+  context.putImageData(imageData, 0, 0);
+  return context.canvas.toDataURL('image/png');
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mapWithConcurrency, fetchPlaceSummary } from './dashboard';
+import { FavouritePlace } from '../types/radar';
+
+const home: FavouritePlace = {
+  id: 'home',
+  name: 'Home',
+  state: 'QLD',
+  lat: -27.4698,
+  lng: 153.0251,
+  radarId: 'IDR663',
+  range: '256',
+  mode: 'rain',
+};
+
+const weather = {
+  location: { name: 'Brisbane', state: 'QLD', geohash: 'r7hgdp9', lat: -27.4679, lng: 153.0196 },
+  observations: { temp: 24 },
+  forecast: { today: { temp_min: 18, temp_max: 28, rain: { chance: 40 } } },
+};
+
+const radarLoop = {
+  images: [
+    { url: 'https://reg.bom.gov.au/radar/IDR662.T.202601010000.png', timestamp: '202601010000' },
+    { url: 'https://reg.bom.gov.au/radar/IDR662.T.202601010006.png', timestamp: '202601010006' },
+  ],
+};
+
+const stormWarning = {
+  id: 'QLD_RC001',
+  type: 'severe_thunderstorm_warning',
+  title: 'Severe Thunderstorm Warning',
+  warning_group_type: 'major',
+};
+
+const cancelledWarning = { ...stormWarning, id: 'QLD_RC002', phase: 'cancelled' };
+
+/**
+ * Answers each API call with the matching fixture, or a 503 for the paths listed
+ */
+function mockApi(failing: string[] = []) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const url = String(input);
+    if (failing.some((path) => url.includes(path))) {
+      return Response.json({ error: 'Service unavailable' }, { status: 503 });
+    }
+    if (url.includes('/api/weather')) return Response.json(weather);
+    if (url.includes('/api/radar/')) return Response.json(radarLoop);
+    if (url.includes('/api/warnings')) {
+      return Response.json({ geohash: 'r7hgdp9', warnings: [stormWarning, cancelledWarning] });
+    }
+    throw new Error(`Unexpected fetch: ${url}`);
+  });
+}
+
+describe('dashboard utils', () => {
+  describe('mapWithConcurrency', () => {
+    it('should keep results in the original order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 2, (ms) =>
+        new Promise<number>((resolve) => setTimeout(() => resolve(ms), ms))
+      );
+
+      expect(results).toEqual([
+        { status: 'fulfilled', value: 30 },
+        { status: 'fulfilled', value: 10 },
+        { status: 'fulfilled', value: 20 },
+      ]);
+    });
+
+    it('should never run more tasks than the limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should carry on past failed tasks', async () => {
+      const results = await mapWithConcurrency([1, 2, 3], 1, async (n) => {
+        if (n === 2) throw new Error('boom');
+        return n;
+      });
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 1 });
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error('boom') });
+      expect(results[2]).toEqual({ status: 'fulfilled', value: 3 });
+    });
+
+    it('should handle an empty list', async () => {
+      expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+    });
+  });
+
+  describe('fetchPlaceSummary', () => {
+    it('should combine the weather, active warnings and latest radar frame', async () => {
+      const fetchSpy = mockApi();
+
+      const summary = await fetchPlaceSummary(home);
+
+      expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/\/api\/weather\?lat=-27\.4698&lng=153\.0251$/),
+          expect.stringMatching(/\/api\/radar\/IDR662$/),
+          expect.stringMatching(/\/api\/warnings\?geohash=r7hgdp9$/),
+        ])
+      );
+      expect(summary.weather).toEqual(weather);
+      expect(summary.warnings.map((w) => w.id)).toEqual(['QLD_RC001']);
+      expect(summary.radarImage?.timestamp).toBe('202601010006');
+      expect(summary.radarProductId).toBe('IDR662');
+      expect(summary.overlayProductId).toBe('IDR662');
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should use the rain product for the map under a doppler frame', async () => {
+      const fetchSpy = mockApi();
+
+      const summary = await fetchPlaceSummary({ ...home, mode: 'doppler' });
+
+      expect(summary.radarProductId).toBe('IDR66I');
+      expect(summary.overlayProductId).toBe('IDR663');
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should leave out warnings and the radar frame when they fail', async () => {
+      const fetchSpy = mockApi(['/api/radar/', '/api/warnings']);
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const summary = await fetchPlaceSummary(home);
+
+      expect(summary.weather).toEqual(weather);
+      expect(summary.warnings).toEqual([]);
+      expect(summary.radarImage).toBeNull();
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+
+    it('should fail when the weather fails', async () => {
+      const fetchSpy = mockApi(['/api/weather']);
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchPlaceSummary(home)).rejects.toThrow('Service unavailable');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+});
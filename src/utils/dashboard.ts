@@ -0,0 +1,74 @@
+import { FavouritePlace, PlaceSummary, RadarImage } from '../types/radar';
+import { radarLocations } from '../data/radarLocations';
+import { buildProductId, fetchRadarImages } from './radarApi';
+import { fetchWeatherData } from './weatherApi';
+import { fetchWarnings, getActiveWarnings } from './warningsApi';
+
+// Places fetched at once - each one is a few API calls, and there can be 20
+export const DASHBOARD_CONCURRENCY = 3;
+
+/**
+ * Runs an async task for every item with at most `limit` running at once
+ * Resolves with every outcome in the items' order, like Promise.allSettled
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Fetches what the dashboard shows for a favourite: its weather, active
+ * warnings and the latest frame from its radar
+ * Only the weather is required - the card still works without warnings or
+ * the radar frame, so those failures are logged and left out
+ */
+export async function fetchPlaceSummary(favourite: FavouritePlace): Promise<PlaceSummary> {
+  const radar = radarLocations.find((r) => r.productId === favourite.radarId);
+  const radarProductId = radar
+    ? buildProductId(radar.baseId, favourite.mode, favourite.range, radar.dopplerProductId)
+    : favourite.radarId;
+  // Doppler products have no map layers, so use the 128km rain product's
+  const overlayProductId = radar && radarProductId === radar.dopplerProductId
+    ? `IDR${radar.baseId}3`
+    : radarProductId;
+
+  const radarImagePromise: Promise<RadarImage | null> = fetchRadarImages(radarProductId)
+    .then((images) => images[images.length - 1] ?? null)
+    .catch(() => null); // Already logged by fetchRadarLoop
+
+  const weather = await fetchWeatherData(favourite.lat, favourite.lng);
+
+  const geohash = weather.location.geohash;
+  const warnings = geohash
+    ? await fetchWarnings(geohash)
+        .then((data) => getActiveWarnings(data.warnings))
+        .catch(() => []) // Already logged by fetchWarnings
+    : [];
+
+  return {
+    weather,
+    warnings,
+    radarImage: await radarImagePromise,
+    radarProductId,
+    overlayProductId,
+  };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseFavourites,
+  getFavouritePlace,
+  createFavourite,
+  cleanFavouriteName,
+  addFavourite,
+  moveFavourite,
+  removeFavourite,
+  MAX_FAVOURITES,
+  MAX_FAVOURITE_NAME_LENGTH,
+} from './favourites';
+import { FavouritePlace, Place, RadarLocation, WeatherLocation } from '../types/radar';
+
+const brisbaneRadar: RadarLocation = {
+  id: '66',
+  name: 'Brisbane',
+  location: 'Mt Stapylton',
+  state: 'QLD',
+  baseId: '66',
+  productId: 'IDR663',
+  hasDoppler: true,
+  lat: -27.7178,
+  lng: 153.2400,
+};
+
+const home: FavouritePlace = {
+  id: 'home',
+  name: 'Home',
+  state: 'QLD',
+  lat: -27.4698,
+  lng: 153.0251,
+  radarId: 'IDR663',
+  range: '128',
+  mode: 'rain',
+};
+const office: FavouritePlace = { ...home, id: 'office', name: 'Office' };
+const farm: FavouritePlace = { ...home, id: 'farm', name: 'The farm', range: '256', mode: 'doppler' };
+
+describe('favourites utils', () => {
+  describe('parseFavourites', () => {
+    it('should read saved favourites', () => {
+      expect(parseFavourites(JSON.stringify([home, farm]))).toEqual([home, farm]);
+    });
+
+    it('should return an empty list when nothing is saved', () => {
+      expect(parseFavourites(null)).toEqual([]);
+    });
+
+    it('should drop malformed favourites', () => {
+      const saved = JSON.stringify([home, { ...office, range: '1000' }, { ...farm, lat: 'north' }, null]);
+
+      expect(parseFavourites(saved)).toEqual([home]);
+    });
+
+    it('should return an empty list for invalid JSON', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(parseFavourites('not json')).toEqual([]);
+      expect(parseFavourites('{"id":"home"}')).toEqual([]);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('getFavouritePlace', () => {
+    const byronBay: Place = { name: 'Byron Bay', state: 'NSW', postcode: '2481', lat: -28.6474, lng: 153.602 };
+    const gpsLocation = { lat: -27.4698, lng: 153.0251 };
+    const weatherLocation: WeatherLocation = {
+      name: 'Mount Cotton',
+      state: 'QLD',
+      geohash: 'r7hfzs',
+      lat: -27.71,
+      lng: 153.24,
+    };
+
+    it('should use the searched place when the weather is for it', () => {
+      expect(getFavouritePlace('location', byronBay, gpsLocation, weatherLocation, brisbaneRadar)).toEqual(byronBay);
+    });
+
+    it('should use the radar site, not the searched place, when the weather is pinned to the radar', () => {
+      expect(getFavouritePlace('radar', byronBay, gpsLocation, weatherLocation, brisbaneRadar)).toEqual({
+        name: 'Mount Cotton',
+        state: 'QLD',
+        lat: -27.7178,
+        lng: 153.24,
+      });
+    });
+
+    it('should name the user location after the BoM location', () => {
+      expect(getFavouritePlace('location', null, gpsLocation, weatherLocation, brisbaneRadar)).toEqual({
+        name: 'Mount Cotton',
+        state: 'QLD',
+        lat: -27.4698,
+        lng: 153.0251,
+      });
+    });
+
+    it('should fall back to the radar before the weather has loaded', () => {
+      expect(getFavouritePlace('location', null, null, undefined, brisbaneRadar)).toEqual({
+        name: 'Brisbane',
+        state: 'QLD',
+        lat: -27.7178,
+        lng: 153.24,
+      });
+    });
+  });
+
+  describe('createFavourite', () => {
+    it('should keep the place and the radar settings', () => {
+      const favourite = createFavourite(
+        { name: 'Brisbane City', state: 'QLD', lat: -27.4698, lng: 153.0251 },
+        brisbaneRadar,
+        '64',
+        'doppler'
+      );
+
+      expect(favourite).toMatchObject({
+        name: 'Brisbane City',
+        state: 'QLD',
+        lat: -27.4698,
+        lng: 153.0251,
+        radarId: 'IDR663',
+        range: '64',
+        mode: 'doppler',
+      });
+      expect(favourite.id).toEqual(expect.any(String));
+    });
+
+    it('should give each favourite its own ID', () => {
+      const place = { name: 'Home', state: 'QLD', lat: -27.47, lng: 153.03 };
+
+      expect(createFavourite(place, brisbaneRadar, '128', 'rain').id)
+        .not.toBe(createFavourite(place, brisbaneRadar, '128', 'rain').id);
+    });
+
+    it('should fall back to the radar name for a blank name', () => {
+      const favourite = createFavourite({ name: '  ', state: 'QLD', lat: -27.47, lng: 153.03 }, brisbaneRadar, '128', 'rain');
+
+      expect(favourite.name).toBe('Brisbane');
+    });
+  });
+
+  describe('cleanFavouriteName', () => {
+    it('should trim and collapse whitespace', () => {
+      expect(cleanFavouriteName('  The   farm ')).toBe('The farm');
+    });
+
+    it('should cut long names short', () => {
+      expect(cleanFavouriteName('x'.repeat(100))).toHaveLength(MAX_FAVOURITE_NAME_LENGTH);
+    });
+  });
+
+  describe('addFavourite', () => {
+    it('should add to the end of the list', () => {
+      expect(addFavourite([home], office)).toEqual([home, office]);
+    });
+
+    it('should not add past the limit', () => {
+      const full = Array.from({ length: MAX_FAVOURITES }, (_, i) => ({ ...home, id: `place-${i}` }));
+
+      expect(addFavourite(full, office)).toBe(full);
+    });
+  });
+
+  describe('moveFavourite', () => {
+    it('should move a favourite up or down', () => {
+      expect(moveFavourite([home, office, farm], 'farm', -1)).toEqual([home, farm, office]);
+      expect(moveFavourite([home, office, farm], 'home', 1)).toEqual([office, home, farm]);
+    });
+
+    it('should leave the list alone at either end', () => {
+      const favourites = [home, office];
+
+      expect(moveFavourite(favourites, 'home', -1)).toBe(favourites);
+      expect(moveFavourite(favourites, 'office', 1)).toBe(favourites);
+      expect(moveFavourite(favourites, 'missing', 1)).toBe(favourites);
+    });
+  });
+
+  describe('removeFavourite', () => {
+    it('should remove the matching favourite', () => {
+      expect(removeFavourite([home, office, farm], 'office')).toEqual([home, farm]);
+    });
+  });
+});
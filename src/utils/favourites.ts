@@ -0,0 +1,126 @@
+import {
+  FavouritePlace,
+  Place,
+  RadarLocation,
+  RadarMode,
+  RadarRange,
+  WeatherLocation,
+  WeatherLocationSource,
+} from '../types/radar';
+import { UserLocation } from './geolocation';
+
+export const MAX_FAVOURITES = 20;
+export const MAX_FAVOURITE_NAME_LENGTH = 40;
+
+const RANGES: RadarRange[] = ['64', '128', '256', '512'];
+const MODES: RadarMode[] = ['rain', 'doppler'];
+
+function isFavouritePlace(value: unknown): value is FavouritePlace {
+  const favourite = value as FavouritePlace;
+  return (
+    typeof favourite === 'object' && favourite !== null &&
+    typeof favourite.id === 'string' &&
+    typeof favourite.name === 'string' &&
+    typeof favourite.state === 'string' &&
+    Number.isFinite(favourite.lat) &&
+    Number.isFinite(favourite.lng) &&
+    typeof favourite.radarId === 'string' &&
+    RANGES.includes(favourite.range) &&
+    MODES.includes(favourite.mode)
+  );
+}
+
+/**
+ * Reads saved favourites, dropping any that are malformed
+ */
+export function parseFavourites(saved: string | null): FavouritePlace[] {
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isFavouritePlace).slice(0, MAX_FAVOURITES) : [];
+  } catch (e) {
+    console.error('Failed to parse saved favourites:', e);
+    return [];
+  }
+}
+
+/**
+ * The place a new favourite is for - wherever the weather is showing, with
+ * the name and coordinates from the same source so it reopens there
+ */
+export function getFavouritePlace(
+  weatherSource: WeatherLocationSource,
+  selectedPlace: Place | null,
+  userLocation: UserLocation | null,
+  weatherLocation: WeatherLocation | undefined,
+  radar: RadarLocation
+): Pick<Place, 'name' | 'state' | 'lat' | 'lng'> {
+  if (weatherSource === 'location' && selectedPlace) {
+    return selectedPlace;
+  }
+
+  // The user's own location or the radar site, named after BoM's location for it
+  const target = weatherSource === 'location' && userLocation ? userLocation : radar;
+  return {
+    name: weatherLocation?.name ?? radar.name,
+    state: weatherLocation?.state ?? radar.state,
+    lat: target.lat,
+    lng: target.lng,
+  };
+}
+
+/**
+ * Makes a favourite from a place and the radar settings in use
+ */
+export function createFavourite(
+  place: Pick<Place, 'name' | 'state' | 'lat' | 'lng'>,
+  radar: RadarLocation,
+  range: RadarRange,
+  mode: RadarMode
+): FavouritePlace {
+  return {
+    id: crypto.randomUUID(),
+    name: cleanFavouriteName(place.name) || radar.name,
+    state: place.state,
+    lat: place.lat,
+    lng: place.lng,
+    radarId: radar.productId,
+    range,
+    mode,
+  };
+}
+
+/**
+ * Trims a favourite's name to something that fits in the header
+ */
+export function cleanFavouriteName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_FAVOURITE_NAME_LENGTH);
+}
+
+/**
+ * Adds a favourite to the end of the list, unless the list is full
+ */
+export function addFavourite(favourites: FavouritePlace[], favourite: FavouritePlace): FavouritePlace[] {
+  return favourites.length >= MAX_FAVOURITES ? favourites : [...favourites, favourite];
+}
+
+/**
+ * Moves a favourite up (-1) or down (1) the list
+ */
+export function moveFavourite(favourites: FavouritePlace[], id: string, offset: -1 | 1): FavouritePlace[] {
+  const index = favourites.findIndex((favourite) => favourite.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= favourites.length) return favourites;
+
+  const reordered = [...favourites];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+}
+
+/**
+ * Removes a favourite from the list
+ */
+export function removeFavourite(favourites: FavouritePlace[], id: string): FavouritePlace[] {
+  return favourites.filter((favourite) => favourite.id !== id);
+}
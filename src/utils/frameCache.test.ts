@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  preloadFrame,
+  preloadFrames,
+  getCachedFrame,
+  evictFramesBefore,
+  clearFrameCache,
+} from './frameCache';
+import { RadarImage } from '../types/radar';
+
+// Minimal Image stand-in - happy-dom doesn't actually fetch images
+const loadedUrls: string[] = [];
+
+class MockImage {
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private _src = '';
+
+  get src() {
+    return this._src;
+  }
+
+  set src(value: string) {
+    this._src = value;
+    loadedUrls.push(value);
+    setTimeout(() => {
+      if (value.includes('broken')) {
+        this.onerror?.();
+      } else {
+        this.onload?.();
+      }
+    }, 0);
+  }
+
+  decode() {
+    return Promise.resolve();
+  }
+}
+
+function frame(timestamp: string, name = 'IDR713'): RadarImage {
+  return { url: `/radar/${name}.T.${timestamp}.png`, timestamp };
+}
+
+describe('frameCache', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Image', MockImage);
+    loadedUrls.length = 0;
+    clearFrameCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('preloadFrame', () => {
+    it('should load and cache a frame', async () => {
+      const img = await preloadFrame(frame('202512040100'));
+
+      expect(img).toBeInstanceOf(MockImage);
+      expect(getCachedFrame('/radar/IDR713.T.202512040100.png')).toBe(img);
+    });
+
+    it('should only download a frame once', async () => {
+      await preloadFrame(frame('202512040100'));
+      await preloadFrame(frame('202512040100'));
+
+      expect(loadedUrls).toHaveLength(1);
+    });
+
+    it('should share the in-flight request for concurrent calls', async () => {
+      const [a, b] = await Promise.all([
+        preloadFrame(frame('202512040100')),
+        preloadFrame(frame('202512040100')),
+      ]);
+
+      expect(a).toBe(b);
+      expect(loadedUrls).toHaveLength(1);
+    });
+
+    it('should reject and forget frames that fail to load', async () => {
+      await expect(preloadFrame(frame('202512040100', 'broken'))).rejects.toThrow(
+        'Failed to load radar frame'
+      );
+      expect(getCachedFrame('/radar/broken.T.202512040100.png')).toBeUndefined();
+
+      // A retry should hit the network again
+      await preloadFrame(frame('202512040100', 'broken')).catch(() => {});
+      expect(loadedUrls).toHaveLength(2);
+    });
+  });
+
+  describe('preloadFrames', () => {
+    it('should report progress for every frame', async () => {
+      const onProgress = vi.fn();
+      const frames = [frame('202512040100'), frame('202512040106'), frame('202512040112')];
+
+      await preloadFrames(frames, onProgress);
+
+      expect(onProgress).toHaveBeenCalledWith(0, 3);
+      expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+      expect(onProgress).toHaveBeenCalledTimes(4);
+    });
+
+    it('should drop failed frames and keep the original order', async () => {
+      const frames = [
+        frame('202512040100'),
+        frame('202512040106', 'broken'),
+        frame('202512040112'),
+      ];
+
+      const ready = await preloadFrames(frames);
+
+      expect(ready.map((f) => f.timestamp)).toEqual(['202512040100', '202512040112']);
+    });
+
+    it('should only fetch new frames on refresh', async () => {
+      await preloadFrames([frame('202512040100'), frame('202512040106')]);
+      await preloadFrames([frame('202512040106'), frame('202512040112')]);
+
+      expect(loadedUrls).toEqual([
+        '/radar/IDR713.T.202512040100.png',
+        '/radar/IDR713.T.202512040106.png',
+        '/radar/IDR713.T.202512040112.png',
+      ]);
+    });
+
+    it('should handle an empty loop', async () => {
+      const onProgress = vi.fn();
+      expect(await preloadFrames([], onProgress)).toEqual([]);
+      expect(onProgress).toHaveBeenCalledWith(0, 0);
+    });
+  });
+
+  describe('evictFramesBefore', () => {
+    it('should evict frames older than the cutoff', async () => {
+      await preloadFrames([frame('202512040100'), frame('202512040106'), frame('202512040112')]);
+
+      const evicted = evictFramesBefore('202512040106');
+
+      expect(evicted).toBe(1);
+      expect(getCachedFrame('/radar/IDR713.T.202512040100.png')).toBeUndefined();
+      expect(getCachedFrame('/radar/IDR713.T.202512040106.png')).toBeDefined();
+      expect(getCachedFrame('/radar/IDR713.T.202512040112.png')).toBeDefined();
+    });
+
+    it('should evict nothing when all frames are current', async () => {
+      await preloadFrames([frame('202512040106')]);
+      expect(evictFramesBefore('202512040100')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { RadarImage } from '../types/radar';
+import { loadImage, readImagePixels } from './canvas';
+
+/**
+ * In-memory cache of decoded radar loop frames
+ *
+ * Frames are keyed by URL and keep a reference to the decoded <img>, so the
+ * browser doesn't drop the bitmap between animation cycles and the 5-minute
+ * refresh only downloads timestamps we haven't seen yet.
+ */
+
+interface CachedFrame {
+  timestamp: string;
+  promise: Promise<HTMLImageElement>;
+  image?: HTMLImageElement; // Set once the frame has finished decoding
+  pixels?: ImageData; // Read lazily the first time a frame's pixels are needed
+}
+
+const frameCache = new Map<string, CachedFrame>();
+
+/**
+ * Preloads a radar frame, reusing the cached copy if it's already been fetched
+ * Failed frames are removed from the cache so the next refresh retries them
+ */
+export function preloadFrame(frame: RadarImage): Promise<HTMLImageElement> {
+  const cached = frameCache.get(frame.url);
+  if (cached) return cached.promise;
+
+  const entry: CachedFrame = {
+    timestamp: frame.timestamp,
+    promise: loadImage(frame.url).then(
+      (img) => {
+        entry.image = img;
+        return img;
+      },
+      () => {
+        frameCache.delete(frame.url);
+        throw new Error(`Failed to load radar frame: ${frame.url}`);
+      }
+    ),
+  };
+
+  frameCache.set(frame.url, entry);
+  return entry.promise;
+}
+
+/**
+ * Preloads every frame of a radar loop
+ *
+ * Reports progress as frames complete and resolves with the frames that
+ * loaded successfully (in their original order), dropping any that failed.
+ */
+export async function preloadFrames(
+  frames: RadarImage[],
+  onProgress?: (loaded: number, total: number) => void
+): Promise<RadarImage[]> {
+  let loaded = 0;
+  onProgress?.(loaded, frames.length);
+
+  const results = await Promise.allSettled(
+    frames.map((frame) =>
+      preloadFrame(frame).finally(() => {
+        loaded++;
+        onProgress?.(loaded, frames.length);
+      })
+    )
+  );
+
+  return frames.filter((_, index) => results[index].status === 'fulfilled');
+}
+
+/**
+ * Returns the decoded image for a frame, or undefined if it isn't ready yet
+ */
+export function getCachedFrame(url: string): HTMLImageElement | undefined {
+  return frameCache.get(url)?.image;
+}
+
+/**
+ * Returns the RGBA pixels of a decoded frame, or undefined if it isn't ready yet
+ * Throws if the frame's pixels can't be read (see readImagePixels)
+ */
+export function getFramePixels(url: string): ImageData | undefined {
+  const entry = frameCache.get(url);
+  if (!entry?.image) return undefined;
+
+  if (!entry.pixels) {
+    entry.pixels = readImagePixels(entry.image);
+  }
+  return entry.pixels;
+}
+
+/**
+ * Evicts every cached frame older than the given timestamp (YYYYMMDDHHmm)
+ * Returns the number of frames evicted
+ */
+export function evictFramesBefore(timestamp: string): number {
+  let evicted = 0;
+
+  for (const [url, entry] of frameCache) {
+    // Timestamps are fixed-width so string comparison matches chronological order
+    if (entry.timestamp < timestamp) {
+      frameCache.delete(url);
+      evicted++;
+    }
+  }
+
+  return evicted;
+}
+
+/**
+ * Clears all cached frames
+ */
+export function clearFrameCache(): void {
+  frameCache.clear();
+}
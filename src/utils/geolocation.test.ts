@@ -4,6 +4,10 @@ import {
   calculateDistance,
   findNearestRadars,
   getCoordinatesFromPostcode,
+  lookupPostcode,
+  inflatePostcodeData,
+  parsePostcodeData,
+  searchPostcodeLocalities,
   isValidAustralianPostcode,
   saveLocationPreference,
   loadLocationPreference,
@@ -255,49 +259,173 @@ describe('geolocation utils', () => {
     });
   });
 
+  describe('inflatePostcodeData', () => {
+    it('should decompress base64 deflated data', async () => {
+      const data = '0800 NT Darwin City,-12.4634,130.8456\n0801 NT *Darwin,-12.4634,130.8456';
+      const stream = new Response(data).body!.pipeThrough(new CompressionStream('deflate-raw'));
+      const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+      const compressed = btoa(String.fromCharCode(...bytes));
+
+      expect(await inflatePostcodeData(compressed)).toBe(data);
+    });
+  });
+
+  describe('parsePostcodeData', () => {
+    it('should parse each postcode with its localities', () => {
+      const index = parsePostcodeData('\n0810 NT Casuarina,-12.3736,130.8814;Rapid Creek,-12.3806,130.8597\n');
+
+      expect(index.get('0810')).toEqual([
+        { postcode: '0810', name: 'Casuarina', state: 'NT', lat: -12.3736, lng: 130.8814, poBox: false },
+        { postcode: '0810', name: 'Rapid Creek', state: 'NT', lat: -12.3806, lng: 130.8597, poBox: false },
+      ]);
+    });
+
+    it('should flag PO box localities', () => {
+      const index = parsePostcodeData('4001 QLD *Brisbane,-27.4698,153.0251');
+
+      expect(index.get('4001')?.[0]).toMatchObject({ name: 'Brisbane', poBox: true });
+    });
+
+    it('should skip blank lines', () => {
+      expect(parsePostcodeData('\n\n').size).toBe(0);
+    });
+  });
+
+  describe('lookupPostcode', () => {
+    it('should return every locality for a postcode', async () => {
+      const localities = await lookupPostcode('4000');
+
+      expect(localities.map((l) => l.name)).toEqual(['Brisbane City', 'Petrie Terrace', 'Spring Hill']);
+      expect(localities.every((l) => l.state === 'QLD' && l.postcode === '4000')).toBe(true);
+    });
+
+    it('should keep the leading zero on NT postcodes', async () => {
+      const [darwin] = await lookupPostcode('0800');
+
+      expect(darwin).toMatchObject({ postcode: '0800', name: 'Darwin City', state: 'NT' });
+      expect(await lookupPostcode('800')).toEqual([]);
+    });
+
+    it('should find NT postcodes across the 08xx range', async () => {
+      expect((await lookupPostcode('0810')).map((l) => l.name)).toContain('Nightcliff');
+      expect((await lookupPostcode('0870'))[0].name).toBe('Alice Springs');
+      expect((await lookupPostcode('0880'))[0].name).toBe('Nhulunbuy');
+    });
+
+    it('should return PO-box-only postcodes', async () => {
+      const localities = await lookupPostcode('2001');
+
+      expect(localities).toHaveLength(1);
+      expect(localities[0]).toMatchObject({ name: 'Sydney', state: 'NSW', poBox: true });
+    });
+
+    it('should return an empty list for unknown or invalid postcodes', async () => {
+      expect(await lookupPostcode('9999')).toEqual([]);
+      expect(await lookupPostcode('abcd')).toEqual([]);
+      expect(await lookupPostcode('')).toEqual([]);
+    });
+  });
+
+  describe('searchPostcodeLocalities', () => {
+    it('should match locality names from the start', async () => {
+      const results = await searchPostcodeLocalities('fre');
+      expect(results.map((l) => l.name)).toEqual(['Fremantle']);
+    });
+
+    it('should find regional towns without the search API', async () => {
+      const [mountGambier] = await searchPostcodeLocalities('mount gam');
+      expect(mountGambier).toMatchObject({ name: 'Mount Gambier', postcode: '5290', state: 'SA' });
+
+      const [surfers] = await searchPostcodeLocalities('Surfers Paradise');
+      expect(surfers).toMatchObject({ name: 'Surfers Paradise', postcode: '4217', state: 'QLD' });
+    });
+
+    it('should put exact matches first', async () => {
+      const results = await searchPostcodeLocalities('brisbane');
+      expect(results[0].name).toBe('Brisbane City');
+
+      const [melbourne] = await searchPostcodeLocalities('Melbourne');
+      expect(melbourne).toMatchObject({ name: 'Melbourne', postcode: '3000' });
+    });
+
+    it('should leave PO box localities out of name searches', async () => {
+      const results = await searchPostcodeLocalities('sydney');
+      expect(results.every((l) => !l.poBox)).toBe(true);
+      expect(results.map((l) => l.postcode)).not.toContain('2001');
+    });
+
+    it('should find every locality for a full postcode', async () => {
+      const results = await searchPostcodeLocalities('0820');
+      expect(results.map((l) => l.name)).toEqual(['Fannie Bay', 'Parap', 'Stuart Park']);
+    });
+
+    it('should not match partial postcodes', async () => {
+      expect(await searchPostcodeLocalities('08')).toEqual([]);
+    });
+
+    it('should limit the results', async () => {
+      expect(await searchPostcodeLocalities('2000', 2)).toHaveLength(2);
+    });
+
+    it('should ignore queries shorter than two characters', async () => {
+      expect(await searchPostcodeLocalities('s')).toEqual([]);
+      expect(await searchPostcodeLocalities('  ')).toEqual([]);
+    });
+  });
+
   describe('getCoordinatesFromPostcode', () => {
-    it('should return coordinates for exact postcode match', () => {
-      const result = getCoordinatesFromPostcode('4000');
+    it('should return coordinates for exact postcode match', async () => {
+      const result = await getCoordinatesFromPostcode('4000');
       expect(result).toEqual({ lat: -27.4698, lng: 153.0251 }); // Brisbane CBD
     });
 
-    it('should return coordinates for Sydney CBD', () => {
-      const result = getCoordinatesFromPostcode('2000');
+    it('should return coordinates for Sydney CBD', async () => {
+      const result = await getCoordinatesFromPostcode('2000');
       expect(result).toEqual({ lat: -33.8688, lng: 151.2093 });
     });
 
-    it('should return coordinates for Melbourne CBD', () => {
-      const result = getCoordinatesFromPostcode('3000');
+    it('should return coordinates for Melbourne CBD', async () => {
+      const result = await getCoordinatesFromPostcode('3000');
       expect(result).toEqual({ lat: -37.8136, lng: 144.9631 });
     });
 
-    it('should handle whitespace in postcode', () => {
-      const result = getCoordinatesFromPostcode('  4000  ');
+    it('should handle whitespace in postcode', async () => {
+      const result = await getCoordinatesFromPostcode('  4000  ');
       expect(result).toEqual({ lat: -27.4698, lng: 153.0251 });
     });
 
-    it('should return approximate match for unlisted postcode', () => {
-      // 4001 should match 4000 (same prefix)
-      const result = getCoordinatesFromPostcode('4001');
+    it('should use the post office location for PO-box-only postcodes', async () => {
+      // 4001 is Brisbane GPO boxes
+      const result = await getCoordinatesFromPostcode('4001');
       expect(result).toEqual({ lat: -27.4698, lng: 153.0251 });
     });
 
+    it('should return null for postcodes missing from the data', async () => {
+      // 0810 (Casuarina) is in the data, but that doesn't make it 0812
+      expect(await getCoordinatesFromPostcode('0812')).toBeNull();
+    });
+
+    it('should return null for unallocated postcodes', async () => {
+      // Nothing is numbered below 0200 - valid format, but no match
+      const result = await getCoordinatesFromPostcode('0100');
+      expect(result).toBeNull();
+    });
 
-    it('should return null for unknown postcode', () => {
-      const result = getCoordinatesFromPostcode('9999');
+    it('should return null for unknown postcode', async () => {
+      const result = await getCoordinatesFromPostcode('9999');
       expect(result).toBeNull();
     });
 
-    it('should return null for invalid postcode format', () => {
-      const result = getCoordinatesFromPostcode('invalid');
+    it('should return null for invalid postcode format', async () => {
+      const result = await getCoordinatesFromPostcode('invalid');
       expect(result).toBeNull();
     });
 
-    it('should handle postcodes from different states', () => {
-      expect(getCoordinatesFromPostcode('5000')).toBeTruthy(); // SA
-      expect(getCoordinatesFromPostcode('6000')).toBeTruthy(); // WA
-      expect(getCoordinatesFromPostcode('7000')).toBeTruthy(); // TAS
-      expect(getCoordinatesFromPostcode('0800')).toBeTruthy(); // NT
+    it('should handle postcodes from different states', async () => {
+      expect(await getCoordinatesFromPostcode('5000')).toBeTruthy(); // SA
+      expect(await getCoordinatesFromPostcode('6000')).toBeTruthy(); // WA
+      expect(await getCoordinatesFromPostcode('7000')).toBeTruthy(); // TAS
+      expect(await getCoordinatesFromPostcode('0800')).toBeTruthy(); // NT
     });
   });
 
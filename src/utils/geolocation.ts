@@ -112,82 +112,128 @@ export function findNearestRadars(
   return limit ? radarsWithDistance.slice(0, limit) : radarsWithDistance;
 }
 
+export interface PostcodeLocality extends UserLocation {
+  postcode: string;
+  name: string;
+  state: string;
+  poBox: boolean; // Only PO boxes, no street deliveries
+}
+
 /**
- * Basic Australian postcode to approximate coordinates mapping
- * This is a simplified lookup for common postcodes
- * For production, consider using a proper geocoding API
+ * Postcode lookup table, built the first time it's needed
+ * The data is its own chunk, so the main bundle doesn't grow with the list
  */
-const POSTCODE_MAP: Record<string, UserLocation> = {
-  // NSW
-  '2000': { lat: -33.8688, lng: 151.2093 }, // Sydney CBD
-  '2010': { lat: -33.8812, lng: 151.2020 }, // Surry Hills
-  '2060': { lat: -33.8200, lng: 151.1800 }, // North Sydney
-  '2100': { lat: -33.7500, lng: 151.2500 }, // Northern Beaches
-  '2150': { lat: -33.8000, lng: 151.0000 }, // Parramatta
-  '2300': { lat: -32.9267, lng: 151.7789 }, // Newcastle
-  '2500': { lat: -34.4278, lng: 150.8931 }, // Wollongong
-  '2600': { lat: -35.2809, lng: 149.1300 }, // Canberra
-
-  // VIC
-  '3000': { lat: -37.8136, lng: 144.9631 }, // Melbourne CBD
-  '3004': { lat: -37.8300, lng: 144.9800 }, // Melbourne inner
-  '3121': { lat: -37.8200, lng: 145.0000 }, // Richmond
-  '3150': { lat: -37.9000, lng: 145.1300 }, // Glen Waverley
-  '3175': { lat: -38.0000, lng: 145.1800 }, // Dandenong
-  '3550': { lat: -36.7667, lng: 144.2833 }, // Bendigo
-  '3850': { lat: -37.2833, lng: 146.4167 }, // Sale
-
-  // QLD
-  '4000': { lat: -27.4698, lng: 153.0251 }, // Brisbane CBD
-  '4101': { lat: -27.4833, lng: 153.0167 }, // South Brisbane
-  '4217': { lat: -28.0167, lng: 153.4000 }, // Gold Coast
-  '4350': { lat: -27.5598, lng: 151.9507 }, // Toowoomba
-  '4810': { lat: -19.2590, lng: 146.8169 }, // Townsville
-  '4870': { lat: -16.9186, lng: 145.7781 }, // Cairns
-
-  // SA
-  '5000': { lat: -34.9285, lng: 138.6007 }, // Adelaide CBD
-  '5062': { lat: -34.9667, lng: 138.6333 }, // Adelaide inner
-  '5095': { lat: -34.8333, lng: 138.6667 }, // Mawson Lakes
-  '5290': { lat: -37.8278, lng: 140.7825 }, // Mount Gambier
-
-  // WA
-  '6000': { lat: -31.9505, lng: 115.8605 }, // Perth CBD
-  '6008': { lat: -31.9167, lng: 115.8000 }, // Subiaco
-  '6160': { lat: -32.0333, lng: 115.8333 }, // Fremantle
-  '6430': { lat: -30.7497, lng: 121.4655 }, // Kalgoorlie
-  '6725': { lat: -17.9614, lng: 122.2359 }, // Broome
-
-  // TAS
-  '7000': { lat: -42.8821, lng: 147.3272 }, // Hobart
-  '7250': { lat: -41.4332, lng: 147.1441 }, // Launceston
-
-  // NT
-  '0800': { lat: -12.4634, lng: 130.8456 }, // Darwin
-  '0870': { lat: -23.6980, lng: 133.8807 }, // Alice Springs
-};
+let postcodeIndex: Promise<Map<string, PostcodeLocality[]>> | null = null;
 
 /**
- * Get coordinates for an Australian postcode
- * Returns null if postcode not found
+ * Decompress the postcode data, which is stored deflated and base64 encoded
+ * by scripts/build-postcodes.mjs
  */
-export function getCoordinatesFromPostcode(postcode: string): UserLocation | null {
+export async function inflatePostcodeData(compressed: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(compressed), (char) => char.charCodeAt(0));
+  const stream = new Response(bytes).body!.pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Parse the compact postcode data (see src/data/postcodes.ts) into a lookup table
+ */
+export function parsePostcodeData(data: string): Map<string, PostcodeLocality[]> {
+  const index = new Map<string, PostcodeLocality[]>();
+
+  for (const line of data.split('\n')) {
+    const [postcode, state, ...rest] = line.split(' ');
+    if (!postcode || !state) continue;
+
+    const localities = rest.join(' ').split(';').map((entry) => {
+      const [name, lat, lng] = entry.split(',');
+      const poBox = name.startsWith('*');
+      return {
+        postcode,
+        name: poBox ? name.slice(1) : name,
+        state,
+        lat: Number(lat),
+        lng: Number(lng),
+        poBox,
+      };
+    });
+
+    index.set(postcode, localities);
+  }
+
+  return index;
+}
+
+function loadPostcodeIndex(): Promise<Map<string, PostcodeLocality[]>> {
+  if (!postcodeIndex) {
+    postcodeIndex = import('../data/postcodes')
+      .then(({ POSTCODE_DATA }) => inflatePostcodeData(POSTCODE_DATA))
+      .then(parsePostcodeData)
+      .catch((error) => {
+        console.error('Failed to load postcode data:', error);
+        postcodeIndex = null; // Let the next lookup try again
+        throw error;
+      });
+  }
+  return postcodeIndex;
+}
+
+/**
+ * Get the localities covered by an Australian postcode
+ * Returns an empty list if the postcode doesn't exist
+ */
+export async function lookupPostcode(postcode: string): Promise<PostcodeLocality[]> {
   const cleaned = postcode.trim();
+  if (!isValidAustralianPostcode(cleaned)) {
+    return [];
+  }
+
+  const index = await loadPostcodeIndex();
+  return index.get(cleaned) ?? [];
+}
+
+/**
+ * Get coordinates for an Australian postcode
+ * Uses the postcode's main locality, preferring one with street deliveries
+ * over a PO box. Returns null if postcode not found - a neighbouring
+ * postcode can be a different town, so there's no guessing
+ */
+export async function getCoordinatesFromPostcode(postcode: string): Promise<UserLocation | null> {
+  const localities = await lookupPostcode(postcode);
+  const locality = localities.find((l) => !l.poBox) ?? localities[0];
+
+  return locality ? { lat: locality.lat, lng: locality.lng } : null;
+}
+
+/**
+ * Search the postcode data by locality name or full postcode
+ * Names match from the start, exact matches first. PO box localities only
+ * show up when searching by postcode
+ */
+export async function searchPostcodeLocalities(query: string, limit = 5): Promise<PostcodeLocality[]> {
+  const cleaned = query.trim().toLowerCase();
+  if (cleaned.length < 2) {
+    return [];
+  }
 
-  // Direct lookup
-  if (POSTCODE_MAP[cleaned]) {
-    return POSTCODE_MAP[cleaned];
+  if (/^\d+$/.test(cleaned)) {
+    return (await lookupPostcode(cleaned)).slice(0, limit);
   }
 
-  // Try to find approximate match (e.g., 2001 -> use 2000)
-  const prefix = cleaned.substring(0, 3);
-  for (const key in POSTCODE_MAP) {
-    if (key.startsWith(prefix)) {
-      return POSTCODE_MAP[key];
+  const index = await loadPostcodeIndex();
+  const matches: PostcodeLocality[] = [];
+  for (const localities of index.values()) {
+    for (const locality of localities) {
+      if (!locality.poBox && locality.name.toLowerCase().startsWith(cleaned)) {
+        matches.push(locality);
+      }
     }
   }
 
-  return null;
+  const isExact = (locality: PostcodeLocality) => locality.name.toLowerCase() === cleaned;
+  return matches
+    .sort((a, b) => Number(isExact(b)) - Number(isExact(a)) || a.name.localeCompare(b.name))
+    .slice(0, limit);
 }
 
 /**
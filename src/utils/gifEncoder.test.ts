@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGif, quantizePixels, buildGifPalette } from './gifEncoder';
+import { FramePixels } from './canvas';
+
+function solidFrame(width: number, height: number, rgb: [number, number, number]): FramePixels {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...rgb, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+function noiseFrame(width: number, height: number, seed: number): FramePixels {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let i = 0; i < data.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = i % 4 === 3 ? 255 : state & 0xff;
+  }
+  return { width, height, data };
+}
+
+interface DecodedFrame {
+  delay: number;
+  indices: number[];
+}
+
+// Small GIF decoder, enough to read back what encodeGif writes
+function decodeGif(bytes: Uint8Array): { width: number; height: number; frames: DecodedFrame[] } {
+  let offset = 0;
+  const byte = () => bytes[offset++];
+  const word = () => byte() | (byte() << 8);
+
+  const header = String.fromCharCode(...bytes.slice(0, 6));
+  expect(header).toBe('GIF89a');
+  offset = 6;
+
+  const width = word();
+  const height = word();
+  const packed = byte();
+  offset += 2;
+  if (packed & 0x80) offset += 3 * (1 << ((packed & 7) + 1));
+
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+
+  const readSubBlocks = () => {
+    const data: number[] = [];
+    for (let size = byte(); size > 0; size = byte()) {
+      for (let i = 0; i < size; i++) data.push(byte());
+    }
+    return data;
+  };
+
+  while (offset < bytes.length) {
+    const marker = byte();
+    if (marker === 0x3b) break;
+
+    if (marker === 0x21) {
+      const label = byte();
+      if (label === 0xf9) {
+        byte();
+        byte();
+        delay = word();
+        byte(); // Transparent colour index
+      } else {
+        const size = byte();
+        offset += size;
+        readSubBlocks();
+        continue;
+      }
+      readSubBlocks();
+    } else if (marker === 0x2c) {
+      offset += 8;
+      byte();
+
+      const minCodeSize = byte();
+      const data = readSubBlocks();
+      const clearCode = 1 << minCodeSize;
+      const endCode = clearCode + 1;
+
+      let codeSize = minCodeSize + 1;
+      let table: number[][] = [];
+      const reset = () => {
+        table = [];
+        for (let i = 0; i < clearCode; i++) table.push([i]);
+        table.push([], []);
+        codeSize = minCodeSize + 1;
+      };
+      reset();
+
+      const indices: number[] = [];
+      let bitPos = 0;
+      let previous: number[] | null = null;
+
+      while (true) {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++) {
+          const bit = (data[bitPos >> 3] >> (bitPos & 7)) & 1;
+          code |= bit << i;
+          bitPos++;
+        }
+
+        if (code === clearCode) {
+          reset();
+          previous = null;
+          continue;
+        }
+        if (code === endCode) break;
+
+        let entry: number[];
+        if (code < table.length) {
+          entry = table[code];
+          if (previous) table.push([...previous, entry[0]]);
+        } else {
+          entry = [...previous!, previous![0]];
+          table.push(entry);
+        }
+        indices.push(...entry);
+        previous = entry;
+
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      }
+
+      frames.push({ delay, indices });
+    }
+  }
+
+  return { width, height, frames };
+}
+
+describe('gifEncoder', () => {
+  describe('quantizePixels', () => {
+    it('should map pure colours to the matching palette entries', () => {
+      const palette = buildGifPalette();
+      const pixels = { width: 3, height: 1, data: [255, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255] };
+
+      const indices = quantizePixels(pixels);
+
+      expect([...palette.slice(indices[0] * 3, indices[0] * 3 + 3)]).toEqual([255, 0, 0]);
+      expect([...palette.slice(indices[1] * 3, indices[1] * 3 + 3)]).toEqual([0, 0, 0]);
+      expect([...palette.slice(indices[2] * 3, indices[2] * 3 + 3)]).toEqual([255, 255, 255]);
+    });
+  });
+
+  describe('encodeGif', () => {
+    it('should write a valid header, screen size and trailer', () => {
+      const gif = encodeGif([{ pixels: solidFrame(4, 2, [0, 0, 255]), delayMs: 500 }], 4, 2);
+
+      expect(String.fromCharCode(...gif.slice(0, 6))).toBe('GIF89a');
+      expect(gif[6] | (gif[7] << 8)).toBe(4);
+      expect(gif[8] | (gif[9] << 8)).toBe(2);
+      expect(gif[gif.length - 1]).toBe(0x3b);
+    });
+
+    it('should round-trip frames and delays', () => {
+      const frames = [
+        { pixels: solidFrame(8, 8, [255, 0, 0]), delayMs: 500 },
+        { pixels: solidFrame(8, 8, [0, 255, 0]), delayMs: 1500 },
+      ];
+
+      const decoded = decodeGif(encodeGif(frames, 8, 8));
+
+      expect(decoded.frames).toHaveLength(2);
+      expect(decoded.frames.map((frame) => frame.delay)).toEqual([50, 150]);
+      expect(decoded.frames[0].indices).toEqual([...quantizePixels(frames[0].pixels)]);
+      expect(decoded.frames[1].indices).toEqual([...quantizePixels(frames[1].pixels)]);
+    });
+
+    it('should round-trip noisy frames that fill the code table', () => {
+      // 128x128 of noise overflows the 4096-entry LZW table several times
+      const pixels = noiseFrame(128, 128, 42);
+
+      const decoded = decodeGif(encodeGif([{ pixels, delayMs: 100 }], 128, 128));
+
+      expect(decoded.frames[0].indices).toEqual([...quantizePixels(pixels)]);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { FramePixels } from './canvas';
+
+/**
+ * Minimal animated GIF (GIF89a) encoder
+ *
+ * Frames are quantised to a fixed 6x7x6 colour cube (252 colours) rather than
+ * a per-image palette. Radar imagery is mostly flat colour, so a uniform cube
+ * looks fine and keeps encoding fast and deterministic. The animation loops
+ * forever.
+ */
+
+export interface GifFrame {
+  pixels: FramePixels;
+  delayMs: number;
+}
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const PALETTE_SIZE = 256; // Colour tables must be a power of two; unused entries stay black
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  word(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Builds the fixed colour cube palette as RGB triples
+ */
+export function buildGifPalette(): Uint8Array {
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  let index = 0;
+
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        palette[index++] = Math.round((r * 255) / (RED_LEVELS - 1));
+        palette[index++] = Math.round((g * 255) / (GREEN_LEVELS - 1));
+        palette[index++] = Math.round((b * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+
+  return palette;
+}
+
+/**
+ * Maps RGBA pixels to indices in the colour cube (alpha is ignored)
+ */
+export function quantizePixels(pixels: FramePixels): Uint8Array {
+  const { width, height, data } = pixels;
+  const indices = new Uint8Array(width * height);
+
+  for (let i = 0; i < indices.length; i++) {
+    const offset = i * 4;
+    const r = Math.round((data[offset] * (RED_LEVELS - 1)) / 255);
+    const g = Math.round((data[offset + 1] * (GREEN_LEVELS - 1)) / 255);
+    const b = Math.round((data[offset + 2] * (BLUE_LEVELS - 1)) / 255);
+    indices[i] = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+  }
+
+  return indices;
+}
+
+/**
+ * LZW-compresses an index stream and writes it as GIF data sub-blocks
+ */
+function writeImageData(writer: ByteWriter, indices: Uint8Array): void {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+
+  // Codes are packed least significant bit first, then split into blocks of up to 255 bytes
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    writer.byte(block.length);
+    block.forEach((value) => writer.byte(value));
+    block.length = 0;
+  };
+
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  writer.byte(MIN_CODE_SIZE);
+
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  emit(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const code = table.get(key);
+
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+
+    if (nextCode === MAX_CODE) {
+      // Table is full - start again
+      emit(clearCode, codeSize);
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+      table = new Map();
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+
+    prefix = value;
+  }
+
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) {
+    block.push(bitBuffer & 0xff);
+    if (block.length === 255) flushBlock();
+  }
+  if (block.length > 0) flushBlock();
+
+  writer.byte(0); // Block terminator
+}
+
+/**
+ * Encodes frames as a looping animated GIF
+ * Every frame must be width x height pixels
+ */
+export function encodeGif(frames: GifFrame[], width: number, height: number): Uint8Array<ArrayBuffer> {
+  const writer = new ByteWriter();
+
+  // Header and logical screen descriptor with a 256 colour global table
+  writer.string('GIF89a');
+  writer.word(width);
+  writer.word(height);
+  writer.byte(0xf7);
+  writer.byte(0); // Background colour index
+  writer.byte(0); // Pixel aspect ratio
+  buildGifPalette().forEach((value) => writer.byte(value));
+
+  // Loop forever
+  writer.byte(0x21);
+  writer.byte(0xff);
+  writer.byte(11);
+  writer.string('NETSCAPE2.0');
+  writer.byte(3);
+  writer.byte(1);
+  writer.word(0);
+  writer.byte(0);
+
+  for (const frame of frames) {
+    // Graphic control extension - frame delay in hundredths of a second
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    writer.byte(0x04); // Leave the frame in place, no transparency
+    writer.word(Math.max(Math.round(frame.delayMs / 10), 2));
+    writer.byte(0);
+    writer.byte(0);
+
+    // Image descriptor covering the full canvas
+    writer.byte(0x2c);
+    writer.word(0);
+    writer.word(0);
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0);
+
+    writeImageData(writer, quantizePixels(frame.pixels));
+  }
+
+  writer.byte(0x3b); // Trailer
+  return writer.result();
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchLocationSearch, localityToPlace, mergePlaces, formatPlaceName } from './locationSearch';
+import { Place } from '../types/radar';
+
+const byronBay: Place = {
+  name: 'Byron Bay',
+  state: 'NSW',
+  postcode: '2481',
+  geohash: 'r7h4n5t',
+  lat: -28.6435,
+  lng: 153.6121,
+};
+
+const brisbane: Place = { name: 'Brisbane', state: 'QLD', postcode: '4000', lat: -27.4679, lng: 153.0196 };
+const brisbaneCity: Place = { name: 'Brisbane City', state: 'QLD', postcode: '4000', lat: -27.4698, lng: 153.0251 };
+
+describe('locationSearch utils', () => {
+  describe('fetchLocationSearch', () => {
+    it('should return the matching places', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ query: 'byron bay', locations: [byronBay], stale: false })
+      );
+
+      const data = await fetchLocationSearch(' byron bay ');
+
+      expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/locations\/search\?q=byron%20bay$/);
+      expect(data.locations).toEqual([byronBay]);
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw the API error message', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Failed to search locations' }, { status: 503 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchLocationSearch('byron')).rejects.toThrow('Failed to search locations');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw when the response has no locations', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(Response.json({ query: 'byron' }));
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchLocationSearch('byron')).rejects.toThrow('Invalid search data: missing locations');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('localityToPlace', () => {
+    it('should keep only the place fields', () => {
+      const place = localityToPlace({ ...brisbaneCity, postcode: '4000', poBox: false });
+
+      expect(place).toEqual(brisbaneCity);
+    });
+  });
+
+  describe('mergePlaces', () => {
+    it('should put BoM results before local ones', () => {
+      expect(mergePlaces([brisbane], [brisbaneCity])).toEqual([brisbane, brisbaneCity]);
+    });
+
+    it('should drop local places BoM already returned', () => {
+      const local = { ...brisbane, name: 'BRISBANE', lat: -27.47 };
+
+      expect(mergePlaces([brisbane], [local])).toEqual([brisbane]);
+    });
+
+    it('should keep places with the same name in different states', () => {
+      const richmondVic: Place = { name: 'Richmond', state: 'VIC', postcode: '3121', lat: -37.82, lng: 145.0 };
+      const richmondNsw: Place = { name: 'Richmond', state: 'NSW', postcode: '2753', lat: -33.6, lng: 150.75 };
+
+      expect(mergePlaces([richmondNsw], [richmondVic])).toHaveLength(2);
+    });
+
+    it('should limit the results', () => {
+      expect(mergePlaces([byronBay, brisbane], [brisbaneCity], 2)).toEqual([byronBay, brisbane]);
+    });
+  });
+
+  describe('formatPlaceName', () => {
+    it('should include the state and postcode', () => {
+      expect(formatPlaceName(byronBay)).toBe('Byron Bay NSW 2481');
+    });
+
+    it('should leave out a missing postcode', () => {
+      expect(formatPlaceName({ ...byronBay, postcode: null })).toBe('Byron Bay NSW');
+    });
+  });
+});
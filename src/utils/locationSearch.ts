@@ -0,0 +1,73 @@
+import { LocationSearchData, Place } from '../types/radar';
+import { PostcodeLocality } from './geolocation';
+
+// Use environment variable or default to localhost for development
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+// BoM's search needs at least 3 characters
+export const MIN_SEARCH_LENGTH = 3;
+
+/**
+ * Searches BoM's locations for a suburb, town or postcode
+ */
+export async function fetchLocationSearch(query: string): Promise<LocationSearchData> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/locations/search?q=${encodeURIComponent(query.trim())}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.locations)) {
+      throw new Error('Invalid search data: missing locations');
+    }
+
+    return data as LocationSearchData;
+  } catch (error) {
+    console.error('Error searching locations:', error);
+    throw error;
+  }
+}
+
+/**
+ * Converts a locality from the bundled postcode data to a place
+ */
+export function localityToPlace(locality: PostcodeLocality): Place {
+  return {
+    name: locality.name,
+    state: locality.state,
+    postcode: locality.postcode,
+    lat: locality.lat,
+    lng: locality.lng,
+  };
+}
+
+/**
+ * Combines BoM's search results with the local postcode data
+ * BoM's come first as they're the places it has forecasts for. A local
+ * locality with the same name and state as a BoM result is dropped
+ */
+export function mergePlaces(remote: Place[], local: Place[], limit = 8): Place[] {
+  const seen = new Set<string>();
+  const merged: Place[] = [];
+
+  for (const place of [...remote, ...local]) {
+    const key = `${place.name.toLowerCase()}|${place.state}`;
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    merged.push(place);
+  }
+
+  return merged.slice(0, limit);
+}
+
+/**
+ * Formats a place for display, e.g. "Byron Bay NSW 2481"
+ */
+export function formatPlaceName(place: Place): string {
+  return [place.name, place.state, place.postcode].filter(Boolean).join(' ');
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getFrameDelays, getExportFilename } from './loopExport';
+import { RadarImage } from '../types/radar';
+
+const playback = { frameDuration: 500, latestDwell: 1000, frameCount: null };
+
+const observed: RadarImage[] = [
+  { url: 'a.png', timestamp: '202501011200' },
+  { url: 'b.png', timestamp: '202501011206' },
+  { url: 'c.png', timestamp: '202501011212' },
+];
+
+const forecast: RadarImage[] = [
+  { url: 'data:f1', timestamp: '202501011222', isForecast: true },
+  { url: 'data:f2', timestamp: '202501011232', isForecast: true },
+];
+
+describe('loopExport', () => {
+  describe('getFrameDelays', () => {
+    it('should hold the newest frame for the dwell time', () => {
+      expect(getFrameDelays(observed, playback)).toEqual([500, 500, 1500]);
+    });
+
+    it('should dwell on the newest observed frame rather than the last forecast', () => {
+      expect(getFrameDelays([...observed, ...forecast], playback)).toEqual([500, 500, 1500, 500, 500]);
+    });
+
+    it('should handle an empty loop', () => {
+      expect(getFrameDelays([], playback)).toEqual([]);
+    });
+  });
+
+  describe('getExportFilename', () => {
+    it('should name the file after the product and newest observed frame', () => {
+      expect(getExportFilename('IDR713', [...observed, ...forecast], 'gif')).toBe('IDR713-202501011212.gif');
+      expect(getExportFilename('IDR713', observed, 'webm')).toBe('IDR713-202501011212.webm');
+    });
+
+    it('should use a zip extension for PNG sequences', () => {
+      expect(getExportFilename('IDR713', observed, 'png')).toBe('IDR713-202501011212.zip');
+    });
+
+    it('should fall back to the product name without frames', () => {
+      expect(getExportFilename('IDR713', [], 'gif')).toBe('IDR713.gif');
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { RadarImage, RadarOverlays, RadarPlayback, TransparencyLayer } from '../types/radar';
+import { formatTimestamp, getTransparencyUrl } from './radarApi';
+import { loadImage } from './canvas';
+import { encodeGif, GifFrame } from './gifEncoder';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * Radar loop export - composites each frame with the enabled map layers on a
+ * canvas, stamps the radar name and time, and encodes the result as an
+ * animated GIF, a WebM video or a zip of PNGs.
+ */
+
+export type ExportFormat = 'gif' | 'webm' | 'png';
+
+export interface LoopExportOptions {
+  format: ExportFormat;
+  images: RadarImage[];
+  overlayProductId: string; // Rain product whose map layers are drawn
+  overlays: RadarOverlays;
+  title: string; // Stamped on every frame, e.g. "Sydney (Terrey Hills) - Rain 128 km"
+  delays: number[]; // Milliseconds per frame
+  filenameBase: string;
+}
+
+export interface LoopExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+export const EXPORT_SIZE = 512; // BoM radar images are 512x512
+
+// Same stacking order as the viewer - map layers under the radar, rings and labels over it
+const UNDERLAY_LAYERS: TransparencyLayer[] = ['background', 'topography', 'catchments'];
+const OVERLAY_LAYERS: TransparencyLayer[] = ['range', 'locations'];
+
+const CAPTION_HEIGHT = 40;
+const BACKGROUND_COLOR = '#f3f4f6';
+
+/**
+ * Gets how long each frame is shown, matching the viewer's playback
+ * The newest observed frame is held for the extra dwell time
+ */
+export function getFrameDelays(images: RadarImage[], playback: RadarPlayback): number[] {
+  const latestObserved = images.map((image) => !image.isForecast).lastIndexOf(true);
+  return images.map((_, index) =>
+    playback.frameDuration + (index === latestObserved ? playback.latestDwell : 0)
+  );
+}
+
+/**
+ * Builds the download file name, e.g. "IDR713-202501011200.gif"
+ */
+export function getExportFilename(base: string, images: RadarImage[], format: ExportFormat): string {
+  const extension = format === 'png' ? 'zip' : format;
+  const latest = images.filter((image) => !image.isForecast).pop() ?? images[images.length - 1];
+  return latest ? `${base}-${latest.timestamp}.${extension}` : `${base}.${extension}`;
+}
+
+/**
+ * Whether the browser can record a canvas as WebM
+ */
+export function isWebmExportSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype &&
+    MediaRecorder.isTypeSupported('video/webm');
+}
+
+function drawFrame(
+  context: CanvasRenderingContext2D,
+  underlays: HTMLImageElement[],
+  frame: HTMLImageElement,
+  overlays: HTMLImageElement[],
+  title: string,
+  image: RadarImage
+): void {
+  context.fillStyle = BACKGROUND_COLOR;
+  context.fillRect(0, 0, EXPORT_SIZE, EXPORT_SIZE);
+
+  [...underlays, frame, ...overlays].forEach((layer) => {
+    context.drawImage(layer, 0, 0, EXPORT_SIZE, EXPORT_SIZE);
+  });
+
+  // Caption bar with the radar name and frame time
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, EXPORT_SIZE - CAPTION_HEIGHT, EXPORT_SIZE, CAPTION_HEIGHT);
+  context.fillStyle = '#ffffff';
+  context.textBaseline = 'middle';
+  context.font = 'bold 14px sans-serif';
+  context.fillText(title, 8, EXPORT_SIZE - CAPTION_HEIGHT + 12);
+  context.font = '12px sans-serif';
+  context.fillText(
+    `${image.isForecast ? 'Forecast - ' : ''}${formatTimestamp(image.timestamp)}`,
+    8,
+    EXPORT_SIZE - CAPTION_HEIGHT + 29
+  );
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))), type);
+  });
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Plays the frames onto the canvas in real time while recording it
+ */
+async function recordWebm(
+  canvas: HTMLCanvasElement,
+  frameCount: number,
+  draw: (index: number) => void,
+  delays: number[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const stream = canvas.captureStream(30);
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  for (let i = 0; i < frameCount; i++) {
+    draw(i);
+    onProgress?.(i + 1, frameCount);
+    await wait(delays[i]);
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((track) => track.stop());
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+/**
+ * Renders and encodes a radar loop
+ *
+ * Throws if the layers can't be loaded, or if the browser won't let us read
+ * the composited pixels back (images served without CORS headers).
+ */
+export async function exportRadarLoop(
+  options: LoopExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<LoopExportResult> {
+  const { format, images, overlayProductId, overlays, title, delays, filenameBase } = options;
+  if (images.length === 0) {
+    throw new Error('No radar frames to export');
+  }
+
+  const loadLayers = (layers: TransparencyLayer[]) =>
+    Promise.all(layers.filter((layer) => overlays[layer]).map((layer) => loadImage(getTransparencyUrl(overlayProductId, layer))));
+
+  const [underlays, overlayImages, frames] = await Promise.all([
+    loadLayers(UNDERLAY_LAYERS),
+    loadLayers(OVERLAY_LAYERS),
+    Promise.all(images.map((image) => loadImage(image.url))),
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = EXPORT_SIZE;
+  canvas.height = EXPORT_SIZE;
+  const context = canvas.getContext('2d', { willReadFrequently: format === 'gif' });
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+
+  const draw = (index: number) => drawFrame(context, underlays, frames[index], overlayImages, title, images[index]);
+  const filename = getExportFilename(filenameBase, images, format);
+
+  try {
+    if (format === 'webm') {
+      const blob = await recordWebm(canvas, frames.length, draw, delays, onProgress);
+      return { blob, filename };
+    }
+
+    if (format === 'gif') {
+      const gifFrames: GifFrame[] = [];
+      for (let i = 0; i < frames.length; i++) {
+        draw(i);
+        gifFrames.push({ pixels: context.getImageData(0, 0, EXPORT_SIZE, EXPORT_SIZE), delayMs: delays[i] });
+        onProgress?.(i + 1, frames.length);
+      }
+      const gif = encodeGif(gifFrames, EXPORT_SIZE, EXPORT_SIZE);
+      return { blob: new Blob([gif], { type: 'image/gif' }), filename };
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < frames.length; i++) {
+      draw(i);
+      const png = await canvasToBlob(canvas, 'image/png');
+      const suffix = images[i].isForecast ? '-forecast' : '';
+      entries.push({ name: `${filenameBase}-${images[i].timestamp}${suffix}.png`, data: new Uint8Array(await png.arrayBuffer()) });
+      onProgress?.(i + 1, frames.length);
+    }
+    return { blob: new Blob([createZip(entries)], { type: 'application/zip' }), filename };
+  } catch (error) {
+    // Drawing cross-origin images without CORS headers taints the canvas
+    if (error instanceof DOMException && error.name === 'SecurityError') {
+      throw new Error('This radar source does not allow its images to be exported');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Saves a blob as a file download
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
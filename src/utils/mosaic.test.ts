@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findClosestFrame,
+  alignFrameTimes,
+  getRadarBounds,
+  mergeBounds,
+  getMosaicCanvasSize,
+  boundsToCanvasRect,
+  getMosaicScope,
+  getMosaicScopeForState,
+  getMosaicRadars,
+  NATIONAL_SCOPE_ID,
+} from './mosaic';
+import { RadarImage } from '../types/radar';
+
+function loop(radar: string, timestamps: string[]): RadarImage[] {
+  return timestamps.map((timestamp) => ({ url: `${radar}.${timestamp}.png`, timestamp }));
+}
+
+describe('mosaic', () => {
+  describe('findClosestFrame', () => {
+    const sydney = loop('sydney', ['202501011200', '202501011206', '202501011212']);
+
+    it('should find the nearest scan', () => {
+      expect(findClosestFrame(sydney, '202501011205')).toBe(sydney[1]);
+      expect(findClosestFrame(sydney, '202501011212')).toBe(sydney[2]);
+    });
+
+    it('should keep the earlier scan on a tie', () => {
+      expect(findClosestFrame(sydney, '202501011203')).toBe(sydney[0]);
+    });
+
+    it('should return null outside the tolerance or for bad timestamps', () => {
+      expect(findClosestFrame(sydney, '202501011230')).toBeNull();
+      expect(findClosestFrame(sydney, 'invalid')).toBeNull();
+      expect(findClosestFrame([], '202501011200')).toBeNull();
+    });
+  });
+
+  describe('alignFrameTimes', () => {
+    it('should match frames with identical timestamps', () => {
+      const sydney = loop('sydney', ['202501011200', '202501011206', '202501011212']);
+      const newcastle = loop('newcastle', ['202501011200', '202501011206', '202501011212']);
+
+      const frames = alignFrameTimes([sydney, newcastle]);
+
+      expect(frames.map((frame) => frame.timestamp)).toEqual(['202501011200', '202501011206', '202501011212']);
+      expect(frames[1].frames).toEqual([sydney[1], newcastle[1]]);
+    });
+
+    it('should follow the loop with the most frames', () => {
+      const sparse = loop('sparse', ['202501011200', '202501011210']);
+      const dense = loop('dense', ['202501011200', '202501011206', '202501011212']);
+
+      const frames = alignFrameTimes([sparse, dense]);
+
+      expect(frames.map((frame) => frame.timestamp)).toEqual(['202501011200', '202501011206', '202501011212']);
+    });
+
+    it('should match offset scan schedules to the closest frame', () => {
+      const sydney = loop('sydney', ['202501011200', '202501011206', '202501011212']);
+      const wollongong = loop('wollongong', ['202501011202', '202501011209']);
+
+      const frames = alignFrameTimes([sydney, wollongong]);
+
+      expect(frames[0].frames[1]).toBe(wollongong[0]);
+      expect(frames[1].frames[1]).toBe(wollongong[1]); // 12:09 is closer to 12:06 than 12:02
+      expect(frames[2].frames[1]).toBe(wollongong[1]);
+    });
+
+    it('should leave a radar empty when it has no scan within the tolerance', () => {
+      const sydney = loop('sydney', ['202501011200', '202501011206', '202501011212']);
+      const stale = loop('stale', ['202501011130']);
+
+      const frames = alignFrameTimes([sydney, stale]);
+
+      expect(frames.every((frame) => frame.frames[1] === null)).toBe(true);
+    });
+
+    it('should respect a custom tolerance', () => {
+      const sydney = loop('sydney', ['202501011200', '202501011212']);
+      const other = loop('other', ['202501011205']);
+
+      expect(alignFrameTimes([sydney, other], 5)[1].frames[1]).toBeNull();
+      expect(alignFrameTimes([sydney, other], 10)[1].frames[1]).toBe(other[0]);
+    });
+
+    it('should handle empty and failed loops', () => {
+      expect(alignFrameTimes([])).toEqual([]);
+      expect(alignFrameTimes([[], []])).toEqual([]);
+
+      const sydney = loop('sydney', ['202501011200']);
+      expect(alignFrameTimes([sydney, []])).toEqual([{ timestamp: '202501011200', frames: [sydney[0], null] }]);
+    });
+  });
+
+  describe('getRadarBounds', () => {
+    it('should centre the bounds on the radar', () => {
+      const bounds = getRadarBounds({ lat: -33.7, lng: 151.2 }, 128);
+      expect((bounds.north + bounds.south) / 2).toBeCloseTo(-33.7);
+      expect((bounds.east + bounds.west) / 2).toBeCloseTo(151.2);
+    });
+
+    it('should widen longitude spans away from the equator', () => {
+      const bounds = getRadarBounds({ lat: -33.7, lng: 151.2 }, 128);
+      expect(bounds.north - bounds.south).toBeCloseTo(2.3, 1);
+      expect(bounds.east - bounds.west).toBeGreaterThan(bounds.north - bounds.south);
+    });
+  });
+
+  describe('mergeBounds', () => {
+    it('should cover every input box', () => {
+      const merged = mergeBounds([
+        { north: -30, south: -32, east: 152, west: 150 },
+        { north: -33, south: -35, east: 151, west: 149 },
+      ]);
+      expect(merged).toEqual({ north: -30, south: -35, east: 152, west: 149 });
+    });
+
+    it('should return null with nothing to merge', () => {
+      expect(mergeBounds([])).toBeNull();
+    });
+  });
+
+  describe('getMosaicCanvasSize', () => {
+    it('should keep a single radar square', () => {
+      const size = getMosaicCanvasSize(getRadarBounds({ lat: -33.7, lng: 151.2 }, 128), 1000);
+      expect(size.width).toBe(1000);
+      expect(size.height).toBeGreaterThanOrEqual(999);
+      expect(size.height).toBeLessThanOrEqual(1001);
+    });
+
+    it('should fit the longer side to the max size', () => {
+      const tall = getMosaicCanvasSize({ north: -30, south: -40, east: 151, west: 150 }, 800);
+      expect(tall.height).toBe(800);
+      expect(tall.width).toBeLessThan(800);
+    });
+  });
+
+  describe('boundsToCanvasRect', () => {
+    it('should map a box into canvas pixels', () => {
+      const mosaicBounds = { north: -30, south: -40, east: 160, west: 150 };
+      const rect = boundsToCanvasRect(
+        { north: -32, south: -34, east: 155, west: 150 },
+        mosaicBounds,
+        { width: 1000, height: 500 }
+      );
+      expect(rect).toEqual({ x: 0, y: 100, width: 500, height: 100 });
+    });
+  });
+
+  describe('scopes', () => {
+    it('should include ACT radars in the NSW mosaic', () => {
+      const states = new Set(getMosaicRadars(getMosaicScope('NSW')).map((radar) => radar.state));
+      expect(states).toEqual(new Set(['NSW', 'ACT']));
+    });
+
+    it('should find the scope for a radar state', () => {
+      expect(getMosaicScopeForState('ACT').id).toBe('NSW');
+      expect(getMosaicScopeForState('QLD').id).toBe('QLD');
+    });
+
+    it('should fall back to the first scope for unknown ids', () => {
+      expect(getMosaicScope('nowhere').id).toBe('NSW');
+      expect(getMosaicScope(null).id).toBe('NSW');
+    });
+
+    it('should not list individual radars for the national composite', () => {
+      expect(getMosaicRadars(getMosaicScope(NATIONAL_SCOPE_ID))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { RadarImage, RadarLocation } from '../types/radar';
+import { radarLocations } from '../data/radarLocations';
+import { parseTimestamp } from './radarApi';
+import { GeoPoint } from './radarProjection';
+
+/**
+ * Multi-radar mosaic utilities
+ *
+ * A mosaic combines the loops of several radars into one map. Radars scan on
+ * their own schedules (every 5, 6 or 10 minutes, with different offsets), so
+ * frames are matched into shared time slots before being drawn side by side.
+ *
+ * Each radar image is placed by its geographic bounds on a simple
+ * equirectangular map, which is close enough to the BoM's per-radar
+ * projection at state scale for echoes to line up across coverage edges.
+ */
+
+export interface MosaicScope {
+  id: string;
+  label: string;
+  states: string[]; // Radar states included (empty for the national composite)
+}
+
+export interface MosaicFrame {
+  timestamp: string; // Slot time (YYYYMMDDHHmm)
+  frames: (RadarImage | null)[]; // One entry per loop, null if that radar has no scan near this time
+}
+
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const NATIONAL_SCOPE_ID = 'national';
+export const NATIONAL_PRODUCT_ID = 'IDR00004';
+
+export const MOSAIC_SCOPES: MosaicScope[] = [
+  { id: 'NSW', label: 'NSW & ACT', states: ['NSW', 'ACT'] },
+  { id: 'VIC', label: 'Victoria', states: ['VIC'] },
+  { id: 'QLD', label: 'Queensland', states: ['QLD'] },
+  { id: 'WA', label: 'Western Australia', states: ['WA'] },
+  { id: 'SA', label: 'South Australia', states: ['SA'] },
+  { id: 'TAS', label: 'Tasmania', states: ['TAS'] },
+  { id: 'NT', label: 'Northern Territory', states: ['NT'] },
+  { id: NATIONAL_SCOPE_ID, label: 'Australia (national)', states: [] },
+];
+
+const KM_PER_DEGREE_LAT = 111.32;
+const DEFAULT_TOLERANCE_MINUTES = 5;
+
+/**
+ * Finds the mosaic scope for an id, falling back to the first state
+ */
+export function getMosaicScope(id: string | null | undefined): MosaicScope {
+  return MOSAIC_SCOPES.find((scope) => scope.id === id) ?? MOSAIC_SCOPES[0];
+}
+
+/**
+ * Finds the mosaic scope covering a radar's state (used as the default scope)
+ */
+export function getMosaicScopeForState(state: string): MosaicScope {
+  return MOSAIC_SCOPES.find((scope) => scope.states.includes(state)) ?? MOSAIC_SCOPES[0];
+}
+
+/**
+ * Gets the radars that make up a scope's mosaic
+ */
+export function getMosaicRadars(scope: MosaicScope, radars: RadarLocation[] = radarLocations): RadarLocation[] {
+  return radars.filter((radar) => scope.states.includes(radar.state));
+}
+
+/**
+ * Finds the scan in a loop closest to a timestamp, within the tolerance
+ * Returns null if the loop has no scan that close
+ */
+export function findClosestFrame(
+  loop: RadarImage[],
+  timestamp: string,
+  toleranceMinutes = DEFAULT_TOLERANCE_MINUTES
+): RadarImage | null {
+  const target = parseTimestamp(timestamp)?.getTime();
+  if (target === undefined) return null;
+
+  let closest: RadarImage | null = null;
+  let closestDiff = toleranceMinutes * 60 * 1000;
+
+  for (const image of loop) {
+    const time = parseTimestamp(image.timestamp)?.getTime();
+    if (time === undefined) continue;
+
+    const diff = Math.abs(time - target);
+    // Tolerance is inclusive; on a tie the earlier scan (seen first) is kept
+    if (diff < closestDiff || (diff === closestDiff && closest === null)) {
+      closest = image;
+      closestDiff = diff;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Matches frames from several loops into shared time slots
+ *
+ * Slots follow the loop with the most frames (the most frequent scanner).
+ * Every other loop contributes its closest scan within the tolerance, so a
+ * radar with a sparser schedule repeats frames rather than leaving gaps.
+ * Loops are expected oldest first, as returned by the API.
+ */
+export function alignFrameTimes(
+  loops: RadarImage[][],
+  toleranceMinutes = DEFAULT_TOLERANCE_MINUTES
+): MosaicFrame[] {
+  const reference = loops.reduce<RadarImage[]>(
+    (longest, loop) => (loop.length > longest.length ? loop : longest),
+    []
+  );
+
+  return reference
+    .filter((slot) => parseTimestamp(slot.timestamp) !== null)
+    .map((slot) => ({
+      timestamp: slot.timestamp,
+      frames: loops.map((loop) => findClosestFrame(loop, slot.timestamp, toleranceMinutes)),
+    }));
+}
+
+/**
+ * Gets the lat/lng box covered by a radar image of the given range (km to each edge)
+ */
+export function getRadarBounds(centre: GeoPoint, rangeKm: number): GeoBounds {
+  const latOffset = rangeKm / KM_PER_DEGREE_LAT;
+  const lngOffset = rangeKm / (KM_PER_DEGREE_LAT * Math.cos((centre.lat * Math.PI) / 180));
+
+  return {
+    north: centre.lat + latOffset,
+    south: centre.lat - latOffset,
+    east: centre.lng + lngOffset,
+    west: centre.lng - lngOffset,
+  };
+}
+
+/**
+ * Gets the smallest box containing every bounds
+ */
+export function mergeBounds(bounds: GeoBounds[]): GeoBounds | null {
+  if (bounds.length === 0) return null;
+
+  return bounds.reduce((merged, next) => ({
+    north: Math.max(merged.north, next.north),
+    south: Math.min(merged.south, next.south),
+    east: Math.max(merged.east, next.east),
+    west: Math.min(merged.west, next.west),
+  }));
+}
+
+/**
+ * Sizes a canvas for the bounds so a kilometre is the same length both ways
+ * The longer side is `maxSize` pixels
+ */
+export function getMosaicCanvasSize(bounds: GeoBounds, maxSize: number): { width: number; height: number } {
+  const midLat = (bounds.north + bounds.south) / 2;
+  const widthKm = (bounds.east - bounds.west) * Math.cos((midLat * Math.PI) / 180);
+  const heightKm = bounds.north - bounds.south;
+
+  if (widthKm >= heightKm) {
+    return { width: maxSize, height: Math.round((maxSize * heightKm) / widthKm) };
+  }
+  return { width: Math.round((maxSize * widthKm) / heightKm), height: maxSize };
+}
+
+/**
+ * Maps a bounding box to a rectangle on a mosaic canvas covering `mosaicBounds`
+ */
+export function boundsToCanvasRect(
+  bounds: GeoBounds,
+  mosaicBounds: GeoBounds,
+  canvas: { width: number; height: number }
+): CanvasRect {
+  const lngSpan = mosaicBounds.east - mosaicBounds.west;
+  const latSpan = mosaicBounds.north - mosaicBounds.south;
+
+  const x = ((bounds.west - mosaicBounds.west) / lngSpan) * canvas.width;
+  const y = ((mosaicBounds.north - bounds.north) / latSpan) * canvas.height;
+
+  return {
+    x,
+    y,
+    width: ((bounds.east - bounds.west) / lngSpan) * canvas.width,
+    height: ((bounds.north - bounds.south) / latSpan) * canvas.height,
+  };
+}
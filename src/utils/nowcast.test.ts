@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toIntensityGrid,
+  estimateGridMotion,
+  estimateMotion,
+  extrapolateFrame,
+  createNowcast,
+  estimateRainArrival,
+} from './nowcast';
+import { FramePixels } from './canvas';
+
+const SIZE = 256;
+const MINUTE = 60 * 1000;
+
+// Transparent frame with a square rain cell of the given colour at (left, top)
+function makeFrame(left: number, top: number, cellSize = 40, color = [255, 255, 0]): FramePixels {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = top; y < top + cellSize; y++) {
+    for (let x = left; x < left + cellSize; x++) {
+      if (x < 0 || y < 0 || x >= SIZE || y >= SIZE) continue;
+      data.set([...color, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { width: SIZE, height: SIZE, data };
+}
+
+function alphaAt(pixels: FramePixels, x: number, y: number): number {
+  return pixels.data[(y * pixels.width + x) * 4 + 3];
+}
+
+describe('nowcast', () => {
+  describe('toIntensityGrid', () => {
+    it('should downsample to grid cells', () => {
+      const grid = toIntensityGrid(makeFrame(0, 0, 8));
+      expect(grid.width).toBe(64);
+      expect(grid.height).toBe(64);
+      expect(grid.scale).toBe(4);
+    });
+
+    it('should mark rain cells with the palette level', () => {
+      const grid = toIntensityGrid(makeFrame(0, 0, 8));
+      expect(grid.values[0]).toBeGreaterThan(0);
+      expect(grid.values[1]).toBeGreaterThan(0);
+      expect(grid.values[2]).toBe(0);
+      expect(grid.values[64 * 2]).toBe(0);
+    });
+
+    it('should ignore non-rain colours', () => {
+      const grid = toIntensityGrid(makeFrame(0, 0, 8, [128, 128, 128]));
+      expect(grid.values.every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('estimateGridMotion', () => {
+    it('should detect eastward motion', () => {
+      const previous = toIntensityGrid(makeFrame(80, 100));
+      const current = toIntensityGrid(makeFrame(92, 100));
+      expect(estimateGridMotion(previous, current)).toEqual({ dx: 3, dy: 0 });
+    });
+
+    it('should detect north-westward motion', () => {
+      const previous = toIntensityGrid(makeFrame(120, 120));
+      const current = toIntensityGrid(makeFrame(112, 112));
+      expect(estimateGridMotion(previous, current)).toEqual({ dx: -2, dy: -2 });
+    });
+
+    it('should report no motion for a stationary cell', () => {
+      const frame = toIntensityGrid(makeFrame(100, 100));
+      expect(estimateGridMotion(frame, frame)).toEqual({ dx: 0, dy: 0 });
+    });
+
+    it('should return null without rain', () => {
+      const empty = toIntensityGrid(makeFrame(0, 0, 0));
+      expect(estimateGridMotion(empty, empty)).toBeNull();
+    });
+  });
+
+  describe('estimateMotion', () => {
+    it('should convert grid motion to image pixels per minute', () => {
+      const grids = [makeFrame(80, 100), makeFrame(92, 100), makeFrame(104, 100)].map((f) => toIntensityGrid(f));
+      const motion = estimateMotion(grids, [0, 6 * MINUTE, 12 * MINUTE]);
+
+      expect(motion!.dx).toBeCloseTo(2); // 12px per 6 minutes
+      expect(motion!.dy).toBeCloseTo(0);
+    });
+
+    it('should skip pairs with invalid timing', () => {
+      const grids = [makeFrame(80, 100), makeFrame(92, 100)].map((f) => toIntensityGrid(f));
+      expect(estimateMotion(grids, [0, 0])).toBeNull();
+    });
+  });
+
+  describe('extrapolateFrame', () => {
+    it('should shift pixels along the motion', () => {
+      const frame = makeFrame(100, 100, 10);
+      const shifted = extrapolateFrame(frame, { dx: 2, dy: -1 }, 10);
+
+      expect(alphaAt(shifted, 120, 90)).toBe(255);
+      expect(alphaAt(shifted, 100, 100)).toBe(0);
+    });
+
+    it('should drop pixels that move off the frame', () => {
+      const frame = makeFrame(240, 0, 10);
+      const shifted = extrapolateFrame(frame, { dx: 5, dy: 0 }, 10);
+      expect(Array.from(shifted.data).every((value) => value === 0)).toBe(true);
+    });
+  });
+
+  describe('createNowcast', () => {
+    it('should produce forecast frames up to the horizon', () => {
+      const nowcast = createNowcast([
+        { time: 0, pixels: makeFrame(80, 100) },
+        { time: 6 * MINUTE, pixels: makeFrame(92, 100) },
+      ]);
+
+      expect(nowcast!.frames.map((frame) => frame.minutesAhead)).toEqual([10, 20, 30, 40, 50, 60]);
+      // 2px/min east: after 10 minutes the cell's left edge is at 92 + 20
+      expect(alphaAt(nowcast!.frames[0].pixels, 112, 110)).toBe(255);
+      expect(alphaAt(nowcast!.frames[0].pixels, 100, 110)).toBe(0);
+    });
+
+    it('should need at least two frames', () => {
+      expect(createNowcast([{ time: 0, pixels: makeFrame(80, 100) }])).toBeNull();
+    });
+  });
+
+  describe('estimateRainArrival', () => {
+    const nowcast = createNowcast([
+      { time: 0, pixels: makeFrame(80, 100) },
+      { time: 6 * MINUTE, pixels: makeFrame(92, 100) },
+    ])!;
+
+    it('should report rain already at the position', () => {
+      const arrival = estimateRainArrival(nowcast, { x: 110 / SIZE, y: 120 / SIZE });
+      expect(arrival?.minutes).toBe(0);
+      expect(arrival?.level.color).toBe('#ffff00');
+    });
+
+    it('should estimate arrival time downstream of the rain', () => {
+      // Cell's leading edge is at x=132, moving 2px/min - reaches x=172 in ~20 minutes
+      const arrival = estimateRainArrival(nowcast, { x: 172 / SIZE, y: 120 / SIZE });
+      expect(arrival!.minutes).toBeGreaterThan(10);
+      expect(arrival!.minutes).toBeLessThan(25);
+    });
+
+    it('should return null upstream of the rain', () => {
+      expect(estimateRainArrival(nowcast, { x: 40 / SIZE, y: 120 / SIZE })).toBeNull();
+    });
+
+    it('should return null beyond the horizon', () => {
+      expect(estimateRainArrival(nowcast, { x: 250 / SIZE, y: 120 / SIZE }, 30)).toBeNull();
+    });
+  });
+});
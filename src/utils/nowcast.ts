@@ -0,0 +1,273 @@
+import { RainLevel } from '../types/radar';
+import { RAIN_PALETTE } from '../data/rainPalette';
+import { classifyPixel } from './rainIntensity';
+import { FramePixels } from './canvas';
+import { ImagePosition } from './radarProjection';
+
+/**
+ * Short-term rain nowcasting by extrapolating radar echo motion
+ *
+ * How it works:
+ * 1. Each recent frame is reduced to a coarse grid of rain levels
+ * 2. Block matching between consecutive grids estimates how far the rain
+ *    moved (median of the per-block vectors, so one odd cell doesn't skew it)
+ * 3. The latest frame is shifted along that motion to forecast future frames
+ *
+ * This assumes echoes keep moving in a straight line without growing or
+ * decaying, which holds up reasonably well for 30-60 minutes.
+ */
+
+export interface IntensityGrid {
+  width: number;
+  height: number;
+  scale: number; // Image pixels per grid cell
+  values: Uint8Array; // 0 = no rain, otherwise RAIN_PALETTE index + 1
+}
+
+export interface MotionVector {
+  dx: number; // Image pixels per minute (positive = east)
+  dy: number; // Image pixels per minute (positive = south)
+}
+
+export interface TimedFramePixels {
+  time: number; // Milliseconds since epoch
+  pixels: FramePixels;
+}
+
+export interface ForecastFrame {
+  minutesAhead: number;
+  pixels: FramePixels;
+}
+
+export interface Nowcast {
+  motion: MotionVector;
+  grid: IntensityGrid; // Latest observed frame
+  frames: ForecastFrame[];
+}
+
+export interface RainArrival {
+  minutes: number; // 0 = raining now
+  level: RainLevel;
+}
+
+const GRID_SCALE = 4; // 512px frames become a 128x128 grid
+const BLOCK_SIZE = 16; // Grid cells per matching block
+const SEARCH_RADIUS = 6; // Max grid cells a block can move between frames
+const MIN_RAIN_CELLS = Math.round(BLOCK_SIZE * BLOCK_SIZE * 0.05); // Skip mostly-dry blocks
+
+export const FORECAST_STEP_MINUTES = 10;
+export const FORECAST_HORIZON_MINUTES = 60;
+
+/**
+ * Reduces a frame to a grid of the heaviest rain level in each cell
+ */
+export function toIntensityGrid(pixels: FramePixels, scale = GRID_SCALE): IntensityGrid {
+  const width = Math.ceil(pixels.width / scale);
+  const height = Math.ceil(pixels.height / scale);
+  const values = new Uint8Array(width * height);
+
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const offset = (y * pixels.width + x) * 4;
+      const alpha = pixels.data[offset + 3];
+      if (alpha === 0) continue;
+
+      const level = classifyPixel(pixels.data[offset], pixels.data[offset + 1], pixels.data[offset + 2], alpha);
+      if (!level) continue;
+
+      const cell = Math.floor(y / scale) * width + Math.floor(x / scale);
+      const value = RAIN_PALETTE.indexOf(level) + 1;
+      if (value > values[cell]) values[cell] = value;
+    }
+  }
+
+  return { width, height, scale, values };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Estimates how far rain moved between two grids (in grid cells)
+ * Returns null if there isn't enough rain to track
+ */
+export function estimateGridMotion(
+  previous: IntensityGrid,
+  current: IntensityGrid
+): { dx: number; dy: number } | null {
+  const { width, height, values } = current;
+  const vectorsX: number[] = [];
+  const vectorsY: number[] = [];
+
+  for (let blockY = 0; blockY + BLOCK_SIZE <= height; blockY += BLOCK_SIZE) {
+    for (let blockX = 0; blockX + BLOCK_SIZE <= width; blockX += BLOCK_SIZE) {
+      let rainCells = 0;
+      for (let y = blockY; y < blockY + BLOCK_SIZE; y++) {
+        for (let x = blockX; x < blockX + BLOCK_SIZE; x++) {
+          if (values[y * width + x] > 0) rainCells++;
+        }
+      }
+      if (rainCells < MIN_RAIN_CELLS) continue;
+
+      // Find where this block came from in the previous frame
+      let bestError = Infinity;
+      let bestDx = 0;
+      let bestDy = 0;
+
+      for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+        for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+          const sourceX = blockX - dx;
+          const sourceY = blockY - dy;
+          if (sourceX < 0 || sourceY < 0 || sourceX + BLOCK_SIZE > width || sourceY + BLOCK_SIZE > height) {
+            continue;
+          }
+
+          let error = 0;
+          for (let y = 0; y < BLOCK_SIZE; y++) {
+            for (let x = 0; x < BLOCK_SIZE; x++) {
+              error += Math.abs(
+                values[(blockY + y) * width + blockX + x] -
+                previous.values[(sourceY + y) * width + sourceX + x]
+              );
+            }
+          }
+
+          // Prefer the smallest displacement on ties so static echoes stay put
+          const isBetter = error < bestError ||
+            (error === bestError && Math.abs(dx) + Math.abs(dy) < Math.abs(bestDx) + Math.abs(bestDy));
+          if (isBetter) {
+            bestError = error;
+            bestDx = dx;
+            bestDy = dy;
+          }
+        }
+      }
+
+      vectorsX.push(bestDx);
+      vectorsY.push(bestDy);
+    }
+  }
+
+  if (vectorsX.length === 0) return null;
+
+  return { dx: median(vectorsX), dy: median(vectorsY) };
+}
+
+/**
+ * Estimates echo motion across a sequence of frames (oldest first)
+ * Returns the average motion in image pixels per minute, or null if untrackable
+ */
+export function estimateMotion(grids: IntensityGrid[], times: number[]): MotionVector | null {
+  let totalDx = 0;
+  let totalDy = 0;
+  let pairs = 0;
+
+  for (let i = 1; i < grids.length; i++) {
+    const minutes = (times[i] - times[i - 1]) / 60000;
+    if (minutes <= 0) continue;
+
+    const motion = estimateGridMotion(grids[i - 1], grids[i]);
+    if (!motion) continue;
+
+    totalDx += (motion.dx * grids[i].scale) / minutes;
+    totalDy += (motion.dy * grids[i].scale) / minutes;
+    pairs++;
+  }
+
+  if (pairs === 0) return null;
+
+  return { dx: totalDx / pairs, dy: totalDy / pairs };
+}
+
+/**
+ * Shifts a frame along the motion vector to forecast it `minutes` ahead
+ * Pixels moving in from outside the frame are left transparent
+ */
+export function extrapolateFrame(pixels: FramePixels, motion: MotionVector, minutes: number): FramePixels {
+  const { width, height, data } = pixels;
+  const shiftX = Math.round(motion.dx * minutes);
+  const shiftY = Math.round(motion.dy * minutes);
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const sourceY = y - shiftY;
+    if (sourceY < 0 || sourceY >= height) continue;
+
+    for (let x = 0; x < width; x++) {
+      const sourceX = x - shiftX;
+      if (sourceX < 0 || sourceX >= width) continue;
+
+      const target = (y * width + x) * 4;
+      const source = (sourceY * width + sourceX) * 4;
+      output[target] = data[source];
+      output[target + 1] = data[source + 1];
+      output[target + 2] = data[source + 2];
+      output[target + 3] = data[source + 3];
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+/**
+ * Builds a nowcast from the most recent frames (oldest first)
+ * Returns null if there are too few frames or no trackable rain
+ */
+export function createNowcast(
+  frames: TimedFramePixels[],
+  stepMinutes = FORECAST_STEP_MINUTES,
+  horizonMinutes = FORECAST_HORIZON_MINUTES
+): Nowcast | null {
+  if (frames.length < 2) return null;
+
+  const grids = frames.map((frame) => toIntensityGrid(frame.pixels));
+  const motion = estimateMotion(grids, frames.map((frame) => frame.time));
+  if (!motion) return null;
+
+  const latest = frames[frames.length - 1].pixels;
+  const forecastFrames: ForecastFrame[] = [];
+  for (let minutes = stepMinutes; minutes <= horizonMinutes; minutes += stepMinutes) {
+    forecastFrames.push({ minutesAhead: minutes, pixels: extrapolateFrame(latest, motion, minutes) });
+  }
+
+  return { motion, grid: grids[grids.length - 1], frames: forecastFrames };
+}
+
+/**
+ * Estimates when rain will reach a position on the radar image
+ *
+ * Traces the motion backwards from the position to find the nearest rain
+ * that's heading towards it. Returns null if none is expected within the horizon.
+ */
+export function estimateRainArrival(
+  nowcast: Pick<Nowcast, 'motion' | 'grid'>,
+  position: ImagePosition,
+  horizonMinutes = FORECAST_HORIZON_MINUTES
+): RainArrival | null {
+  const { grid, motion } = nowcast;
+  const startX = position.x * (grid.width - 1);
+  const startY = position.y * (grid.height - 1);
+
+  for (let minutes = 0; minutes <= horizonMinutes; minutes++) {
+    const x = Math.round(startX - (motion.dx * minutes) / grid.scale);
+    const y = Math.round(startY - (motion.dy * minutes) / grid.scale);
+
+    // Look at the cell and its neighbours to tolerate small motion errors
+    let heaviest = 0;
+    for (let ny = y - 1; ny <= y + 1; ny++) {
+      for (let nx = x - 1; nx <= x + 1; nx++) {
+        if (nx < 0 || ny < 0 || nx >= grid.width || ny >= grid.height) continue;
+        heaviest = Math.max(heaviest, grid.values[ny * grid.width + nx]);
+      }
+    }
+
+    if (heaviest > 0) {
+      return { minutes, level: RAIN_PALETTE[heaviest - 1] };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { clampTransform, zoomAt, panBy, IDENTITY_TRANSFORM } from './panZoom';
+
+const viewport = { width: 400, height: 400 };
+
+describe('panZoom', () => {
+  describe('clampTransform', () => {
+    it('should leave a valid transform unchanged', () => {
+      const transform = { scale: 2, x: -100, y: -200 };
+      expect(clampTransform(transform, viewport)).toEqual(transform);
+    });
+
+    it('should clamp scale to the allowed range', () => {
+      expect(clampTransform({ scale: 0.5, x: 0, y: 0 }, viewport).scale).toBe(1);
+      expect(clampTransform({ scale: 20, x: 0, y: 0 }, viewport).scale).toBe(8);
+      expect(clampTransform({ scale: 20, x: 0, y: 0 }, viewport, 1, 4).scale).toBe(4);
+    });
+
+    it('should not let the content pull away from the edges', () => {
+      expect(clampTransform({ scale: 2, x: 50, y: 50 }, viewport)).toEqual({ scale: 2, x: 0, y: 0 });
+      expect(clampTransform({ scale: 2, x: -500, y: -500 }, viewport)).toEqual({ scale: 2, x: -400, y: -400 });
+    });
+
+    it('should pin the content at scale 1', () => {
+      expect(clampTransform({ scale: 1, x: -30, y: 30 }, viewport)).toEqual(IDENTITY_TRANSFORM);
+    });
+  });
+
+  describe('zoomAt', () => {
+    it('should keep the zoom point fixed on screen', () => {
+      const point = { x: 100, y: 300 };
+      const zoomed = zoomAt(IDENTITY_TRANSFORM, 2, point, viewport);
+
+      // Content under the point before zooming: (100, 300); after: (x + 100*2, y + 300*2)
+      expect(zoomed.x + 100 * zoomed.scale).toBeCloseTo(point.x);
+      expect(zoomed.y + 300 * zoomed.scale).toBeCloseTo(point.y);
+    });
+
+    it('should zoom around the centre', () => {
+      expect(zoomAt(IDENTITY_TRANSFORM, 2, { x: 200, y: 200 }, viewport)).toEqual({ scale: 2, x: -200, y: -200 });
+    });
+
+    it('should return to identity when zooming back out', () => {
+      const zoomed = zoomAt(IDENTITY_TRANSFORM, 4, { x: 50, y: 350 }, viewport);
+      expect(zoomAt(zoomed, 1, { x: 200, y: 200 }, viewport)).toEqual(IDENTITY_TRANSFORM);
+    });
+
+    it('should respect the scale limits', () => {
+      expect(zoomAt(IDENTITY_TRANSFORM, 100, { x: 0, y: 0 }, viewport).scale).toBe(8);
+    });
+  });
+
+  describe('panBy', () => {
+    it('should translate when zoomed in', () => {
+      const zoomed = { scale: 2, x: -200, y: -200 };
+      expect(panBy(zoomed, 50, -30, viewport)).toEqual({ scale: 2, x: -150, y: -230 });
+    });
+
+    it('should not pan at scale 1', () => {
+      expect(panBy(IDENTITY_TRANSFORM, 50, 50, viewport)).toEqual(IDENTITY_TRANSFORM);
+    });
+  });
+});
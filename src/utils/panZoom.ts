@@ -0,0 +1,86 @@
+/**
+ * Pan/zoom transform maths for the radar viewport
+ *
+ * The transform is applied as `translate(x, y) scale(scale)` with a top-left
+ * transform origin, so a content point c appears on screen at (x, y) + c * scale.
+ */
+
+export interface PanZoomTransform {
+  scale: number;
+  x: number; // Horizontal translation in px
+  y: number; // Vertical translation in px
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_TRANSFORM: PanZoomTransform = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Clamps scale to the allowed range and keeps the content covering the viewport
+ */
+export function clampTransform(
+  transform: PanZoomTransform,
+  viewport: ViewportSize,
+  minScale = 1,
+  maxScale = 8
+): PanZoomTransform {
+  const scale = Math.min(Math.max(transform.scale, minScale), maxScale);
+
+  // Scaled content must not leave a gap at any edge
+  const minX = Math.min(viewport.width - viewport.width * scale, 0);
+  const minY = Math.min(viewport.height - viewport.height * scale, 0);
+
+  return {
+    scale,
+    x: Math.min(Math.max(transform.x, minX), 0),
+    y: Math.min(Math.max(transform.y, minY), 0),
+  };
+}
+
+/**
+ * Zooms to a new scale while keeping the given viewport point fixed on screen
+ */
+export function zoomAt(
+  transform: PanZoomTransform,
+  nextScale: number,
+  point: { x: number; y: number },
+  viewport: ViewportSize,
+  minScale = 1,
+  maxScale = 8
+): PanZoomTransform {
+  const scale = Math.min(Math.max(nextScale, minScale), maxScale);
+  const ratio = scale / transform.scale;
+
+  return clampTransform(
+    {
+      scale,
+      x: point.x - (point.x - transform.x) * ratio,
+      y: point.y - (point.y - transform.y) * ratio,
+    },
+    viewport,
+    minScale,
+    maxScale
+  );
+}
+
+/**
+ * Pans by a screen-space offset
+ */
+export function panBy(
+  transform: PanZoomTransform,
+  dx: number,
+  dy: number,
+  viewport: ViewportSize,
+  minScale = 1,
+  maxScale = 8
+): PanZoomTransform {
+  return clampTransform(
+    { ...transform, x: transform.x + dx, y: transform.y + dy },
+    viewport,
+    minScale,
+    maxScale
+  );
+}
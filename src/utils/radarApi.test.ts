@@ -1,5 +1,16 @@
 import { describe, it, expect, vi } from 'vitest';
-import { formatTimestamp, buildProductId } from './radarApi';
+import {
+  formatTimestamp,
+  formatTimestampTime,
+  parseTimestamp,
+  offsetTimestamp,
+  findTimestampGaps,
+  buildProductId,
+  getProductRangeKm,
+  getTransparencyUrl,
+  getRadarImageUrl,
+  fetchRadarLoop,
+} from './radarApi';
 import { RadarMode, RadarRange } from '../types/radar';
 
 describe('radarApi', () => {
@@ -66,6 +77,85 @@ describe('radarApi', () => {
     });
   });
 
+  describe('parseTimestamp', () => {
+    it('should parse a valid timestamp as UTC', () => {
+      const date = parseTimestamp('202512040130');
+      expect(date?.toISOString()).toBe('2025-12-04T01:30:00.000Z');
+    });
+
+    it('should return null for malformed timestamps', () => {
+      expect(parseTimestamp('')).toBeNull();
+      expect(parseTimestamp('20251204013')).toBeNull();
+      expect(parseTimestamp('2025120401ab')).toBeNull();
+    });
+  });
+
+  describe('offsetTimestamp', () => {
+    it('should shift forward by minutes', () => {
+      expect(offsetTimestamp('202512040130', 10)).toBe('202512040140');
+    });
+
+    it('should roll over hours, days and years', () => {
+      expect(offsetTimestamp('202512040155', 10)).toBe('202512040205');
+      expect(offsetTimestamp('202512312350', 20)).toBe('202601010010');
+    });
+
+    it('should shift backwards with negative minutes', () => {
+      expect(offsetTimestamp('202512040005', -10)).toBe('202512032355');
+    });
+
+    it('should return invalid timestamps unchanged', () => {
+      expect(offsetTimestamp('bad', 10)).toBe('bad');
+    });
+  });
+
+  describe('formatTimestampTime', () => {
+    it('should format only the local time', () => {
+      expect(formatTimestampTime('202512040100')).toMatch(/^\d{2}:\d{2}$/);
+    });
+
+    it('should return input unchanged for invalid timestamps', () => {
+      expect(formatTimestampTime('123')).toBe('123');
+    });
+  });
+
+  describe('findTimestampGaps', () => {
+    const toImages = (timestamps: string[]) =>
+      timestamps.map((timestamp) => ({ url: `/radar/IDR713.T.${timestamp}.png`, timestamp }));
+
+    it('should find no gaps in a regular loop', () => {
+      const images = toImages(['202512040100', '202512040106', '202512040112', '202512040118']);
+      expect(findTimestampGaps(images)).toEqual([]);
+    });
+
+    it('should flag frames after a skipped scan', () => {
+      const images = toImages([
+        '202512040100',
+        '202512040106',
+        '202512040118', // 0112 missing
+        '202512040124',
+        '202512040130',
+      ]);
+      expect(findTimestampGaps(images)).toEqual([2]);
+    });
+
+    it('should tolerate small jitter in scan times', () => {
+      const images = toImages(['202512040100', '202512040105', '202512040111', '202512040116']);
+      expect(findTimestampGaps(images)).toEqual([]);
+    });
+
+    it('should handle gaps across midnight', () => {
+      const images = toImages(['202512042350', '202512042355', '202512050000', '202512050015']);
+      expect(findTimestampGaps(images)).toEqual([3]);
+    });
+
+    it('should return no gaps for short or invalid loops', () => {
+      expect(findTimestampGaps([])).toEqual([]);
+      expect(findTimestampGaps(toImages(['202512040100']))).toEqual([]);
+      expect(findTimestampGaps(toImages(['bad', 'worse']))).toEqual([]);
+    });
+  });
+
   describe('buildProductId', () => {
     describe('Rain mode', () => {
       const mode: RadarMode = 'rain';
@@ -169,4 +259,92 @@ describe('radarApi', () => {
       });
     });
   });
+
+  describe('getProductRangeKm', () => {
+    it('should map rain product suffixes to their range', () => {
+      expect(getProductRangeKm('IDR714')).toBe(64);
+      expect(getProductRangeKm('IDR713')).toBe(128);
+      expect(getProductRangeKm('IDR712')).toBe(256);
+      expect(getProductRangeKm('IDR711')).toBe(512);
+    });
+
+    it('should treat doppler products as 128km', () => {
+      expect(getProductRangeKm('IDR71I')).toBe(128);
+    });
+
+    it('should round-trip with buildProductId', () => {
+      const ranges: RadarRange[] = ['64', '128', '256', '512'];
+      ranges.forEach((range) => {
+        expect(getProductRangeKm(buildProductId('66', 'rain', range))).toBe(Number(range));
+      });
+    });
+
+    it('should return null for unknown product IDs', () => {
+      expect(getProductRangeKm('IDR71')).toBeNull();
+      expect(getProductRangeKm('IDR715')).toBeNull();
+      expect(getProductRangeKm('IDR00004')).toBeNull(); // National composite
+      expect(getProductRangeKm('foo')).toBeNull();
+    });
+  });
+
+  describe('getTransparencyUrl', () => {
+    it('should build the proxied transparency URL for a layer', () => {
+      expect(getTransparencyUrl('IDR713', 'background')).toMatch(/^https?:\/\/.+\/api\/transparency\/IDR713\/background$/);
+      expect(getTransparencyUrl('IDR00004', 'locations')).toMatch(/\/api\/transparency\/IDR00004\/locations$/);
+    });
+  });
+
+  describe('getRadarImageUrl', () => {
+    it('should point BoM frame URLs at the proxy', () => {
+      const url = getRadarImageUrl('https://reg.bom.gov.au/radar/IDR713.T.202512040100.png');
+      expect(url).toMatch(/^https?:\/\/.+\/api\/radar-image\/IDR713\.T\.202512040100\.png$/);
+      expect(url).not.toContain('reg.bom.gov.au');
+    });
+
+    it('should accept paths without a host', () => {
+      expect(getRadarImageUrl('/radar/IDR00004.T.202512040100.png')).toMatch(
+        /\/api\/radar-image\/IDR00004\.T\.202512040100\.png$/
+      );
+    });
+  });
+
+  describe('fetchRadarLoop', () => {
+    it('should load frames through the proxy', async () => {
+      const loop = await fetchRadarLoop('IDR713');
+
+      expect(loop.images).toHaveLength(2);
+      expect(loop.images[0].timestamp).toBe('202512040100');
+      expect(loop.images[0].url).toMatch(/\/api\/radar-image\/IDR713\.T\.202512040100\.png$/);
+      expect(loop.stale).toBeUndefined();
+    });
+
+    it('should pass through the stale flag and fetch time', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({
+          images: [{ url: 'https://reg.bom.gov.au/radar/IDR713.T.202512040100.png', timestamp: '202512040100' }],
+          fetchedAt: '2025-12-04T01:03:00.000Z',
+          stale: true,
+        })
+      );
+
+      const loop = await fetchRadarLoop('IDR713');
+
+      expect(loop.stale).toBe(true);
+      expect(loop.fetchedAt).toBe('2025-12-04T01:03:00.000Z');
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw the API error message', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Failed to fetch radar data: Service Unavailable' }, { status: 503 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchRadarLoop('IDR713')).rejects.toThrow('Failed to fetch radar data: Service Unavailable');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
 });
@@ -1,18 +1,20 @@
-import { RadarImage, RadarRange, RadarMode } from '../types/radar';
+import { RadarImage, RadarLoop, RadarRange, RadarMode, TransparencyLayer } from '../types/radar';
 
 // Use environment variable or default to localhost for development
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
 /**
- * Fetches radar image URLs for a given product ID from our proxy API
+ * Fetches the radar loop for a given product ID from our proxy API
  *
  * How it works:
  * 1. Calls our backend proxy API endpoint
  * 2. The proxy fetches the BoM HTML page (avoiding CORS issues)
  * 3. The proxy parses the image URLs and returns them as JSON
- * 4. We display the radar images
+ * 4. We point the image URLs at the proxy too and display the radar images
+ *
+ * If BoM is down the proxy returns the last loop it fetched, flagged as stale.
  */
-export async function fetchRadarImages(productId: string): Promise<RadarImage[]> {
+export async function fetchRadarLoop(productId: string): Promise<RadarLoop> {
   try {
     const response = await fetch(`${API_BASE_URL}/api/radar/${productId}`);
 
@@ -27,7 +29,14 @@ export async function fetchRadarImages(productId: string): Promise<RadarImage[]>
       throw new Error('No radar images available');
     }
 
-    return data.images;
+    return {
+      images: data.images.map((image: RadarImage) => ({
+        ...image,
+        url: getRadarImageUrl(image.url),
+      })),
+      fetchedAt: data.fetchedAt,
+      stale: data.stale,
+    };
   } catch (error) {
     console.error('Error fetching radar images:', error);
     throw error;
@@ -35,11 +44,38 @@ export async function fetchRadarImages(productId: string): Promise<RadarImage[]>
 }
 
 /**
- * Formats timestamp from YYYYMMDDHHmm to readable format
- * Converts UTC time from BoM to user's local timezone
+ * Fetches radar image URLs for a given product ID from our proxy API
  */
-export function formatTimestamp(timestamp: string): string {
-  if (timestamp.length !== 12) return timestamp;
+export async function fetchRadarImages(productId: string): Promise<RadarImage[]> {
+  return (await fetchRadarLoop(productId)).images;
+}
+
+/**
+ * Rewrites a BoM radar frame URL to load through our proxy API
+ *
+ * BoM doesn't send CORS headers, so frames loaded from reg.bom.gov.au can't be
+ * read back from a canvas (rain sampling, nowcasting, export).
+ * Example: https://reg.bom.gov.au/radar/IDR663.T.202510290319.png
+ *       -> {API}/api/radar-image/IDR663.T.202510290319.png
+ */
+export function getRadarImageUrl(bomUrl: string): string {
+  const file = bomUrl.split('/').pop() ?? '';
+  return `${API_BASE_URL}/api/radar-image/${file}`;
+}
+
+/**
+ * Gets the proxied URL of a map transparency layer (background, range rings...) for a product
+ */
+export function getTransparencyUrl(productId: string, layer: TransparencyLayer): string {
+  return `${API_BASE_URL}/api/transparency/${productId}/${layer}`;
+}
+
+/**
+ * Parses a BoM timestamp (YYYYMMDDHHmm, UTC) into a Date
+ * Returns null if the timestamp isn't in the expected format
+ */
+export function parseTimestamp(timestamp: string): Date | null {
+  if (!/^\d{12}$/.test(timestamp)) return null;
 
   const year = parseInt(timestamp.slice(0, 4));
   const month = parseInt(timestamp.slice(4, 6));
@@ -48,7 +84,28 @@ export function formatTimestamp(timestamp: string): string {
   const minute = parseInt(timestamp.slice(10, 12));
 
   // Parse as UTC timestamp (BoM uses UTC)
-  const utcDate = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  return new Date(Date.UTC(year, month - 1, day, hour, minute));
+}
+
+/**
+ * Shifts a BoM timestamp (YYYYMMDDHHmm, UTC) by a number of minutes
+ */
+export function offsetTimestamp(timestamp: string, minutes: number): string {
+  const date = parseTimestamp(timestamp);
+  if (!date) return timestamp;
+
+  const shifted = new Date(date.getTime() + minutes * 60 * 1000);
+  // 2025-12-04T01:30:00.000Z -> 202512040130
+  return shifted.toISOString().slice(0, 16).replace(/[-T:]/g, '');
+}
+
+/**
+ * Formats timestamp from YYYYMMDDHHmm to readable format
+ * Converts UTC time from BoM to user's local timezone
+ */
+export function formatTimestamp(timestamp: string): string {
+  const utcDate = parseTimestamp(timestamp);
+  if (!utcDate) return timestamp;
 
   // Format in user's local timezone
   const localDateStr = utcDate.toLocaleDateString('en-AU', {
@@ -57,13 +114,60 @@ export function formatTimestamp(timestamp: string): string {
     year: 'numeric'
   });
 
-  const localTimeStr = utcDate.toLocaleTimeString('en-AU', {
+  const localTimeStr = formatTimestampTime(timestamp);
+
+  return `${localDateStr} ${localTimeStr}`;
+}
+
+/**
+ * Formats just the local time (HH:mm) of a YYYYMMDDHHmm timestamp
+ */
+export function formatTimestampTime(timestamp: string): string {
+  const utcDate = parseTimestamp(timestamp);
+  if (!utcDate) return timestamp;
+
+  return utcDate.toLocaleTimeString('en-AU', {
     hour: '2-digit',
     minute: '2-digit',
     hour12: false
   });
+}
 
-  return `${localDateStr} ${localTimeStr}`;
+/**
+ * Finds gaps in a radar loop where BoM skipped one or more scans
+ *
+ * The scan interval is taken as the median spacing between frames (5-10 minutes
+ * depending on the radar). Returns the indices of frames that arrived more than
+ * one interval after the previous frame.
+ */
+export function findTimestampGaps(images: RadarImage[]): number[] {
+  const times = images.map((image) => parseTimestamp(image.timestamp)?.getTime() ?? null);
+
+  const intervals: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const prev = times[i - 1];
+    const curr = times[i];
+    if (prev !== null && curr !== null && curr > prev) {
+      intervals.push(curr - prev);
+    }
+  }
+
+  if (intervals.length === 0) return [];
+
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const scanInterval = sorted[Math.floor(sorted.length / 2)];
+
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const prev = times[i - 1];
+    const curr = times[i];
+    // Allow some jitter - a missed scan shows up as roughly double the interval
+    if (prev !== null && curr !== null && curr - prev > scanInterval * 1.5) {
+      gaps.push(i);
+    }
+  }
+
+  return gaps;
 }
 
 /**
@@ -102,3 +206,27 @@ export function buildProductId(
 
   return `IDR${baseId}${rangeSuffix}`;
 }
+
+/**
+ * Gets the range (radius in km) covered by a radar product's image
+ *
+ * Rain products encode the range in the suffix (see buildProductId),
+ * doppler wind products (suffix I) cover 128km.
+ * Returns null for product IDs that don't follow the IDR pattern.
+ */
+export function getProductRangeKm(productId: string): number | null {
+  const match = productId.match(/^IDR\d{2,3}([1-4I])$/);
+  if (!match) return null;
+
+  switch (match[1]) {
+    case '4':
+      return 64;
+    case '3':
+    case 'I':
+      return 128;
+    case '2':
+      return 256;
+    default:
+      return 512;
+  }
+}
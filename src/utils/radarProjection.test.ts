@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { projectToRadarImage } from './radarProjection';
+
+describe('radarProjection', () => {
+  describe('projectToRadarImage', () => {
+    const sydneyRadar = { lat: -33.7009, lng: 151.2106 }; // Terrey Hills
+
+    it('should place the radar site at the centre of the image', () => {
+      const position = projectToRadarImage(sydneyRadar, sydneyRadar, 128);
+      expect(position?.x).toBeCloseTo(0.5);
+      expect(position?.y).toBeCloseTo(0.5);
+    });
+
+    it('should put points north of the radar above the centre', () => {
+      const position = projectToRadarImage(sydneyRadar, { lat: -33.2, lng: 151.2106 }, 128);
+      expect(position!.x).toBeCloseTo(0.5);
+      expect(position!.y).toBeLessThan(0.5);
+    });
+
+    it('should put points east of the radar right of the centre', () => {
+      const position = projectToRadarImage(sydneyRadar, { lat: -33.7009, lng: 151.7 }, 128);
+      expect(position!.x).toBeGreaterThan(0.5);
+      expect(position!.y).toBeCloseTo(0.5, 2);
+    });
+
+    it('should scale distance by range', () => {
+      // ~64km due south
+      const point = { lat: sydneyRadar.lat - 64 / 111.2, lng: sydneyRadar.lng };
+
+      const at128 = projectToRadarImage(sydneyRadar, point, 128);
+      const at256 = projectToRadarImage(sydneyRadar, point, 256);
+
+      expect(at128!.y).toBeCloseTo(0.75, 2);
+      expect(at256!.y).toBeCloseTo(0.625, 2);
+    });
+
+    it('should project Sydney CBD inside the 64km image', () => {
+      const position = projectToRadarImage(sydneyRadar, { lat: -33.8688, lng: 151.2093 }, 64);
+      expect(position).not.toBeNull();
+      expect(position!.y).toBeGreaterThan(0.5);
+    });
+
+    it('should return null for points outside the range', () => {
+      const penrith = { lat: -33.7507, lng: 150.6877 }; // ~48km west
+      expect(projectToRadarImage(sydneyRadar, penrith, 64)).not.toBeNull();
+
+      const newcastle = { lat: -32.9267, lng: 151.7789 }; // ~100km north
+      expect(projectToRadarImage(sydneyRadar, newcastle, 64)).toBeNull();
+      expect(projectToRadarImage(sydneyRadar, newcastle, 128)).not.toBeNull();
+    });
+
+    it('should treat the image as a square, not a circle', () => {
+      // ~120km north-east of the radar is outside a 100km circle but inside the square corner
+      const corner = { lat: sydneyRadar.lat + 85 / 111.2, lng: sydneyRadar.lng + 85 / 92.6 };
+      expect(projectToRadarImage(sydneyRadar, corner, 100)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Projection utilities for mapping coordinates onto BoM radar images
+ *
+ * Each radar image is a square centred on the radar site, extending the
+ * product's range (in km) to each edge. We use an azimuthal equidistant
+ * projection around the radar, which matches the BoM imagery closely at
+ * these distances.
+ */
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface ImagePosition {
+  x: number; // 0 (left edge) to 1 (right edge)
+  y: number; // 0 (top edge) to 1 (bottom edge)
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Projects a coordinate onto a radar image centred on `centre`
+ *
+ * Returns the position as a fraction of the image size, or null if the
+ * point falls outside the image for the given range.
+ */
+export function projectToRadarImage(
+  centre: GeoPoint,
+  point: GeoPoint,
+  rangeKm: number
+): ImagePosition | null {
+  const lat1 = toRadians(centre.lat);
+  const lat2 = toRadians(point.lat);
+  const dLng = toRadians(point.lng - centre.lng);
+
+  // Great-circle distance (unrounded haversine)
+  const a =
+    Math.sin((lat2 - lat1) / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  const distanceKm = EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  // Initial bearing from the radar to the point (0 = north, clockwise)
+  const bearing = Math.atan2(
+    Math.sin(dLng) * Math.cos(lat2),
+    Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  );
+
+  const eastKm = distanceKm * Math.sin(bearing);
+  const northKm = distanceKm * Math.cos(bearing);
+
+  const x = 0.5 + eastKm / (2 * rangeKm);
+  const y = 0.5 - northKm / (2 * rangeKm);
+
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+
+  return { x, y };
+}
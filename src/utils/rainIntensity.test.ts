@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyPixel,
+  findHeaviestRain,
+  getRainCategory,
+  formatRainRate,
+  sampleRainAt,
+} from './rainIntensity';
+import { RAIN_PALETTE } from '../data/rainPalette';
+
+function hexToRgba(hex: string, alpha = 255): number[] {
+  return [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+    alpha,
+  ];
+}
+
+describe('rainIntensity', () => {
+  describe('classifyPixel', () => {
+    it('should match every palette colour exactly', () => {
+      RAIN_PALETTE.forEach((level) => {
+        const [r, g, b, a] = hexToRgba(level.color);
+        expect(classifyPixel(r, g, b, a)).toBe(level);
+      });
+    });
+
+    it('should match colours close to a palette entry', () => {
+      // Slightly off yellow (#ffff00)
+      const level = classifyPixel(250, 250, 10, 255);
+      expect(level?.color).toBe('#ffff00');
+      expect(level?.category).toBe('moderate');
+    });
+
+    it('should ignore transparent pixels', () => {
+      expect(classifyPixel(255, 0, 0, 0)).toBeNull();
+      expect(classifyPixel(255, 0, 0, 100)).toBeNull();
+    });
+
+    it('should ignore colours that are not in the palette', () => {
+      expect(classifyPixel(128, 128, 128, 255)).toBeNull(); // Grey
+      expect(classifyPixel(0, 255, 0, 255)).toBeNull(); // Green
+    });
+  });
+
+  describe('findHeaviestRain', () => {
+    it('should return the heaviest level in the block', () => {
+      const pixels = [
+        ...hexToRgba('#b4b4ff'),
+        ...hexToRgba('#ff0000'),
+        ...hexToRgba('#009690'),
+        0, 0, 0, 0,
+      ];
+      expect(findHeaviestRain(pixels)?.color).toBe('#ff0000');
+    });
+
+    it('should return null when there is no rain', () => {
+      expect(findHeaviestRain([0, 0, 0, 0, 0, 0, 0, 0])).toBeNull();
+      expect(findHeaviestRain([])).toBeNull();
+    });
+
+    it('should accept Uint8ClampedArray image data', () => {
+      const pixels = new Uint8ClampedArray(hexToRgba('#1414ff'));
+      expect(findHeaviestRain(pixels)?.category).toBe('light');
+    });
+  });
+
+  describe('getRainCategory', () => {
+    it('should return none without a level', () => {
+      expect(getRainCategory(null)).toBe('none');
+    });
+
+    it('should map legend groups to categories', () => {
+      const byColor = (color: string) => RAIN_PALETTE.find((level) => level.color === color)!;
+      expect(getRainCategory(byColor('#f5f5ff'))).toBe('light');
+      expect(getRainCategory(byColor('#ff9600'))).toBe('moderate');
+      expect(getRainCategory(byColor('#ff6400'))).toBe('heavy');
+      expect(getRainCategory(byColor('#280000'))).toBe('heavy'); // Extreme reported as heavy
+    });
+  });
+
+  describe('formatRainRate', () => {
+    it('should format a bounded band', () => {
+      expect(formatRainRate(RAIN_PALETTE[1])).toBe('0.5-1.5 mm/h');
+    });
+
+    it('should format the open-ended top band', () => {
+      expect(formatRainRate(RAIN_PALETTE[RAIN_PALETTE.length - 1])).toBe('300+ mm/h');
+    });
+  });
+
+  describe('RAIN_PALETTE', () => {
+    it('should have contiguous, increasing rate bands', () => {
+      for (let i = 1; i < RAIN_PALETTE.length; i++) {
+        expect(RAIN_PALETTE[i].minRate).toBe(RAIN_PALETTE[i - 1].maxRate);
+      }
+    });
+  });
+
+  describe('sampleRainAt', () => {
+    // 10x10 transparent frame with a 2x2 block of heavy rain at (7,7)
+    function makeFrame() {
+      const width = 10;
+      const height = 10;
+      const data = new Uint8ClampedArray(width * height * 4);
+      [[7, 7], [8, 7], [7, 8], [8, 8]].forEach(([x, y]) => {
+        data.set(hexToRgba('#ff0000'), (y * width + x) * 4);
+      });
+      data.set(hexToRgba('#b4b4ff'), (2 * width + 2) * 4);
+      return { width, height, data };
+    }
+
+    it('should find rain under the position', () => {
+      const level = sampleRainAt(makeFrame(), { x: 0.8, y: 0.8 });
+      expect(level?.color).toBe('#ff0000');
+    });
+
+    it('should pick up rain within the sampling radius', () => {
+      expect(sampleRainAt(makeFrame(), { x: 0.5, y: 0.5 }, 2)?.color).toBe('#ff0000');
+      expect(sampleRainAt(makeFrame(), { x: 0.5, y: 0.5 }, 1)).toBeNull();
+    });
+
+    it('should return null where it is dry', () => {
+      expect(sampleRainAt(makeFrame(), { x: 0, y: 1 })).toBeNull();
+    });
+
+    it('should clamp the sample block at the image edges', () => {
+      expect(sampleRainAt(makeFrame(), { x: 0, y: 0 }, 2)?.color).toBe('#b4b4ff');
+    });
+  });
+});
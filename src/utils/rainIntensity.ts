@@ -0,0 +1,100 @@
+import { RainCategory, RainLevel } from '../types/radar';
+import { RAIN_PALETTE } from '../data/rainPalette';
+import { ImagePosition } from './radarProjection';
+import { FramePixels } from './canvas';
+
+/**
+ * Rain intensity utilities - reads BoM radar pixels and maps them to rain rates
+ */
+
+// Pixels more than this (squared RGB distance) from every palette colour are
+// treated as not-rain, e.g. anti-aliased edges or stray map pixels
+const MAX_COLOR_DISTANCE = 30 * 30 * 3;
+
+// Pixels with lower alpha than this are transparent background
+const MIN_ALPHA = 128;
+
+const PALETTE_RGB = RAIN_PALETTE.map((level) => ({
+  level,
+  r: parseInt(level.color.slice(1, 3), 16),
+  g: parseInt(level.color.slice(3, 5), 16),
+  b: parseInt(level.color.slice(5, 7), 16),
+}));
+
+/**
+ * Matches a single RGBA pixel to the nearest rain level
+ * Returns null for transparent or non-rain pixels
+ */
+export function classifyPixel(r: number, g: number, b: number, a: number): RainLevel | null {
+  if (a < MIN_ALPHA) return null;
+
+  let best: RainLevel | null = null;
+  let bestDistance = MAX_COLOR_DISTANCE;
+
+  for (const entry of PALETTE_RGB) {
+    const distance = (r - entry.r) ** 2 + (g - entry.g) ** 2 + (b - entry.b) ** 2;
+    if (distance <= bestDistance) {
+      best = entry.level;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Finds the heaviest rain level in a block of RGBA pixel data
+ * Sampling a small block rather than one pixel smooths over marker jitter
+ */
+export function findHeaviestRain(pixels: ArrayLike<number>): RainLevel | null {
+  let heaviest: RainLevel | null = null;
+
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    const level = classifyPixel(pixels[i], pixels[i + 1], pixels[i + 2], pixels[i + 3]);
+    if (level && (!heaviest || level.minRate > heaviest.minRate)) {
+      heaviest = level;
+    }
+  }
+
+  return heaviest;
+}
+
+/**
+ * Gets the rain category for a level (no level means no rain)
+ */
+export function getRainCategory(level: RainLevel | null): RainCategory {
+  return level ? level.category : 'none';
+}
+
+/**
+ * Formats a rain level's band, e.g. "0.5-1.5 mm/h"
+ */
+export function formatRainRate(level: RainLevel): string {
+  return level.maxRate === null
+    ? `${level.minRate}+ mm/h`
+    : `${level.minRate}-${level.maxRate} mm/h`;
+}
+
+/**
+ * Reads the rain level at a position on a radar frame
+ * Samples a small block around the position and returns the heaviest rain in it
+ */
+export function sampleRainAt(
+  pixels: FramePixels,
+  position: ImagePosition,
+  radius = 2
+): RainLevel | null {
+  const { width, height, data } = pixels;
+  const centreX = Math.round(position.x * (width - 1));
+  const centreY = Math.round(position.y * (height - 1));
+
+  const block: number[] = [];
+  for (let y = Math.max(centreY - radius, 0); y <= Math.min(centreY + radius, height - 1); y++) {
+    for (let x = Math.max(centreX - radius, 0); x <= Math.min(centreX + radius, width - 1); x++) {
+      const offset = (y * width + x) * 4;
+      block.push(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+    }
+  }
+
+  return findHeaviestRain(block);
+}
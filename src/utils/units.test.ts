@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_UNITS,
+  parseUnitPreferences,
+  convertTemperature,
+  convertWindSpeed,
+  convertRainfall,
+  getWindSpeed,
+  formatWindSpeed,
+  formatRainfall,
+} from './units';
+
+describe('units', () => {
+  describe('parseUnitPreferences', () => {
+    it('should default to metric', () => {
+      expect(parseUnitPreferences(null)).toEqual(DEFAULT_UNITS);
+    });
+
+    it('should read saved preferences', () => {
+      const saved = JSON.stringify({ temperature: 'F', windSpeed: 'kn', rainfall: 'in' });
+      expect(parseUnitPreferences(saved)).toEqual({ temperature: 'F', windSpeed: 'kn', rainfall: 'in' });
+    });
+
+    it('should fall back to defaults for unknown or missing units', () => {
+      const saved = JSON.stringify({ temperature: 'K', windSpeed: 'mph' });
+      expect(parseUnitPreferences(saved)).toEqual({ temperature: 'C', windSpeed: 'mph', rainfall: 'mm' });
+    });
+
+    it('should ignore invalid JSON', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(parseUnitPreferences('{not json')).toEqual(DEFAULT_UNITS);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('convertTemperature', () => {
+    it('should convert Celsius to Fahrenheit', () => {
+      expect(convertTemperature(0, 'F')).toBe(32);
+      expect(convertTemperature(100, 'F')).toBe(212);
+      expect(convertTemperature(-40, 'F')).toBe(-40);
+    });
+
+    it('should leave Celsius alone', () => {
+      expect(convertTemperature(25, 'C')).toBe(25);
+    });
+  });
+
+  describe('convertWindSpeed', () => {
+    it('should convert km/h to each unit', () => {
+      expect(convertWindSpeed(36, 'km/h')).toBe(36);
+      expect(convertWindSpeed(36, 'm/s')).toBe(10);
+      expect(convertWindSpeed(18.52, 'kn')).toBeCloseTo(10);
+      expect(convertWindSpeed(16.09344, 'mph')).toBeCloseTo(10);
+    });
+  });
+
+  describe('convertRainfall', () => {
+    it('should convert mm to inches', () => {
+      expect(convertRainfall(25.4, 'in')).toBe(1);
+      expect(convertRainfall(5, 'mm')).toBe(5);
+    });
+  });
+
+  describe('getWindSpeed', () => {
+    it("should use BoM's knots figure when there is one", () => {
+      expect(getWindSpeed({ speed_kilometre: 17, speed_knot: 9 }, 'kn')).toBe(9);
+    });
+
+    it('should convert from km/h otherwise', () => {
+      expect(getWindSpeed({ speed_kilometre: 17 }, 'kn')).toBe(9);
+      expect(getWindSpeed({ speed_kilometre: 17 }, 'mph')).toBe(11);
+      expect(getWindSpeed({ speed_kilometre: 17 }, 'm/s')).toBe(5);
+    });
+
+    it('should return undefined without a speed', () => {
+      expect(getWindSpeed(undefined, 'km/h')).toBeUndefined();
+      expect(getWindSpeed({ direction: 'SE' }, 'km/h')).toBeUndefined();
+    });
+  });
+
+  describe('formatWindSpeed', () => {
+    it('should add the unit', () => {
+      expect(formatWindSpeed({ speed_kilometre: 17, speed_knot: 9 }, 'km/h')).toBe('17km/h');
+      expect(formatWindSpeed({ speed_kilometre: 17, speed_knot: 9 }, 'kn')).toBe('9kn');
+    });
+
+    it('should return -- without a speed', () => {
+      expect(formatWindSpeed(undefined, 'mph')).toBe('--');
+    });
+  });
+
+  describe('formatRainfall', () => {
+    it('should keep mm as they are', () => {
+      expect(formatRainfall(5, 'mm')).toBe('5');
+      expect(formatRainfall(0.4, 'mm')).toBe('0.4');
+    });
+
+    it('should round inches to two decimal places', () => {
+      expect(formatRainfall(5, 'in')).toBe('0.2');
+      expect(formatRainfall(1, 'in')).toBe('0.04');
+      expect(formatRainfall(50, 'in')).toBe('1.97');
+    });
+  });
+});
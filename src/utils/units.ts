@@ -0,0 +1,110 @@
+import { RainfallUnit, TemperatureUnit, UnitPreferences, WindData, WindSpeedUnit } from '../types/radar';
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  temperature: 'C',
+  windSpeed: 'km/h',
+  rainfall: 'mm',
+};
+
+export const TEMPERATURE_UNIT_OPTIONS: { value: TemperatureUnit; label: string }[] = [
+  { value: 'C', label: 'Celsius (°C)' },
+  { value: 'F', label: 'Fahrenheit (°F)' },
+];
+
+export const WIND_SPEED_UNIT_OPTIONS: { value: WindSpeedUnit; label: string }[] = [
+  { value: 'km/h', label: 'Kilometres per hour (km/h)' },
+  { value: 'kn', label: 'Knots (kn)' },
+  { value: 'm/s', label: 'Metres per second (m/s)' },
+  { value: 'mph', label: 'Miles per hour (mph)' },
+];
+
+export const RAINFALL_UNIT_OPTIONS: { value: RainfallUnit; label: string }[] = [
+  { value: 'mm', label: 'Millimetres (mm)' },
+  { value: 'in', label: 'Inches (in)' },
+];
+
+// km/h per unit of each wind speed unit
+const KMH_PER_UNIT: Record<WindSpeedUnit, number> = {
+  'km/h': 1,
+  kn: 1.852,
+  'm/s': 3.6,
+  mph: 1.609344,
+};
+
+const MM_PER_INCH = 25.4;
+
+/**
+ * Reads saved unit preferences, ignoring anything unrecognised
+ */
+export function parseUnitPreferences(saved: string | null): UnitPreferences {
+  if (!saved) return DEFAULT_UNITS;
+
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      temperature: TEMPERATURE_UNIT_OPTIONS.some((o) => o.value === parsed.temperature)
+        ? parsed.temperature
+        : DEFAULT_UNITS.temperature,
+      windSpeed: WIND_SPEED_UNIT_OPTIONS.some((o) => o.value === parsed.windSpeed)
+        ? parsed.windSpeed
+        : DEFAULT_UNITS.windSpeed,
+      rainfall: RAINFALL_UNIT_OPTIONS.some((o) => o.value === parsed.rainfall)
+        ? parsed.rainfall
+        : DEFAULT_UNITS.rainfall,
+    };
+  } catch (e) {
+    console.error('Failed to parse saved units:', e);
+    return DEFAULT_UNITS;
+  }
+}
+
+/**
+ * Converts a Celsius temperature
+ */
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? celsius * 9 / 5 + 32 : celsius;
+}
+
+/**
+ * Converts a wind speed in km/h
+ */
+export function convertWindSpeed(kmh: number, unit: WindSpeedUnit): number {
+  return kmh / KMH_PER_UNIT[unit];
+}
+
+/**
+ * Converts a rainfall amount in mm
+ */
+export function convertRainfall(mm: number, unit: RainfallUnit): number {
+  return unit === 'in' ? mm / MM_PER_INCH : mm;
+}
+
+/**
+ * Gets a wind speed in the given unit, rounded
+ * Uses BoM's own knots figure when there is one, otherwise converts from km/h
+ */
+export function getWindSpeed(wind: WindData | undefined, unit: WindSpeedUnit): number | undefined {
+  if (unit === 'kn' && wind?.speed_knot !== undefined) {
+    return Math.round(wind.speed_knot);
+  }
+  if (wind?.speed_kilometre === undefined) return undefined;
+
+  return Math.round(convertWindSpeed(wind.speed_kilometre, unit));
+}
+
+/**
+ * Formats a wind speed, e.g. "17km/h" or "9kn"
+ */
+export function formatWindSpeed(wind: WindData | undefined, unit: WindSpeedUnit): string {
+  const speed = getWindSpeed(wind, unit);
+  return speed === undefined ? '--' : `${speed}${unit}`;
+}
+
+/**
+ * Formats a rainfall amount in mm as a number in the given unit (no suffix)
+ * Inches keep two decimal places, e.g. 5mm -> "0.2"
+ */
+export function formatRainfall(mm: number, unit: RainfallUnit): string {
+  const value = convertRainfall(mm, unit);
+  return String(Number(value.toFixed(unit === 'in' ? 2 : 1)));
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  fetchWarnings,
+  fetchWarningDetail,
+  getWarningSeverity,
+  getActiveWarnings,
+  getWarningIssueKey,
+  warningMessageToText,
+  formatWarningTime,
+} from './warningsApi';
+import { Warning } from '../types/radar';
+
+const thunderstorm: Warning = {
+  id: 'QLD_RC022_IDQ20885',
+  type: 'severe_thunderstorm_warning',
+  title: 'Severe Thunderstorm Warning for South East Queensland',
+  warning_group_type: 'major',
+  issue_time: '2025-12-04T04:10:00Z',
+  expiry_time: '2025-12-04T08:10:00Z',
+  phase: 'new',
+};
+
+const floodWatch: Warning = {
+  id: 'QLD_FL100_IDQ20800',
+  type: 'flood_watch',
+  title: 'Flood Watch for South East Queensland',
+  warning_group_type: 'major',
+  issue_time: '2025-12-04T05:00:00Z',
+  expiry_time: '2025-12-05T05:00:00Z',
+  phase: 'new',
+};
+
+const marineWind: Warning = {
+  id: 'QLD_MW009_IDQ20900',
+  type: 'marine_wind_warning',
+  title: 'Strong Wind Warning for Moreton Bay',
+  warning_group_type: 'minor',
+  issue_time: '2025-12-04T06:00:00Z',
+  expiry_time: '2025-12-04T20:00:00Z',
+  phase: 'update',
+};
+
+const now = new Date('2025-12-04T06:30:00Z');
+
+describe('warningsApi', () => {
+  describe('getWarningSeverity', () => {
+    it('should rank major warnings as severe', () => {
+      expect(getWarningSeverity(thunderstorm)).toBe('severe');
+    });
+
+    it('should rank watches as moderate', () => {
+      expect(getWarningSeverity(floodWatch)).toBe('moderate');
+    });
+
+    it('should rank minor warnings as minor', () => {
+      expect(getWarningSeverity(marineWind)).toBe('minor');
+    });
+  });
+
+  describe('getActiveWarnings', () => {
+    it('should sort by severity', () => {
+      expect(getActiveWarnings([marineWind, floodWatch, thunderstorm], now)).toEqual([
+        thunderstorm,
+        floodWatch,
+        marineWind,
+      ]);
+    });
+
+    it('should put the most recent first within a severity', () => {
+      const newer = { ...thunderstorm, id: 'QLD_RC022_IDQ20886', issue_time: '2025-12-04T06:10:00Z' };
+      expect(getActiveWarnings([thunderstorm, newer], now)).toEqual([newer, thunderstorm]);
+    });
+
+    it('should drop cancelled and expired warnings', () => {
+      const cancelled = { ...floodWatch, phase: 'cancelled' as const };
+      const expired = { ...marineWind, expiry_time: '2025-12-04T06:00:00Z' };
+      expect(getActiveWarnings([thunderstorm, cancelled, expired], now)).toEqual([thunderstorm]);
+    });
+
+    it('should keep warnings without an expiry time', () => {
+      const { expiry_time: _, ...noExpiry } = thunderstorm;
+      expect(getActiveWarnings([noExpiry], now)).toEqual([noExpiry]);
+    });
+  });
+
+  describe('getWarningIssueKey', () => {
+    it('should change when the warning is reissued', () => {
+      const reissued = { ...thunderstorm, issue_time: '2025-12-04T06:10:00Z', phase: 'update' as const };
+      expect(getWarningIssueKey(thunderstorm)).not.toBe(getWarningIssueKey(reissued));
+      expect(getWarningIssueKey(thunderstorm)).toBe(getWarningIssueKey({ ...thunderstorm }));
+    });
+  });
+
+  describe('warningMessageToText', () => {
+    it('should strip tags and keep paragraphs', () => {
+      const html = '<h2>Severe Thunderstorm Warning</h2><p>Damaging winds are likely.</p><p>Locations include:<br>Brisbane<br>Ipswich</p>';
+      expect(warningMessageToText(html)).toBe(
+        'Severe Thunderstorm Warning\nDamaging winds are likely.\nLocations include:\nBrisbane\nIpswich'
+      );
+    });
+
+    it('should not run scripts or keep markup', () => {
+      expect(warningMessageToText('<p onclick="alert(1)">Take care &amp; stay indoors</p>')).toBe('Take care & stay indoors');
+    });
+
+    it('should handle a missing message', () => {
+      expect(warningMessageToText(undefined)).toBe('');
+    });
+  });
+
+  describe('formatWarningTime', () => {
+    it('should return -- for missing or invalid times', () => {
+      expect(formatWarningTime(undefined)).toBe('--');
+      expect(formatWarningTime('not a date')).toBe('--');
+    });
+
+    it('should include the day and time', () => {
+      const formatted = formatWarningTime('2025-12-04T04:10:00Z');
+      expect(formatted).toMatch(/Dec/);
+      expect(formatted).toMatch(/\d{1,2}:\d{2}/);
+    });
+  });
+
+  describe('fetchWarnings', () => {
+    it('should return the warnings for a geohash', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ geohash: 'r7hgdp', warnings: [thunderstorm], stale: false })
+      );
+
+      const data = await fetchWarnings('r7hgdp');
+
+      expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/warnings\?geohash=r7hgdp$/);
+      expect(data.warnings).toEqual([thunderstorm]);
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw the API error message', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Failed to fetch warnings' }, { status: 503 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchWarnings('r7hgdp')).rejects.toThrow('Failed to fetch warnings');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('fetchWarningDetail', () => {
+    it('should return the warning with its message', async () => {
+      const detail = { ...thunderstorm, message: '<p>Damaging winds are likely.</p>' };
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ warning: detail, stale: false })
+      );
+
+      const warning = await fetchWarningDetail(thunderstorm.id);
+
+      expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/warnings\/QLD_RC022_IDQ20885$/);
+      expect(warning).toEqual(detail);
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw when the warning is gone', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Warning not found' }, { status: 404 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchWarningDetail(thunderstorm.id)).rejects.toThrow('Warning not found');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+});
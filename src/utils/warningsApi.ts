@@ -0,0 +1,124 @@
+import { Warning, WarningDetail, WarningsData, WarningSeverity } from '../types/radar';
+
+// Use environment variable or default to localhost for development
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const SEVERITY_ORDER: WarningSeverity[] = ['severe', 'moderate', 'minor'];
+
+/**
+ * Fetches BoM warnings for a location geohash
+ */
+export async function fetchWarnings(geohash: string): Promise<WarningsData> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/warnings?geohash=${geohash}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.warnings)) {
+      throw new Error('Invalid warnings data: missing warnings');
+    }
+
+    return data as WarningsData;
+  } catch (error) {
+    console.error('Error fetching warnings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches a single warning including its full message
+ */
+export async function fetchWarningDetail(id: string): Promise<WarningDetail> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/warnings/${encodeURIComponent(id)}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.warning) {
+      throw new Error('Invalid warning data: missing warning');
+    }
+
+    return data.warning as WarningDetail;
+  } catch (error) {
+    console.error('Error fetching warning:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets how serious a warning is, for colouring
+ * Watches come before a warning is needed, so rank below major warnings
+ */
+export function getWarningSeverity(warning: Warning): WarningSeverity {
+  if (warning.type.includes('watch')) return 'moderate';
+  if (warning.warning_group_type === 'major') return 'severe';
+  return 'minor';
+}
+
+/**
+ * Gets the warnings still in force, most severe and then most recent first
+ */
+export function getActiveWarnings(warnings: Warning[], now: Date = new Date()): Warning[] {
+  return warnings
+    .filter((warning) => {
+      if (warning.phase === 'cancelled') return false;
+      const expiry = warning.expiry_time ? new Date(warning.expiry_time).getTime() : NaN;
+      return isNaN(expiry) || expiry > now.getTime();
+    })
+    .sort((a, b) => {
+      const bySeverity = SEVERITY_ORDER.indexOf(getWarningSeverity(a)) - SEVERITY_ORDER.indexOf(getWarningSeverity(b));
+      return bySeverity || (b.issue_time ?? '').localeCompare(a.issue_time ?? '');
+    });
+}
+
+/**
+ * Key for one issue of a warning, to remember dismissals and cache details by
+ * Includes the issue time so an updated warning is treated as new
+ */
+export function getWarningIssueKey(warning: Warning): string {
+  return `${warning.id}@${warning.issue_time ?? ''}`;
+}
+
+/**
+ * Converts BoM's HTML warning message to plain text, keeping paragraph breaks
+ */
+export function warningMessageToText(html: string | undefined): string {
+  if (!html) return '';
+
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '$&\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent ?? '';
+
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Formats a warning's issue or expiry time, e.g. "Thu 4 Dec, 2:10 pm"
+ */
+export function formatWarningTime(isoString: string | undefined): string {
+  const date = isoString ? new Date(isoString) : null;
+  if (!date || isNaN(date.getTime())) return '--';
+
+  return date.toLocaleString('en-AU', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+}
@@ -1,7 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   formatTemperature,
   formatTime,
+  formatDataAsOf,
+  formatStationDistance,
+  formatHour,
+  formatForecastDay,
+  formatForecastDate,
+  formatRainAmount,
+  getUpcomingHours,
+  getWeatherIcon,
+  fetchHourlyForecast,
+  fetchObservationHistory,
   getUVCategoryColor,
   getFireDangerColor,
 } from './weatherApi';
@@ -31,6 +41,11 @@ describe('weatherApi', () => {
       expect(formatTemperature(undefined)).toBe('--');
     });
 
+    it('should convert to Fahrenheit', () => {
+      expect(formatTemperature(25, 'F')).toBe('77°');
+      expect(formatTemperature(-5, 'F')).toBe('23°');
+    });
+
     it('should return -- for null temperature', () => {
       expect(formatTemperature(null as any)).toBe('--');
     });
@@ -82,6 +97,193 @@ describe('weatherApi', () => {
     });
   });
 
+  describe('formatStationDistance', () => {
+    it('should show kilometres with one decimal place close by', () => {
+      expect(formatStationDistance(2150)).toBe('2.2 km');
+      expect(formatStationDistance(1000)).toBe('1 km');
+    });
+
+    it('should round further stations to whole kilometres', () => {
+      expect(formatStationDistance(23400)).toBe('23 km');
+    });
+
+    it('should show metres under a kilometre', () => {
+      expect(formatStationDistance(850)).toBe('850 m');
+    });
+
+    it('should return null without a distance', () => {
+      expect(formatStationDistance(undefined)).toBeNull();
+      expect(formatStationDistance(NaN)).toBeNull();
+    });
+  });
+
+  describe('formatDataAsOf', () => {
+    it('should show just the time for data fetched today', () => {
+      const fetchedAt = new Date(2025, 11, 4, 14, 5);
+      const now = new Date(2025, 11, 4, 16, 0);
+      expect(formatDataAsOf(fetchedAt.toISOString(), now)).toBe('Data as of 14:05');
+    });
+
+    it('should include the date for older data', () => {
+      const fetchedAt = new Date(2025, 11, 3, 9, 30);
+      const now = new Date(2025, 11, 4, 8, 0);
+      expect(formatDataAsOf(fetchedAt.toISOString(), now)).toBe('Data as of 03/12 09:30');
+    });
+
+    it('should fall back to a generic message without a valid time', () => {
+      expect(formatDataAsOf(undefined)).toBe('Data may be out of date');
+      expect(formatDataAsOf('invalid date')).toBe('Data may be out of date');
+    });
+  });
+
+  describe('formatHour', () => {
+    it('should format the hour in 12-hour time', () => {
+      expect(formatHour('2025-12-04T14:00:00Z')).toMatch(/^\d{1,2}\s(am|pm)$/);
+    });
+
+    it('should return -- for missing or invalid times', () => {
+      expect(formatHour(undefined)).toBe('--');
+      expect(formatHour('not a date')).toBe('--');
+    });
+  });
+
+  describe('formatForecastDay', () => {
+    const now = new Date(2025, 11, 4, 15, 0);
+
+    it('should call the current day Today', () => {
+      expect(formatForecastDay(new Date(2025, 11, 4).toISOString(), now)).toBe('Today');
+    });
+
+    it('should use the short day name for later days', () => {
+      expect(formatForecastDay(new Date(2025, 11, 5).toISOString(), now)).toBe('Fri');
+      expect(formatForecastDay(new Date(2025, 11, 10).toISOString(), now)).toBe('Wed');
+    });
+
+    it('should return -- for missing or invalid dates', () => {
+      expect(formatForecastDay(undefined, now)).toBe('--');
+      expect(formatForecastDay('not a date', now)).toBe('--');
+    });
+  });
+
+  describe('formatForecastDate', () => {
+    it('should format the full date', () => {
+      expect(formatForecastDate(new Date(2025, 11, 4).toISOString())).toBe('Thursday 4 December');
+    });
+
+    it('should return -- for missing or invalid dates', () => {
+      expect(formatForecastDate(undefined)).toBe('--');
+      expect(formatForecastDate('not a date')).toBe('--');
+    });
+  });
+
+  describe('formatRainAmount', () => {
+    it('should format a range', () => {
+      expect(formatRainAmount({ min: 1, max: 5, units: 'mm' })).toBe('1-5mm');
+    });
+
+    it('should convert to inches', () => {
+      expect(formatRainAmount({ min: 1, max: 5, units: 'mm' }, 'in')).toBe('0.04-0.2in');
+      expect(formatRainAmount({ min: 25, max: undefined, units: 'mm' }, 'in')).toBe('0.98in+');
+    });
+
+    it('should format a single amount', () => {
+      expect(formatRainAmount({ min: 2, max: 2, units: 'mm' })).toBe('2mm');
+    });
+
+    it('should mark open-ended amounts', () => {
+      expect(formatRainAmount({ min: 10, max: undefined, units: 'mm' })).toBe('10mm+');
+    });
+
+    it('should return null when no rain is expected', () => {
+      expect(formatRainAmount(undefined)).toBeNull();
+      expect(formatRainAmount({ min: 0, max: 0, units: 'mm' })).toBeNull();
+      expect(formatRainAmount({ min: 0, units: 'mm' })).toBeNull();
+    });
+  });
+
+  describe('getUpcomingHours', () => {
+    const hourly = Array.from({ length: 30 }, (_, index) => ({
+      time: new Date(Date.UTC(2025, 11, 4, index)).toISOString(),
+      temp: 20 + index,
+    }));
+
+    it('should start from the current hour', () => {
+      const hours = getUpcomingHours(hourly, 24, new Date(Date.UTC(2025, 11, 4, 3, 30)));
+
+      expect(hours[0].time).toBe('2025-12-04T03:00:00.000Z');
+      expect(hours).toHaveLength(24);
+    });
+
+    it('should return what is left near the end of the forecast', () => {
+      expect(getUpcomingHours(hourly, 24, new Date(Date.UTC(2025, 11, 5, 2, 0)))).toHaveLength(4);
+    });
+  });
+
+  describe('getWeatherIcon', () => {
+    it('should map BoM icon descriptors', () => {
+      expect(getWeatherIcon('mostly_sunny')).toBe('☀️');
+      expect(getWeatherIcon('shower')).toBe('🌧️');
+      expect(getWeatherIcon('storm')).toBe('⛈️');
+      expect(getWeatherIcon('hazy')).toBe('🌤️');
+    });
+  });
+
+  describe('fetchObservationHistory', () => {
+    it('should return the samples for a station', async () => {
+      const samples = [{ time: '2025-12-04T01:00:00.000Z', temp: 26.4, humidity: 61 }];
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ station: '040913', samples })
+      );
+
+      const data = await fetchObservationHistory('040913');
+
+      expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/observations\/history\?station=040913$/);
+      expect(data.samples).toEqual(samples);
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw the API error message', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Missing or invalid parameter: station' }, { status: 400 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchObservationHistory('bad')).rejects.toThrow('Missing or invalid parameter: station');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('fetchHourlyForecast', () => {
+    it('should return the hourly entries for a geohash', async () => {
+      const hourly = [{ time: '2025-12-04T01:00:00Z', temp: 24 }];
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ geohash: 'r3gx2f', hourly, stale: false })
+      );
+
+      const data = await fetchHourlyForecast('r3gx2f');
+
+      expect(fetchSpy.mock.calls[0][0]).toMatch(/\/api\/weather\/hourly\?geohash=r3gx2f$/);
+      expect(data.hourly).toEqual(hourly);
+
+      fetchSpy.mockRestore();
+    });
+
+    it('should throw the API error message', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+        Response.json({ error: 'Missing or invalid parameter: geohash' }, { status: 400 })
+      );
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(fetchHourlyForecast('bad')).rejects.toThrow('Missing or invalid parameter: geohash');
+
+      consoleSpy.mockRestore();
+      fetchSpy.mockRestore();
+    });
+  });
+
   describe('getUVCategoryColor', () => {
     it('should return green for low UV', () => {
       expect(getUVCategoryColor('low')).toBe('text-green-600');
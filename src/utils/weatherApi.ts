@@ -1,4 +1,13 @@
-import { WeatherData } from '../types/radar';
+import {
+  WeatherData,
+  HourlyForecast,
+  HourlyForecastData,
+  ObservationHistoryData,
+  RainData,
+  RainfallUnit,
+  TemperatureUnit
+} from '../types/radar';
+import { convertTemperature, formatRainfall } from './units';
 
 // Use environment variable or default to localhost for development
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
@@ -35,11 +44,152 @@ export async function fetchWeatherData(lat: number, lng: number): Promise<Weathe
 }
 
 /**
- * Formats temperature with degree symbol
+ * Fetches the hourly forecast (about 3 days ahead) for a BoM location geohash
  */
-export function formatTemperature(temp: number | undefined): string {
+export async function fetchHourlyForecast(geohash: string): Promise<HourlyForecastData> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/weather/hourly?geohash=${geohash}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.hourly)) {
+      throw new Error('Invalid hourly forecast: missing hourly entries');
+    }
+
+    return data as HourlyForecastData;
+  } catch (error) {
+    console.error('Error fetching hourly forecast:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the last 24 hours of observations for a BoM weather station
+ * The API only has history from while it has been asked about the station
+ */
+export async function fetchObservationHistory(station: string): Promise<ObservationHistoryData> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/observations/history?station=${station}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!Array.isArray(data.samples)) {
+      throw new Error('Invalid observation history: missing samples');
+    }
+
+    return data as ObservationHistoryData;
+  } catch (error) {
+    console.error('Error fetching observation history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Gets the forecast hours from the current hour onwards
+ */
+export function getUpcomingHours(hourly: HourlyForecast[], count = 24, now: Date = new Date()): HourlyForecast[] {
+  const hourMs = 60 * 60 * 1000;
+  return hourly
+    .filter((hour) => new Date(hour.time).getTime() + hourMs > now.getTime())
+    .slice(0, count);
+}
+
+/**
+ * Formats the hour of an ISO time in local time, e.g. "3 pm"
+ */
+export function formatHour(isoString: string | undefined): string {
+  if (!isoString) return '--';
+
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '--';
+
+  return date.toLocaleTimeString('en-AU', {
+    hour: 'numeric',
+    hour12: true
+  });
+}
+
+/**
+ * Formats a daily forecast's date as a short day name, e.g. "Thu"
+ * The first day is "Today"
+ */
+export function formatForecastDay(isoString: string | undefined, now: Date = new Date()): string {
+  if (!isoString) return '--';
+
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '--';
+
+  if (date.toDateString() === now.toDateString()) return 'Today';
+  return date.toLocaleDateString('en-AU', { weekday: 'short' });
+}
+
+/**
+ * Formats a daily forecast's date in full, e.g. "Thursday 4 December"
+ */
+export function formatForecastDate(isoString: string | undefined): string {
+  if (!isoString) return '--';
+
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '--';
+
+  return date.toLocaleDateString('en-AU', { weekday: 'long', day: 'numeric', month: 'long' });
+}
+
+/**
+ * Gets the emoji for a BoM icon descriptor (e.g. "mostly_sunny")
+ */
+export function getWeatherIcon(iconDescriptor?: string): string {
+  if (!iconDescriptor) return '☀️';
+
+  const descriptor = iconDescriptor.toLowerCase();
+  if (descriptor.includes('sunny')) return '☀️';
+  if (descriptor.includes('clear')) return '🌙';
+  if (descriptor.includes('cloud')) return '☁️';
+  if (descriptor.includes('partly')) return '⛅';
+  if (descriptor.includes('shower') || descriptor.includes('rain')) return '🌧️';
+  if (descriptor.includes('storm')) return '⛈️';
+  if (descriptor.includes('fog')) return '🌫️';
+  if (descriptor.includes('wind')) return '💨';
+
+  return '🌤️';
+}
+
+/**
+ * Formats a Celsius temperature with degree symbol, converted to the given unit
+ */
+export function formatTemperature(temp: number | undefined, unit: TemperatureUnit = 'C'): string {
   if (temp === undefined || temp === null) return '--';
-  return `${Math.round(temp)}°`;
+  return `${Math.round(convertTemperature(temp, unit))}°`;
+}
+
+/**
+ * Formats a forecast rain amount range, e.g. "1-5mm" or "0.04-0.2in"
+ * Returns null when no rain is expected
+ */
+export function formatRainAmount(amount: RainData['amount'], unit: RainfallUnit = 'mm'): string | null {
+  if (!amount) return null;
+
+  // BoM amounts are always in mm
+  const min = amount.min ?? 0;
+  const max = amount.max ?? null;
+
+  if (max === null) {
+    return min > 0 ? `${formatRainfall(min, unit)}${unit}+` : null;
+  }
+  if (max <= 0) return null;
+  if (min === max) return `${formatRainfall(max, unit)}${unit}`;
+
+  return `${formatRainfall(min, unit)}-${formatRainfall(max, unit)}${unit}`;
 }
 
 /**
@@ -61,6 +211,40 @@ export function formatTime(isoString: string | undefined): string {
   }
 }
 
+/**
+ * Formats when stale data was fetched, e.g. "Data as of 14:05"
+ * Older than today also shows the date, e.g. "Data as of 03/12 14:05"
+ */
+export function formatDataAsOf(fetchedAt: string | undefined, now: Date = new Date()): string {
+  const date = fetchedAt ? new Date(fetchedAt) : null;
+  if (!date || isNaN(date.getTime())) return 'Data may be out of date';
+
+  const time = date.toLocaleTimeString('en-AU', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+
+  if (date.toDateString() === now.toDateString()) {
+    return `Data as of ${time}`;
+  }
+
+  const day = date.toLocaleDateString('en-AU', { day: '2-digit', month: '2-digit' });
+  return `Data as of ${day} ${time}`;
+}
+
+/**
+ * Formats how far the observation station is from the location
+ * BoM gives the distance in metres, e.g. 2150 -> "2.2 km", 850 -> "850 m"
+ */
+export function formatStationDistance(metres: number | undefined): string | null {
+  if (metres === undefined || isNaN(metres)) return null;
+  if (metres < 1000) return `${Math.round(metres)} m`;
+
+  const km = metres < 10000 ? Math.round(metres / 100) / 10 : Math.round(metres / 1000);
+  return `${km} km`;
+}
+
 /**
  * Gets UV category color for display
  */
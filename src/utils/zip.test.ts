@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+
+// Reads the stored files back out using the central directory
+function readZip(zip: Uint8Array): { name: string; data: Uint8Array; crc: number }[] {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  let offset = centralOffset;
+  const files = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(zip.slice(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    files.push({ name, data: zip.slice(dataStart, dataStart + size), crc });
+
+    offset += 46 + nameLength;
+  }
+
+  // The central directory runs right up to the end record
+  expect(centralSize).toBe(offset - centralOffset);
+  expect(centralOffset + centralSize).toBe(end);
+
+  return files;
+}
+
+describe('zip', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('should be zero for empty input', () => {
+      expect(crc32(new Uint8Array())).toBe(0);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should store every file with its name and checksum', () => {
+      const entries = [
+        { name: 'frame-01.png', data: encoder.encode('first') },
+        { name: 'frame-02.png', data: encoder.encode('second frame') },
+      ];
+
+      const files = readZip(createZip(entries));
+
+      expect(files.map((file) => file.name)).toEqual(['frame-01.png', 'frame-02.png']);
+      expect(new TextDecoder().decode(files[1].data)).toBe('second frame');
+      expect(files[0].crc).toBe(crc32(entries[0].data));
+    });
+
+    it('should write an empty archive', () => {
+      const zip = createZip([]);
+      expect(zip.length).toBe(22);
+      expect(readZip(zip)).toEqual([]);
+    });
+  });
+});
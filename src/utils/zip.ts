@@ -0,0 +1,136 @@
+/**
+ * Minimal zip archive writer
+ *
+ * Files are stored without compression - PNGs are already compressed, so
+ * deflating them again would only cost time.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 checksum (as used by zip and PNG)
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to MS-DOS time and date fields
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Builds a zip archive containing the given files
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modified);
+
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+  }));
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  const u16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+
+  // Local file headers, each followed by the file's data
+  const localOffsets: number[] = [];
+  for (const file of files) {
+    localOffsets.push(offset);
+    u32(0x04034b50);
+    u16(20); // Version needed to extract
+    u16(0x0800); // Flags - UTF-8 names
+    u16(0); // Stored
+    u16(time);
+    u16(date);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0); // Extra field length
+    output.set(file.name, offset);
+    offset += file.name.length;
+    output.set(file.data, offset);
+    offset += file.data.length;
+  }
+
+  // Central directory
+  const centralOffset = offset;
+  files.forEach((file, index) => {
+    u32(0x02014b50);
+    u16(20); // Version made by
+    u16(20); // Version needed to extract
+    u16(0x0800);
+    u16(0);
+    u16(time);
+    u16(date);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0); // Extra field length
+    u16(0); // Comment length
+    u16(0); // Disk number
+    u16(0); // Internal attributes
+    u32(0); // External attributes
+    u32(localOffsets[index]);
+    output.set(file.name, offset);
+    offset += file.name.length;
+  });
+  const centralDirectorySize = offset - centralOffset; // Before the end record moves offset on
+
+  // End of central directory record
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralDirectorySize);
+  u32(centralOffset);
+  u16(0); // Comment length
+
+  return output;
+}
@@ -5,10 +5,48 @@
  * to fetch radar and weather data and return it as JSON with CORS headers.
  */
 
+import { upstreamFetch, getCircuitStates } from './upstream.js';
+import { recordObservation, getObservationHistory, STATION_ID_PATTERN } from './observationHistory.js';
+import { decodeGeohash } from './geohash.js';
+import { RADAR_PRODUCT_IDS } from './radarProducts.js';
+import { coalesce, coalescingStats } from './coalesce.js';
+
 // Simple in-memory cache for weather data
 // In Cloudflare Workers, this will persist for the duration of the worker instance
 const weatherCache = new Map();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+const STALE_DURATION = 24 * 60 * 60 * 1000; // Serve the last good data for up to a day if BoM is down
+
+// Hourly forecast cache, keyed by geohash
+const hourlyCache = new Map();
+const HOURLY_CACHE_DURATION = 15 * 60 * 1000; // 15 minutes - BoM updates these a few times a day
+const GEOHASH_PATTERN = /^[0-9b-hjkmnp-z]{6,7}$/;
+
+// Warnings caches, keyed by geohash and by warning ID
+const warningsCache = new Map();
+const warningDetailCache = new Map();
+const WARNINGS_CACHE_DURATION = 2 * 60 * 1000; // 2 minutes - warnings can be issued or cancelled at any time
+const WARNING_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+// Location search cache, keyed by lower-cased query
+const locationSearchCache = new Map();
+const LOCATION_SEARCH_CACHE_DURATION = 12 * 60 * 60 * 1000; // 12 hours - place names rarely change
+const LOCATION_QUERY_PATTERN = /^[A-Za-z0-9 '.-]{3,50}$/;
+
+// Radar loops are cached with the Workers Cache API (shared across isolates in
+// a data centre). A loop stays fresh until the radar's next scan is due, then is
+// served stale for a while longer while a background refresh picks up the new frame.
+// Note the Cache API is a no-op on workers.dev subdomains - use a custom domain.
+const RADAR_SCAN_INTERVAL = 6 * 60; // seconds - most radars scan every 6 minutes
+const RADAR_MIN_TTL = 60; // seconds - re-check at most once a minute while a scan is overdue
+const RADAR_STALE_WINDOW = 10 * 60; // seconds
+const RADAR_FALLBACK_WINDOW = 2 * 60 * 60; // seconds - how old a loop can be to stand in while BoM is down
+
+const TRANSPARENCY_LAYERS = ['background', 'topography', 'catchments', 'range', 'locations'];
+
+// Radar frames never change once published, map layers only rarely
+const RADAR_IMAGE_CACHE_TTL = 365 * 24 * 60 * 60; // 1 year
+const TRANSPARENCY_CACHE_TTL = 7 * 24 * 60 * 60; // 1 week
 
 export default {
   async fetch(request, env, ctx) {
@@ -32,19 +70,70 @@ export default {
     const radarMatch = url.pathname.match(/^\/api\/radar\/([^\/]+)$/);
     if (radarMatch && request.method === 'GET') {
       const productId = radarMatch[1];
-      return handleRadarRequest(productId, corsHeaders);
+      return handleRadarRequest(productId, corsHeaders, ctx);
+    }
+
+    // Route: GET /api/radar-image/:file
+    const radarImageMatch = url.pathname.match(/^\/api\/radar-image\/([^\/]+)$/);
+    if (radarImageMatch && request.method === 'GET') {
+      return handleRadarImageRequest(radarImageMatch[1], corsHeaders);
+    }
+
+    // Route: GET /api/transparency/:productId/:layer
+    const transparencyMatch = url.pathname.match(/^\/api\/transparency\/([^\/]+)\/([^\/]+)$/);
+    if (transparencyMatch && request.method === 'GET') {
+      return handleTransparencyRequest(transparencyMatch[1], transparencyMatch[2], corsHeaders);
+    }
+
+    // Route: GET /api/weather/hourly?geohash={geohash}
+    if (url.pathname === '/api/weather/hourly' && request.method === 'GET') {
+      return handleHourlyRequest(url.searchParams, corsHeaders);
+    }
+
+    // Route: GET /api/warnings?geohash={geohash}
+    if (url.pathname === '/api/warnings' && request.method === 'GET') {
+      return handleWarningsRequest(url.searchParams, corsHeaders);
+    }
+
+    // Route: GET /api/warnings/:id
+    const warningMatch = url.pathname.match(/^\/api\/warnings\/([^\/]+)$/);
+    if (warningMatch && request.method === 'GET') {
+      return handleWarningDetailRequest(warningMatch[1], corsHeaders);
+    }
+
+    // Route: GET /api/observations/history?station={bom_id}
+    if (url.pathname === '/api/observations/history' && request.method === 'GET') {
+      return handleObservationHistoryRequest(url.searchParams, corsHeaders, env);
+    }
+
+    // Route: GET /api/locations/search?q={query}
+    if (url.pathname === '/api/locations/search' && request.method === 'GET') {
+      return handleLocationSearchRequest(url.searchParams, corsHeaders);
     }
 
     // Route: GET /api/weather?lat={lat}&lng={lng}
     if (url.pathname === '/api/weather' && request.method === 'GET') {
-      return handleWeatherRequest(url.searchParams, corsHeaders);
+      return handleWeatherRequest(url.searchParams, corsHeaders, env, ctx);
     }
 
     // Route: GET /health
     if (url.pathname === '/health' && request.method === 'GET') {
       return new Response(JSON.stringify({
         status: 'ok',
-        message: 'No-Consultant Weather API is running'
+        message: 'No-Consultant Weather API is running',
+        upstream: getCircuitStates()
+      }), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+
+    // Route: GET /metrics
+    if (url.pathname === '/metrics' && request.method === 'GET') {
+      return new Response(JSON.stringify({
+        coalescing: coalescingStats
       }), {
         headers: {
           'Content-Type': 'application/json',
@@ -59,8 +148,16 @@ export default {
         message: 'No-Consultant Weather API',
         endpoints: {
           '/api/radar/:productId': 'Get radar images for a product ID (e.g., IDR663)',
+          '/api/radar-image/:file': 'Get a radar frame image (e.g., IDR663.T.202510290319.png)',
+          '/api/transparency/:productId/:layer': 'Get a radar map layer (e.g., /api/transparency/IDR663/background)',
           '/api/weather?lat={lat}&lng={lng}': 'Get weather data for coordinates',
-          '/health': 'Health check'
+          '/api/weather/hourly?geohash={geohash}': 'Get the hourly forecast for a location',
+          '/api/warnings?geohash={geohash}': 'Get active warnings for a location',
+          '/api/warnings/:id': 'Get the full text of a warning',
+          '/api/observations/history?station={bom_id}': 'Get the last 24 hours of observations for a weather station',
+          '/api/locations/search?q={query}': 'Search for a suburb, town or postcode',
+          '/health': 'Health check and BoM circuit breaker state',
+          '/metrics': 'Upstream request metrics'
         }
       }), {
         headers: {
@@ -86,18 +183,39 @@ export default {
 /**
  * Handles requests to fetch radar images for a given product ID
  */
-async function handleRadarRequest(productId, corsHeaders) {
-  try {
-    const loopUrl = `https://reg.bom.gov.au/products/${productId}.loop.shtml`;
+async function handleRadarRequest(productId, corsHeaders, ctx) {
+  const cache = caches.default;
+  const cacheKey = new Request(`https://radar-cache.internal/loop/${productId}`);
 
-    // Fetch the HTML page from BoM
-    const response = await fetch(loopUrl);
+  const cached = await cache.match(cacheKey);
+  let fallback = null;
 
-    if (!response.ok) {
-      return new Response(JSON.stringify({
-        error: `Failed to fetch radar data: ${response.statusText}`
-      }), {
-        status: response.status,
+  if (cached) {
+    const ttl = Number(cached.headers.get('X-Cache-Ttl'));
+    const data = await cached.json();
+    const age = Math.floor((Date.now() - Date.parse(data.fetchedAt)) / 1000);
+
+    if (age < ttl) {
+      return radarLoopResponse(data, ttl, age, 'HIT', corsHeaders);
+    }
+    if (age < ttl + RADAR_STALE_WINDOW) {
+      ctx.waitUntil(refreshRadarLoop(productId, cache, cacheKey));
+      return radarLoopResponse(data, ttl, age, 'STALE', corsHeaders);
+    }
+
+    // Last good loop to serve, flagged as stale, if BoM is down
+    fallback = { data, ttl, age };
+  }
+
+  try {
+    const result = await coalesce('radar', productId, () => fetchRadarLoop(productId));
+
+    if (result.status !== 200) {
+      if (fallback) {
+        return radarLoopResponse(fallback.data, fallback.ttl, fallback.age, 'STALE', corsHeaders, true);
+      }
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
         headers: {
           'Content-Type': 'application/json',
           ...corsHeaders
@@ -105,16 +223,173 @@ async function handleRadarRequest(productId, corsHeaders) {
       });
     }
 
-    const html = await response.text();
+    const { data, ttl } = await cacheRadarLoop(result.body, cache, cacheKey);
+    return radarLoopResponse(data, ttl, 0, 'MISS', corsHeaders);
+
+  } catch (error) {
+    if (fallback) {
+      return radarLoopResponse(fallback.data, fallback.ttl, fallback.age, 'STALE', corsHeaders, true);
+    }
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
+/**
+ * Fetches and parses a BoM radar loop page
+ * Returns the status and JSON body to send back to the client
+ */
+async function fetchRadarLoop(productId) {
+  const loopUrl = `https://reg.bom.gov.au/products/${productId}.loop.shtml`;
+
+  // Fetch the HTML page from BoM
+  const response = await upstreamFetch(loopUrl);
+
+  if (!response.ok) {
+    return {
+      status: response.status,
+      body: { error: `Failed to fetch radar data: ${response.statusText}` }
+    };
+  }
+
+  const html = await response.text();
+
+  // Parse the theImageNames array from the JavaScript
+  const imageUrls = parseImageNames(html);
+
+  if (imageUrls.length === 0) {
+    return {
+      status: 404,
+      body: { error: 'No radar images found' }
+    };
+  }
+
+  // Convert to full URLs with timestamps
+  const images = imageUrls.map((path) => ({
+    url: `https://reg.bom.gov.au${path}`,
+    timestamp: extractTimestamp(path),
+  }));
+
+  return { status: 200, body: { images } };
+}
+
+/**
+ * Stores a radar loop in the cache until the radar's next scan is due
+ * The cache entry itself is kept long enough to stand in while BoM is down
+ */
+async function cacheRadarLoop(loop, cache, cacheKey) {
+  const data = { ...loop, fetchedAt: new Date().toISOString() };
+  const ttl = getRadarCacheTtl(loop.images);
+
+  await cache.put(cacheKey, new Response(JSON.stringify(data), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `max-age=${Math.max(ttl + RADAR_STALE_WINDOW, RADAR_FALLBACK_WINDOW)}`,
+      'X-Cache-Ttl': String(ttl)
+    }
+  }));
+
+  return { data, ttl };
+}
+
+/**
+ * Refreshes a stale radar loop after the response has been sent
+ */
+async function refreshRadarLoop(productId, cache, cacheKey) {
+  try {
+    const result = await coalesce('radar', productId, () => fetchRadarLoop(productId));
+    if (result.status === 200) {
+      await cacheRadarLoop(result.body, cache, cacheKey);
+    }
+  } catch (error) {
+    console.warn(`Failed to refresh radar loop ${productId}:`, error.message);
+  }
+}
+
+/**
+ * Builds the response for a radar loop with its fetch time
+ * `stale` marks a loop served in place of a failed BoM fetch
+ */
+function radarLoopResponse(data, ttl, age, cacheStatus, corsHeaders, stale = false) {
+  return new Response(JSON.stringify({ ...data, stale }), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${Math.max(ttl - age, 0)}, stale-while-revalidate=${RADAR_STALE_WINDOW}`,
+      'Age': String(age),
+      'X-Cache': cacheStatus,
+      ...corsHeaders
+    }
+  });
+}
+
+/**
+ * Handles requests to proxy a single radar frame
+ * Example: IDR663.T.202510290319.png
+ */
+async function handleRadarImageRequest(file, corsHeaders) {
+  const match = file.match(/^(\w+)\.T\.\d{12}\.png$/);
+
+  if (!match || !RADAR_PRODUCT_IDS.has(match[1])) {
+    return new Response(JSON.stringify({
+      error: 'Invalid radar image'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  return proxyImage(`https://reg.bom.gov.au/radar/${file}`, RADAR_IMAGE_CACHE_TTL, corsHeaders);
+}
+
+/**
+ * Handles requests to proxy a radar map layer (background, range rings...)
+ */
+async function handleTransparencyRequest(productId, layer, corsHeaders) {
+  if (!RADAR_PRODUCT_IDS.has(productId) || !TRANSPARENCY_LAYERS.includes(layer)) {
+    return new Response(JSON.stringify({
+      error: 'Invalid radar product or layer'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  return proxyImage(
+    `https://reg.bom.gov.au/products/radar_transparencies/${productId}.${layer}.png`,
+    TRANSPARENCY_CACHE_TTL,
+    corsHeaders
+  );
+}
 
-    // Parse the theImageNames array from the JavaScript
-    const imageUrls = parseImageNames(html);
+/**
+ * Streams a BoM image back to the client
+ * Cloudflare caches the upstream response so repeat requests don't reach BoM
+ */
+async function proxyImage(url, cacheTtl, corsHeaders) {
+  try {
+    const response = await upstreamFetch(url, {
+      cf: { cacheEverything: true, cacheTtl }
+    });
 
-    if (imageUrls.length === 0) {
+    if (!response.ok) {
       return new Response(JSON.stringify({
-        error: 'No radar images found'
+        error: `Failed to fetch radar image: ${response.statusText}`
       }), {
-        status: 404,
+        status: response.status,
         headers: {
           'Content-Type': 'application/json',
           ...corsHeaders
@@ -122,13 +397,51 @@ async function handleRadarRequest(productId, corsHeaders) {
       });
     }
 
-    // Convert to full URLs with timestamps
-    const images = imageUrls.map((path) => ({
-      url: `https://reg.bom.gov.au${path}`,
-      timestamp: extractTimestamp(path),
-    }));
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': `public, max-age=${cacheTtl}`,
+        ...corsHeaders
+      }
+    });
 
-    return new Response(JSON.stringify({ images }), {
+  } catch (error) {
+    return new Response(JSON.stringify({
+      error: 'Internal server error',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
+/**
+ * Handles requests for the last 24 hours of observations for a weather station
+ * Only has readings from while the Worker has been asked about the station
+ */
+async function handleObservationHistoryRequest(searchParams, corsHeaders, env) {
+  const station = searchParams.get('station');
+
+  if (!station || !STATION_ID_PATTERN.test(station)) {
+    return new Response(JSON.stringify({
+      error: 'Missing or invalid parameter: station'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  try {
+    const samples = await getObservationHistory(env.OBSERVATION_HISTORY, station);
+
+    return new Response(JSON.stringify({ station, samples }), {
       headers: {
         'Content-Type': 'application/json',
         ...corsHeaders
@@ -137,7 +450,7 @@ async function handleRadarRequest(productId, corsHeaders) {
 
   } catch (error) {
     return new Response(JSON.stringify({
-      error: 'Internal server error',
+      error: 'Failed to fetch observation history',
       message: error.message
     }), {
       status: 500,
@@ -149,10 +462,86 @@ async function handleRadarRequest(productId, corsHeaders) {
   }
 }
 
+/**
+ * Handles requests to search for a suburb, town or postcode
+ */
+async function handleLocationSearchRequest(searchParams, corsHeaders) {
+  const query = (searchParams.get('q') ?? '').trim();
+
+  if (!LOCATION_QUERY_PATTERN.test(query)) {
+    return new Response(JSON.stringify({
+      error: 'Missing or invalid parameter: q (3-50 letters, numbers or spaces)'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  const cacheKey = query.toLowerCase();
+  const cached = locationSearchCache.get(cacheKey);
+  if (cached && (Date.now() - cached.timestamp < LOCATION_SEARCH_CACHE_DURATION)) {
+    return new Response(JSON.stringify(cached.data), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const locations = await coalesce('search', cacheKey, () => fetchLocationSearch(query));
+
+    const searchData = {
+      query,
+      locations,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    locationSearchCache.set(cacheKey, {
+      data: searchData,
+      timestamp: Date.now()
+    });
+
+    return new Response(JSON.stringify(searchData), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+
+  } catch (error) {
+    if (fallback) {
+      return new Response(JSON.stringify({ ...fallback.data, stale: true }), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+    return new Response(JSON.stringify({
+      error: 'Failed to search locations',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
 /**
  * Handles requests to fetch weather data for given coordinates
  */
-async function handleWeatherRequest(searchParams, corsHeaders) {
+async function handleWeatherRequest(searchParams, corsHeaders, env, ctx) {
   const lat = searchParams.get('lat');
   const lng = searchParams.get('lng');
 
@@ -196,9 +585,20 @@ async function handleWeatherRequest(searchParams, corsHeaders) {
     });
   }
 
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+  const staleResponse = () => new Response(JSON.stringify({ ...fallback.data, stale: true }), {
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders
+    }
+  });
+
   try {
     // Step 1: Convert lat/lng to geohash
-    const locationData = await fetchLocationGeohash(latitude, longitude);
+    const locationData = await coalesce('location', `${latitude},${longitude}`, () =>
+      fetchLocationGeohash(latitude, longitude)
+    );
 
     if (!locationData || !locationData.geohash) {
       return new Response(JSON.stringify({
@@ -214,10 +614,24 @@ async function handleWeatherRequest(searchParams, corsHeaders) {
 
     // Step 2: Fetch observations and forecast in parallel
     const [observations, forecast] = await Promise.all([
-      fetchObservations(locationData.geohash),
-      fetchDailyForecast(locationData.geohash)
+      coalesce('observations', locationData.geohash, () => fetchObservations(locationData.geohash)),
+      coalesce('forecast', locationData.geohash, () => fetchDailyForecast(locationData.geohash))
     ]);
 
+    // Keep a rolling history of the station's readings for trend charts
+    if (observations) {
+      ctx.waitUntil(
+        recordObservation(env.OBSERVATION_HISTORY, observations).catch((error) => {
+          console.warn('Failed to record observation history:', error.message);
+        })
+      );
+    }
+
+    // Both failing means BoM is having trouble - older data beats none
+    if (!observations && !forecast && fallback) {
+      return staleResponse();
+    }
+
     const weatherData = {
       location: {
         name: locationData.name,
@@ -227,7 +641,9 @@ async function handleWeatherRequest(searchParams, corsHeaders) {
         lng: longitude
       },
       observations: observations || null,
-      forecast: forecast || null
+      forecast: forecast || null,
+      fetchedAt: new Date().toISOString(),
+      stale: false
     };
 
     // Cache the result
@@ -244,11 +660,248 @@ async function handleWeatherRequest(searchParams, corsHeaders) {
     });
 
   } catch (error) {
+    if (fallback) {
+      return staleResponse();
+    }
     return new Response(JSON.stringify({
       error: 'Failed to fetch weather data',
       message: error.message
     }), {
-      status: 500,
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
+/**
+ * Handles requests to fetch the hourly forecast for a location
+ */
+async function handleHourlyRequest(searchParams, corsHeaders) {
+  const geohash = searchParams.get('geohash');
+
+  if (!geohash || !GEOHASH_PATTERN.test(geohash)) {
+    return new Response(JSON.stringify({
+      error: 'Missing or invalid parameter: geohash'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  const cached = hourlyCache.get(geohash);
+  if (cached && (Date.now() - cached.timestamp < HOURLY_CACHE_DURATION)) {
+    return new Response(JSON.stringify(cached.data), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const hourly = await coalesce('hourly', geohash, () => fetchHourlyForecast(geohash));
+
+    const hourlyData = {
+      geohash,
+      hourly,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    hourlyCache.set(geohash, {
+      data: hourlyData,
+      timestamp: Date.now()
+    });
+
+    return new Response(JSON.stringify(hourlyData), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+
+  } catch (error) {
+    if (fallback) {
+      return new Response(JSON.stringify({ ...fallback.data, stale: true }), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch hourly forecast',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
+/**
+ * Handles requests to fetch active warnings for a location
+ */
+async function handleWarningsRequest(searchParams, corsHeaders) {
+  const geohash = searchParams.get('geohash');
+
+  if (!geohash || !GEOHASH_PATTERN.test(geohash)) {
+    return new Response(JSON.stringify({
+      error: 'Missing or invalid parameter: geohash'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  const cached = warningsCache.get(geohash);
+  if (cached && (Date.now() - cached.timestamp < WARNINGS_CACHE_DURATION)) {
+    return new Response(JSON.stringify(cached.data), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const warnings = await coalesce('warnings', geohash, () => fetchWarnings(geohash));
+
+    const warningsData = {
+      geohash,
+      warnings,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    warningsCache.set(geohash, {
+      data: warningsData,
+      timestamp: Date.now()
+    });
+
+    return new Response(JSON.stringify(warningsData), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+
+  } catch (error) {
+    if (fallback) {
+      return new Response(JSON.stringify({ ...fallback.data, stale: true }), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch warnings',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+}
+
+/**
+ * Handles requests to fetch the full text of a warning
+ */
+async function handleWarningDetailRequest(id, corsHeaders) {
+  if (!WARNING_ID_PATTERN.test(id)) {
+    return new Response(JSON.stringify({
+      error: 'Invalid warning ID'
+    }), {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  const cached = warningDetailCache.get(id);
+  if (cached && (Date.now() - cached.timestamp < WARNINGS_CACHE_DURATION)) {
+    return new Response(JSON.stringify(cached.data), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+  }
+
+  // Last good data to serve, flagged as stale, if BoM is down
+  const fallback = cached && (Date.now() - cached.timestamp < STALE_DURATION) ? cached : null;
+
+  try {
+    const warning = await coalesce('warning', id, () => fetchWarningDetail(id));
+
+    if (!warning) {
+      return new Response(JSON.stringify({
+        error: 'Warning not found'
+      }), {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+
+    const warningData = {
+      warning,
+      fetchedAt: new Date().toISOString(),
+      stale: false
+    };
+
+    warningDetailCache.set(id, {
+      data: warningData,
+      timestamp: Date.now()
+    });
+
+    return new Response(JSON.stringify(warningData), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders
+      }
+    });
+
+  } catch (error) {
+    if (fallback) {
+      return new Response(JSON.stringify({ ...fallback.data, stale: true }), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        }
+      });
+    }
+    return new Response(JSON.stringify({
+      error: 'Failed to fetch warning',
+      message: error.message
+    }), {
+      status: error.circuitOpen ? 503 : 500,
       headers: {
         'Content-Type': 'application/json',
         ...corsHeaders
@@ -263,7 +916,7 @@ async function handleWeatherRequest(searchParams, corsHeaders) {
 async function fetchLocationGeohash(lat, lng) {
   const url = `https://api.weather.bom.gov.au/v1/locations?search=${lat},${lng}`;
 
-  const response = await fetch(url);
+  const response = await upstreamFetch(url);
 
   if (!response.ok) {
     throw new Error(`BoM location API error: ${response.statusText}`);
@@ -284,13 +937,41 @@ async function fetchLocationGeohash(lat, lng) {
   return null;
 }
 
+/**
+ * Searches BoM's locations by name or postcode
+ * BoM only returns geohashes, so coordinates come from decoding them
+ */
+async function fetchLocationSearch(query) {
+  const url = `https://api.weather.bom.gov.au/v1/locations?search=${encodeURIComponent(query)}`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM location API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return (result.data || []).flatMap((location) => {
+    const coordinates = location.geohash ? decodeGeohash(location.geohash) : null;
+    if (!coordinates) return [];
+
+    return [{
+      name: location.name,
+      state: location.state,
+      postcode: location.postcode ?? null,
+      geohash: location.geohash,
+      ...coordinates
+    }];
+  });
+}
+
 /**
  * Fetches current observations from BoM API
  */
 async function fetchObservations(geohash) {
   const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/observations`;
 
-  const response = await fetch(url);
+  const response = await upstreamFetch(url);
 
   if (!response.ok) {
     console.warn(`BoM observations API error: ${response.statusText}`);
@@ -307,7 +988,7 @@ async function fetchObservations(geohash) {
 async function fetchDailyForecast(geohash) {
   const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/forecasts/daily`;
 
-  const response = await fetch(url);
+  const response = await upstreamFetch(url);
 
   if (!response.ok) {
     console.warn(`BoM forecast API error: ${response.statusText}`);
@@ -327,6 +1008,60 @@ async function fetchDailyForecast(geohash) {
   return null;
 }
 
+/**
+ * Fetches the hourly forecast from BoM API
+ * Returns an array of hourly entries (about 3 days ahead)
+ */
+async function fetchHourlyForecast(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/forecasts/hourly`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM hourly forecast API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Fetches warnings for a location from BoM API
+ * Returns an array of warning summaries (no message text)
+ */
+async function fetchWarnings(geohash) {
+  const url = `https://api.weather.bom.gov.au/v1/locations/${geohash}/warnings`;
+
+  const response = await upstreamFetch(url);
+
+  if (!response.ok) {
+    throw new Error(`BoM warnings API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Fetches a single warning, including its message, from BoM API
+ * Returns null if BoM doesn't know the warning (expired or cancelled)
+ */
+async function fetchWarningDetail(id) {
+  const url = `https://api.weather.bom.gov.au/v1/warnings/${encodeURIComponent(id)}`;
+
+  const response = await upstreamFetch(url);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`BoM warning API error: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || null;
+}
+
 /**
  * Parses the theImageNames JavaScript array from the HTML
  * Extracts image paths from patterns like: theImageNames[0] = "/radar/IDR663.T.202510290319.png";
@@ -350,4 +1085,37 @@ function parseImageNames(html) {
 function extractTimestamp(path) {
   const match = path.match(/\.T\.(\d+)\.png/);
   return match ? match[1] : '';
-}
\ No newline at end of file
+}
+
+/**
+ * Works out how long (in seconds) a radar loop stays fresh: until the next
+ * scan is due, based on the spacing of the two newest frames
+ */
+function getRadarCacheTtl(images, now = Date.now()) {
+  const times = images
+    .map((image) => parseTimestamp(image.timestamp))
+    .filter((time) => time !== null);
+
+  if (times.length === 0) {
+    return RADAR_MIN_TTL;
+  }
+
+  const latest = times[times.length - 1];
+  const interval = times.length > 1
+    ? latest - times[times.length - 2]
+    : RADAR_SCAN_INTERVAL * 1000;
+  const untilNextScan = Math.round((latest + interval - now) / 1000);
+
+  return Math.min(Math.max(untilNextScan, RADAR_MIN_TTL), RADAR_SCAN_INTERVAL);
+}
+
+/**
+ * Parses a BoM timestamp (YYYYMMDDHHmm, UTC) into milliseconds
+ */
+function parseTimestamp(timestamp) {
+  const match = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hour, minute);
+}
@@ -0,0 +1,81 @@
+/**
+ * Single-flight deduplication for upstream BoM calls
+ *
+ * Concurrent identical calls (same type and key) share one in-flight promise,
+ * so a burst of clients asking for the same loop or location costs one fetch.
+ * Stats per call type -> { requests, upstream, saved }
+ * Both are per isolate - Cloudflare runs many, so metrics are a sample.
+ *
+ * The shared promise belongs to whichever request started the call. If that
+ * request is cancelled its I/O can be cancelled with it and the promise may
+ * never settle, so callers that join it only wait COALESCE_WAIT_TIMEOUT
+ * before giving up on it and making the call themselves.
+ */
+
+import { UPSTREAM_TIMEOUT } from './upstream.js';
+
+export const COALESCE_WAIT_TIMEOUT = UPSTREAM_TIMEOUT; // ms - about one upstream attempt
+
+const inFlight = new Map();
+export const coalescingStats = {};
+
+/**
+ * Waits for a promise, rejecting with `timedOut` set if it takes longer than `ms`
+ */
+function waitFor(promise, ms) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Gave up waiting after ${ms}ms`);
+      error.timedOut = true;
+      reject(error);
+    }, ms);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function coalesce(type, key, fn, waitTimeout = COALESCE_WAIT_TIMEOUT) {
+  const stats = coalescingStats[type] ??= { requests: 0, upstream: 0, saved: 0 };
+  stats.requests++;
+
+  const flightKey = `${type}:${key}`;
+
+  const start = () => {
+    stats.upstream++;
+    const promise = fn().finally(() => {
+      // A caller that gave up waiting may have replaced it already
+      if (inFlight.get(flightKey) === promise) inFlight.delete(flightKey);
+    });
+    inFlight.set(flightKey, promise);
+    return promise;
+  };
+
+  const pending = inFlight.get(flightKey);
+  if (!pending) {
+    return start();
+  }
+
+  stats.saved++;
+  return waitFor(pending, waitTimeout).catch((error) => {
+    if (!error.timedOut) throw error;
+
+    // Another caller that gave up has already started a fresh call
+    const current = inFlight.get(flightKey);
+    if (current && current !== pending) return current;
+
+    // The call it joined looks stuck - this one wasn't saved after all
+    stats.saved--;
+    return start();
+  });
+}
+
+/**
+ * Forgets in-flight calls and stats (for tests)
+ */
+export function resetCoalescing() {
+  inFlight.clear();
+  for (const type of Object.keys(coalescingStats)) {
+    delete coalescingStats[type];
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { coalesce, coalescingStats, resetCoalescing } from './coalesce.js';
+
+const never = () => new Promise(() => {});
+
+describe('coalesce', () => {
+  beforeEach(() => {
+    resetCoalescing();
+  });
+
+  it('should share one call between concurrent callers', async () => {
+    const fn = vi.fn(async () => 'loop');
+
+    const results = await Promise.all([coalesce('radar', 'IDR663', fn), coalesce('radar', 'IDR663', fn)]);
+
+    expect(results).toEqual(['loop', 'loop']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(coalescingStats.radar).toEqual({ requests: 2, upstream: 1, saved: 1 });
+  });
+
+  it('should not share results between different keys or later calls', async () => {
+    const fn = vi.fn(async () => 'result');
+
+    await Promise.all([coalesce('test', 'a', fn), coalesce('test', 'b', fn)]);
+    await coalesce('test', 'a', fn);
+
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share rejections with every waiting caller', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('BoM down');
+    });
+
+    const results = await Promise.allSettled([coalesce('test', 'a', fn), coalesce('test', 'a', fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('should make its own call when the shared one never settles', async () => {
+    coalesce('radar', 'IDR663', never); // Started by a request that was cancelled
+
+    const result = await coalesce('radar', 'IDR663', async () => 'loop', 10);
+
+    expect(result).toBe('loop');
+    expect(coalescingStats.radar).toEqual({ requests: 2, upstream: 2, saved: 0 });
+  });
+
+  it('should let later callers share the replacement call', async () => {
+    coalesce('radar', 'IDR663', never);
+    const fn = vi.fn(() => new Promise((resolve) => setTimeout(() => resolve('loop'), 20)));
+
+    const results = await Promise.all([
+      coalesce('radar', 'IDR663', fn, 10),
+      coalesce('radar', 'IDR663', fn, 10)
+    ]);
+
+    expect(results).toEqual(['loop', 'loop']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Rolling buffer of recent observations per weather station
+ *
+ * BoM's observations endpoint only has the latest reading, so each time the
+ * Worker fetches observations the reading is recorded here, keyed by the
+ * station's BoM ID. The last 24 hours are kept in Workers KV (the
+ * OBSERVATION_HISTORY binding) so every isolate sees the same history.
+ * Without the binding nothing is recorded and history comes back empty.
+ *
+ * Each sample is its own key, named after the half-hour slot it was taken in,
+ * and expires once it's out of the window. Isolates recording the same
+ * station at once write the same key rather than overwriting each other's
+ * lists. KV allows 1,000 writes a day on the free plan - one sample every
+ * 30 minutes is 48 writes per station, so about 20 stations fit.
+ */
+
+export const HISTORY_WINDOW = 24 * 60 * 60 * 1000; // ms of history to keep
+export const SAMPLE_INTERVAL = 30 * 60 * 1000; // ms - one KV write per station per slot
+export const STATION_ID_PATTERN = /^\d{4,6}$/;
+
+// Samples expire from KV once they've left the window
+const KV_EXPIRATION_TTL = (HISTORY_WINDOW + SAMPLE_INTERVAL) / 1000; // seconds
+
+function sampleSlot(time) {
+  return Math.floor(time / SAMPLE_INTERVAL);
+}
+
+function sampleKey(station, slot) {
+  return `observations:${station}:${slot}`;
+}
+
+/**
+ * Picks the fields we chart out of a BoM observation
+ */
+export function toSample(observations, time) {
+  return {
+    time: new Date(time).toISOString(),
+    temp: observations.temp,
+    humidity: observations.humidity,
+    wind: observations.wind,
+    rain_since_9am: observations.rain_since_9am
+  };
+}
+
+/**
+ * Records an observation against its station
+ * Several locations share a station, so only the first reading in each slot
+ * is kept
+ */
+export async function recordObservation(kv, observations, now = Date.now()) {
+  const station = observations?.station?.bom_id;
+  if (!kv || !station) return;
+
+  const key = sampleKey(station, sampleSlot(now));
+  if ((await kv.get(key)) !== null) return;
+
+  await kv.put(key, JSON.stringify(toSample(observations, now)), {
+    expirationTtl: KV_EXPIRATION_TTL
+  });
+}
+
+/**
+ * Samples for a station from the last 24 hours, oldest first
+ */
+export async function getObservationHistory(kv, station, now = Date.now()) {
+  if (!kv) return [];
+
+  const cutoff = now - HISTORY_WINDOW;
+  const slots = [];
+  for (let slot = sampleSlot(cutoff); slot <= sampleSlot(now); slot++) {
+    slots.push(slot);
+  }
+
+  const samples = await Promise.all(slots.map((slot) => kv.get(sampleKey(station, slot), 'json')));
+  return samples.filter((s) => s && Date.parse(s.time) > cutoff);
+}
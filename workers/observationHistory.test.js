@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  recordObservation,
+  getObservationHistory,
+  HISTORY_WINDOW,
+  SAMPLE_INTERVAL
+} from './observationHistory.js';
+
+const START = Date.UTC(2025, 11, 4, 0, 0);
+
+function observation(temp, bom_id = '040913') {
+  return {
+    temp,
+    humidity: 60,
+    wind: { speed_kilometre: 15, speed_knot: 8, direction: 'SE' },
+    rain_since_9am: 0,
+    station: { bom_id, name: 'Brisbane' }
+  };
+}
+
+/**
+ * Just enough of a Workers KV namespace for the history
+ */
+function createKv() {
+  const store = new Map();
+  return {
+    store,
+    get: vi.fn(async (key, type) => {
+      const value = store.get(key)?.value ?? null;
+      return type === 'json' && value !== null ? JSON.parse(value) : value;
+    }),
+    put: vi.fn(async (key, value, options) => {
+      store.set(key, { value, options });
+    })
+  };
+}
+
+describe('observationHistory (Worker)', () => {
+  it('should record one sample per station per slot', async () => {
+    const kv = createKv();
+
+    await recordObservation(kv, observation(20), START);
+    await recordObservation(kv, observation(21), START + SAMPLE_INTERVAL - 1);
+    await recordObservation(kv, observation(22), START + SAMPLE_INTERVAL);
+
+    const samples = await getObservationHistory(kv, '040913', START + SAMPLE_INTERVAL);
+    expect(samples.map((s) => s.temp)).toEqual([20, 22]);
+    expect(samples[0]).toEqual({
+      time: new Date(START).toISOString(),
+      temp: 20,
+      humidity: 60,
+      wind: { speed_kilometre: 15, speed_knot: 8, direction: 'SE' },
+      rain_since_9am: 0
+    });
+    expect(kv.put).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stay within the free plan with a station asked about all day', async () => {
+    const kv = createKv();
+
+    for (let time = START; time < START + HISTORY_WINDOW; time += 60 * 1000) {
+      await recordObservation(kv, observation(20), time);
+    }
+
+    expect(kv.put).toHaveBeenCalledTimes(48);
+  });
+
+  it('should keep samples recorded by different isolates', async () => {
+    const kv = createKv();
+
+    // Both read before either writes, like two isolates at once
+    await Promise.all([
+      recordObservation(kv, observation(20), START),
+      recordObservation(kv, observation(20), START + 1000)
+    ]);
+    await Promise.all([
+      recordObservation(kv, observation(21, '040913'), START + SAMPLE_INTERVAL),
+      recordObservation(kv, observation(30, '066062'), START + SAMPLE_INTERVAL)
+    ]);
+
+    const now = START + SAMPLE_INTERVAL;
+    expect((await getObservationHistory(kv, '040913', now)).map((s) => s.temp)).toEqual([20, 21]);
+    expect((await getObservationHistory(kv, '066062', now)).map((s) => s.temp)).toEqual([30]);
+  });
+
+  it('should expire samples once they leave the window', async () => {
+    const kv = createKv();
+
+    await recordObservation(kv, observation(20), START);
+
+    const [[, , options]] = kv.put.mock.calls;
+    expect(options.expirationTtl * 1000).toBeGreaterThan(HISTORY_WINDOW);
+    expect(await getObservationHistory(kv, '040913', START + HISTORY_WINDOW - 1)).toHaveLength(1);
+    expect(await getObservationHistory(kv, '040913', START + HISTORY_WINDOW)).toEqual([]);
+  });
+
+  it('should do nothing without the KV binding or a station', async () => {
+    const kv = createKv();
+
+    await expect(recordObservation(undefined, observation(20), START)).resolves.toBeUndefined();
+    await recordObservation(kv, { temp: 20 }, START);
+
+    expect(kv.put).not.toHaveBeenCalled();
+    expect(await getObservationHistory(undefined, '040913', START)).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Radar products the API proxies images and map layers for
+ * Mirrors the radars in src/data/radarLocations.ts (server/radarProducts.test.js
+ * checks the two match), so requests for products BoM doesn't publish
+ * never reach it or the long-lived image cache
+ */
+
+// Base IDs of every radar, e.g. "66" for Brisbane (Mt Stapylton)
+const RADAR_BASE_IDS = [
+  '71', '04', '03', '40', '28', '53', '55', '69', '93', '94', '96', '62',
+  '02', '68', '97', '95', '49', '66', '50', '19', '08', '106', '22', '24',
+  '23', '72', '98', '56', '75', '107', '74', '78', '36', '67', '108', '41',
+  '70', '17', '31', '06', '48', '15', '16', '111', '29', '114', '32', '39',
+  '37', '44', '38', '58', '79', '64', '46', '33', '14', '27', '76', '52',
+  '63', '25', '42', '112', '77'
+];
+
+// Doppler wind products, for the radars that have one
+const DOPPLER_PRODUCT_IDS = [
+  'IDR71I', 'IDR40I', 'IDR02I', 'IDR66I', 'IDR70I', 'IDR64I', 'IDR76I', 'IDR63I'
+];
+
+// National composite, used under the mosaic
+const NATIONAL_PRODUCT_ID = 'IDR00004';
+
+// Rain products come in four ranges: 1 = 512km, 2 = 256km, 3 = 128km, 4 = 64km
+const RANGE_SUFFIXES = ['1', '2', '3', '4'];
+
+export const RADAR_PRODUCT_IDS = new Set([
+  ...RADAR_BASE_IDS.flatMap((baseId) => RANGE_SUFFIXES.map((suffix) => `IDR${baseId}${suffix}`)),
+  ...DOPPLER_PRODUCT_IDS,
+  NATIONAL_PRODUCT_ID
+]);
@@ -0,0 +1,141 @@
+/**
+ * Upstream client for BoM requests
+ *
+ * Wraps fetch with a per-call timeout, bounded retries with jittered backoff
+ * on 5xx and network errors, and a circuit breaker per BoM host. After
+ * repeated failures the circuit opens and calls fail immediately, so callers
+ * fall back to cached/stale data instead of waiting on a hung endpoint.
+ * After a cooldown one trial request is let through to test the water.
+ *
+ * Circuit state lives in the isolate, so each Worker instance trips its own.
+ */
+
+export const UPSTREAM_TIMEOUT = 8000; // ms per attempt
+export const UPSTREAM_RETRIES = 2; // retries after the first attempt
+export const RETRY_BACKOFF = 250; // ms, doubled each retry (with full jitter)
+export const CIRCUIT_THRESHOLD = 5; // consecutive failures before the circuit opens
+export const CIRCUIT_COOLDOWN = 30 * 1000; // ms before a trial request is allowed
+
+/**
+ * Circuit state per host -> { state, failures, openedAt, trialInFlight }
+ * state is 'closed' (normal), 'open' (failing fast) or 'half-open' (trial request)
+ */
+const circuits = new Map();
+
+function getCircuit(host) {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = { state: 'closed', failures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+}
+
+function allowRequest(circuit) {
+  if (circuit.state === 'open' && Date.now() - circuit.openedAt >= CIRCUIT_COOLDOWN) {
+    circuit.state = 'half-open';
+  }
+
+  if (circuit.state === 'closed') {
+    return true;
+  }
+
+  // Only one trial request at a time while half-open
+  if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  return false;
+}
+
+function recordSuccess(circuit) {
+  circuit.state = 'closed';
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+function recordFailure(circuit) {
+  circuit.failures++;
+  circuit.trialInFlight = false;
+
+  if (circuit.state === 'half-open' || circuit.failures >= CIRCUIT_THRESHOLD) {
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Fetches from BoM with timeout, retries and circuit breaking
+ *
+ * Resolves with the response (including a final 4xx/5xx, so callers keep
+ * their own error handling). Rejects on network errors or timeouts once
+ * retries are exhausted, or straight away with `circuitOpen` set while the
+ * host's circuit is open.
+ */
+export async function upstreamFetch(url, init = {}, {
+  timeout = UPSTREAM_TIMEOUT,
+  retries = UPSTREAM_RETRIES,
+  backoff = RETRY_BACKOFF
+} = {}) {
+  const host = new URL(url).host;
+  const circuit = getCircuit(host);
+
+  if (!allowRequest(circuit)) {
+    const error = new Error(`BoM is unavailable (${host} circuit open)`);
+    error.circuitOpen = true;
+    throw error;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeout) });
+
+      // 4xx means BoM is up and answering - only 5xx counts against it
+      if (response.status < 500) {
+        recordSuccess(circuit);
+        return response;
+      }
+      if (attempt >= retries) {
+        recordFailure(circuit);
+        return response;
+      }
+      await response.body?.cancel();
+
+    } catch (error) {
+      if (attempt >= retries) {
+        recordFailure(circuit);
+        throw error;
+      }
+    }
+
+    await sleep(Math.random() * backoff * 2 ** attempt);
+  }
+}
+
+/**
+ * Circuit state per host for the health endpoint
+ */
+export function getCircuitStates() {
+  const states = {};
+  for (const [host, circuit] of circuits) {
+    states[host] = {
+      state: circuit.state,
+      failures: circuit.failures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null
+    };
+  }
+  return states;
+}
+
+/**
+ * Closes all circuits (for tests)
+ */
+export function resetCircuits() {
+  circuits.clear();
+}